@@ -2,6 +2,7 @@ import Fastify from 'fastify';
 import { answerRoutes } from './routes/answer.js';
 import { config } from 'dotenv';
 import cors from '@fastify/cors';
+import { NullnessService } from './services/nullness.js';
 import { nullnessRoutes } from './routes/nullness.js';
 import { rankRoutes } from './routes/rank.js';
 import swagger from '@fastify/swagger';
@@ -41,10 +42,11 @@ await fastify.register(swaggerUi, {
   }
 });
 
-// Register routes
-await fastify.register(rankRoutes, { prefix: '/api' });
-await fastify.register(answerRoutes, { prefix: '/api' });
-await fastify.register(nullnessRoutes, { prefix: '/api' });
+// Register routes; one NullnessService so /update_nullness feeds back into ranking
+const nullnessService = new NullnessService();
+await fastify.register(rankRoutes, { prefix: '/api', nullnessService });
+await fastify.register(answerRoutes, { prefix: '/api', nullnessService });
+await fastify.register(nullnessRoutes, { prefix: '/api', nullnessService });
 
 // Health check
 fastify.get('/health', async () => {
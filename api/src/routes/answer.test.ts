@@ -1,6 +1,7 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 
+import { RankingService } from '../services/ranking.js';
 import { answerRoutes } from './answer.js';
 import fs from 'fs';
 import path from 'path';
@@ -248,6 +249,25 @@ describe('/answer endpoint', () => {
     expect(body.citations.length).toBeLessThanOrEqual(5);
   });
 
+  test('should pass domain and source filters to the ranking service', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/answer?query=test&domain=hotel&source=hotel-booking-guide.txt,revenue-management-strategies.txt'
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const rankingService = vi.mocked(RankingService).mock.results.at(-1)!.value;
+    expect(rankingService.rankBaseline).toHaveBeenCalledWith('test', 3, {
+      filter: {
+        and: [
+          { field: 'domain', equals: 'hotel' },
+          { field: 'source', in: ['hotel-booking-guide.txt', 'revenue-management-strategies.txt'] }
+        ]
+      }
+    });
+  });
+
   test('should return 400 for missing query parameter', async () => {
     const response = await app.inject({
       method: 'GET',
@@ -1,19 +1,25 @@
 import { AnswerService, Citation } from '../services/answer.js';
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 
+import { NullnessService } from '../services/nullness.js';
 import { RankingService } from '../services/ranking.js';
+import { metadataFilterFromQuery } from '../services/vectorStore/filter.js';
 import { z } from 'zod';
 
 const answerQuerySchema = z.object({
   query: z.string().min(1, 'Query cannot be empty'),
   k: z.number().int().positive().max(10).default(3),
-  mode: z.enum(['baseline', 'volam']).default('baseline')
+  mode: z.enum(['baseline', 'volam']).default('baseline'),
+  domain: z.string().optional(),
+  source: z.string().optional()
 });
 
 interface AnswerQuery {
   query: string;
   k?: number;
   mode?: 'baseline' | 'volam';
+  domain?: string;
+  source?: string;
 }
 
 interface AnswerResponse {
@@ -29,8 +35,13 @@ interface AnswerResponse {
   };
 }
 
-export async function answerRoutes(fastify: FastifyInstance) {
-  const rankingService = new RankingService();
+export interface AnswerRouteOptions {
+  /** Concept nullness that VOLaM scoring reads, shared with the nullness routes */
+  nullnessService?: NullnessService;
+}
+
+export async function answerRoutes(fastify: FastifyInstance, options: AnswerRouteOptions = {}) {
+  const rankingService = new RankingService({ nullnessService: options.nullnessService });
   const answerService = new AnswerService();
 
   fastify.get('/answer', {
@@ -40,7 +51,9 @@ export async function answerRoutes(fastify: FastifyInstance) {
         properties: {
           query: { type: 'string', minLength: 1 },
           k: { type: 'number', minimum: 1, maximum: 10 },
-          mode: { type: 'string', enum: ['baseline', 'volam'] }
+          mode: { type: 'string', enum: ['baseline', 'volam'] },
+          domain: { type: 'string', description: 'Comma-separated corpus domains to search' },
+          source: { type: 'string', description: 'Comma-separated source files to search' }
         },
         required: ['query']
       },
@@ -81,14 +94,23 @@ export async function answerRoutes(fastify: FastifyInstance) {
   }, async (request: FastifyRequest<{ Querystring: AnswerQuery }>, reply: FastifyReply) => {
     try {
       const params = answerQuerySchema.parse(request.query);
+      const filter = metadataFilterFromQuery(params);
       const startTime = Date.now();
 
       // Get ranked evidence using the existing ranking service
       let rankingResult;
       if (params.mode === 'volam') {
-        rankingResult = await rankingService.rankWithVOLaM(params.query, params.k);
+        rankingResult = await rankingService.rankWithVOLaM(
+          params.query,
+          params.k,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { filter }
+        );
       } else {
-        rankingResult = await rankingService.rankBaseline(params.query, params.k);
+        rankingResult = await rankingService.rankBaseline(params.query, params.k, { filter });
       }
 
       // Use AnswerService to compose answer with rationale and citations
@@ -107,6 +129,7 @@ export async function answerRoutes(fastify: FastifyInstance) {
         mode: params.mode,
         query: params.query,
         k: params.k,
+        filter,
         responseTime,
         citationCount: answerComposition.citations.length,
         confidence: answerComposition.confidence,
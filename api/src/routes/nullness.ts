@@ -31,8 +31,13 @@ interface HistoryQuery {
   timeWindow?: number;
 }
 
-export async function nullnessRoutes(fastify: FastifyInstance) {
-  const nullnessService = new NullnessService();
+export interface NullnessRouteOptions {
+  /** Shared with the ranking routes so support and refute updates change rankings */
+  nullnessService?: NullnessService;
+}
+
+export async function nullnessRoutes(fastify: FastifyInstance, options: NullnessRouteOptions = {}) {
+  const nullnessService = options.nullnessService ?? new NullnessService();
 
   // Update nullness endpoint
   fastify.post('/update_nullness', {
@@ -1,5 +1,9 @@
 import Fastify, { FastifyInstance } from 'fastify';
-import { beforeEach, describe, expect, test } from 'vitest';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+import { PresetStore } from '../services/presets.js';
+import { RankingService } from '../services/ranking.js';
+import { rankRoutes } from './rank.js';
 
 describe('/rank endpoint', () => {
   let app: FastifyInstance;
@@ -408,3 +412,231 @@ describe('/rank endpoint', () => {
     expect(body.metadata).toHaveProperty('timestamp');
   });
 });
+
+describe('rankRoutes', () => {
+  let app: FastifyInstance;
+  // The test setup hands every caller the same RankingService stub
+  const rankingService = vi.mocked(new RankingService());
+
+  const presetStore = new PresetStore({
+    default: { name: 'Default', alpha: 0.6, beta: 0.3, gamma: 0.1 },
+    hotel: { name: 'Hotel', alpha: 0.5, beta: 0.4, gamma: 0.1, domains: ['hotel'] },
+    climate: {
+      name: 'Climate',
+      alpha: 0.5,
+      beta: 0.2,
+      gamma: 0.2,
+      weights: { recency: 0.1 },
+      empathyProfile: 'climate_focused'
+    }
+  });
+
+  const rank = (query: string) => app.inject({ method: 'GET', url: `/api/rank?${query}` });
+  // Options the last VOLaM ranking was given
+  const volamOptions = () => rankingService.rankWithVOLaM.mock.lastCall![6];
+  // α, β, γ and empathy profile the last VOLaM ranking was given
+  const volamParameters = () => rankingService.rankWithVOLaM.mock.lastCall!.slice(2, 6);
+
+  beforeEach(async () => {
+    rankingService.rankBaseline.mockClear();
+    rankingService.rankWithVOLaM.mockClear();
+    rankingService.explainVOLaM.mockClear();
+
+    app = Fastify({ logger: false });
+    await app.register(rankRoutes, { prefix: '/api', presetStore });
+  });
+
+  describe('re-ranking', () => {
+    test('should pass rerank, rerankBlend and candidatePool to VOLaM ranking', async () => {
+      const response = await rank('query=test&mode=volam&rerank=blend&rerankBlend=0.3&candidatePool=40');
+
+      expect(response.statusCode).toBe(200);
+      expect(volamOptions()).toMatchObject({ rerank: 'blend', rerankBlend: 0.3, candidatePool: 40 });
+      expect(JSON.parse(response.body).parameters).toMatchObject({ rerank: 'blend', rerankBlend: 0.3, candidatePool: 40 });
+    });
+
+    test('should not re-rank by default', async () => {
+      await rank('query=test&mode=volam');
+
+      expect(volamOptions()).toMatchObject({ rerank: 'off', rerankBlend: 0.5, candidatePool: undefined });
+    });
+
+    test('should reject an unknown mode and out-of-range values', async () => {
+      expect((await rank('query=test&mode=volam&rerank=cross')).statusCode).toBe(400);
+      expect((await rank('query=test&mode=volam&rerankBlend=1.5')).statusCode).toBe(400);
+      expect((await rank('query=test&mode=volam&candidatePool=500')).statusCode).toBe(400);
+      expect(rankingService.rankWithVOLaM).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('query expansion', () => {
+    test('should pass expand to both ranking modes', async () => {
+      const response = await rank('query=test&mode=volam&expand=true');
+      await rank('query=test&expand=true');
+
+      expect(volamOptions()).toMatchObject({ expand: true });
+      expect(rankingService.rankBaseline.mock.lastCall![2]).toMatchObject({ expand: true });
+      expect(JSON.parse(response.body).parameters.expand).toBe(true);
+    });
+
+    test('should not expand by default', async () => {
+      await rank('query=test&mode=volam');
+
+      expect(volamOptions()).toMatchObject({ expand: false });
+    });
+
+    test('should reject a non-boolean expand', async () => {
+      expect((await rank('query=test&expand=maybe')).statusCode).toBe(400);
+    });
+  });
+
+  describe('presets', () => {
+    test('should rank with the requested preset', async () => {
+      const response = await rank('query=test&mode=volam&preset=hotel');
+
+      expect(volamParameters()).toEqual([0.5, 0.4, 0.1, 'default']);
+      expect(JSON.parse(response.body).parameters).toMatchObject({
+        preset: 'hotel',
+        presetSelectedBy: 'request',
+        alpha: 0.5,
+        beta: 0.4,
+        gamma: 0.1
+      });
+    });
+
+    test('should let explicit parameters override the preset', async () => {
+      await rank('query=test&mode=volam&preset=hotel&alpha=0.7&gamma=0');
+
+      expect(volamParameters()).toEqual([0.7, 0.4, 0, 'default']);
+    });
+
+    test('should pick the preset of the filtered or detected domain', async () => {
+      const filtered = JSON.parse((await rank('query=test&mode=volam&domain=hotel')).body);
+      expect(filtered.parameters).toMatchObject({ preset: 'hotel', presetSelectedBy: 'domain' });
+
+      // The shipped thesaurus files overbooking under hotel
+      const detected = JSON.parse((await rank('query=overbooking%20compensation&mode=volam')).body);
+      expect(detected.parameters).toMatchObject({ preset: 'hotel', presetSelectedBy: 'domain' });
+
+      // Several domains leave the choice to the query text, which matches none here
+      const several = JSON.parse((await rank('query=test&mode=volam&domain=hotel,web-dev')).body);
+      expect(several.parameters).toMatchObject({ preset: 'default', presetSelectedBy: 'default' });
+    });
+
+    test('should rank with the empathy profile\'s preset and its weights', async () => {
+      const response = await rank('query=test&mode=volam&empathyProfile=%22climate_focused%22');
+
+      expect(volamParameters()).toEqual([0.5, 0.2, 0.2, 'climate_focused']);
+      expect(volamOptions()).toMatchObject({ weights: { recency: 0.1 } });
+      expect(JSON.parse(response.body).parameters).toMatchObject({ preset: 'climate', presetSelectedBy: 'profile' });
+    });
+
+    test('should reject an unknown preset', async () => {
+      const response = await rank('query=test&mode=volam&preset=missing');
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body)).toEqual({
+        error: 'Invalid request parameters',
+        details: 'Unknown preset: missing. Available: default, hotel, climate'
+      });
+    });
+  });
+
+  describe('ranking options', () => {
+    test('should map every query parameter onto the ranking options', async () => {
+      const weights = encodeURIComponent(JSON.stringify({ recency: 0.2 }));
+      await rank(
+        'query=test&mode=volam&domain=hotel&source=a.md,b.md&retrieval=hybrid&fusion=weighted' +
+        `&diversity=0.4&maxPerSource=2&weights=${weights}&rerank=replace&candidatePool=30&expand=true`
+      );
+
+      expect(volamOptions()).toEqual({
+        filter: { and: [{ field: 'domain', equals: 'hotel' }, { field: 'source', in: ['a.md', 'b.md'] }] },
+        retrieval: 'hybrid',
+        fusion: 'weighted',
+        weights: { recency: 0.2 },
+        diversity: 0.4,
+        maxPerSource: 2,
+        rerank: 'replace',
+        rerankBlend: 0.5,
+        candidatePool: 30,
+        expand: true
+      });
+    });
+
+    test('should fill in defaults for omitted parameters', async () => {
+      await rank('query=test');
+
+      expect(rankingService.rankBaseline.mock.lastCall).toEqual(['test', 5, {
+        filter: undefined,
+        retrieval: 'dense',
+        fusion: 'rrf',
+        weights: undefined,
+        diversity: 0,
+        maxPerSource: undefined,
+        rerank: 'off',
+        rerankBlend: 0.5,
+        candidatePool: undefined,
+        expand: false
+      }]);
+    });
+
+    test('should reject malformed weights', async () => {
+      const response = await rank(`query=test&mode=volam&weights=${encodeURIComponent('{"recency":2}')}`);
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).details).toContain('weights must be a JSON object');
+    });
+  });
+
+  describe('explain', () => {
+    const explain = (query: string) => app.inject({ method: 'GET', url: `/api/rank/explain?${query}` });
+
+    test('should return the explanation with the resolved parameters', async () => {
+      const response = await explain('query=test&k=2&diversity=0.3&maxPerSource=1');
+      const body = JSON.parse(response.body);
+
+      expect(response.statusCode).toBe(200);
+      expect(body).toMatchObject({ query: 'test', empathyProfile: 'default', candidates: 3 });
+      expect(body.evidence).toHaveLength(2);
+      expect(body.evidence[0]).toMatchObject({
+        id: 'mock-doc-1',
+        volamRank: 1,
+        baselineRank: 1,
+        contributions: { cosine: { weight: 0.6 } },
+        counterfactuals: { cosine: { rank: 1, change: 0 } }
+      });
+      expect(body.parameters).toMatchObject({
+        alpha: 0.6,
+        beta: 0.3,
+        gamma: 0.1,
+        preset: 'default',
+        presetSelectedBy: 'default',
+        k: 2,
+        diversity: 0.3,
+        maxPerSource: 1
+      });
+      expect(body.metadata).toEqual({ responseTime: expect.any(Number), timestamp: expect.any(String) });
+    });
+
+    test('should explain with the same preset, parameters and options as ranking', async () => {
+      await explain('query=test&empathyProfile=%22climate_focused%22&beta=0.4&diversity=0.5&maxPerSource=2');
+
+      const call = rankingService.explainVOLaM.mock.lastCall!;
+      expect(call.slice(0, 6)).toEqual(['test', 5, 0.5, 0.4, 0.2, 'climate_focused']);
+      expect(call[6]).toMatchObject({ weights: { recency: 0.1 }, diversity: 0.5, maxPerSource: 2 });
+    });
+
+    test('should reject a missing query or an unknown preset', async () => {
+      expect((await explain('k=3')).statusCode).toBe(400);
+
+      const response = await explain('query=test&preset=missing');
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body)).toEqual({
+        error: 'Invalid request parameters',
+        details: 'Unknown preset: missing. Available: default, hotel, climate'
+      });
+      expect(rankingService.explainVOLaM).not.toHaveBeenCalled();
+    });
+  });
+});
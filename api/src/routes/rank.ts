@@ -1,16 +1,30 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 
 import { NullnessService } from '../services/nullness.js';
+import { PresetStore } from '../services/presets.js';
 import { RankingService } from '../services/ranking.js';
+import { detectQueryDomain, loadThesaurus } from '../services/queryExpansion.js';
+import { metadataFilterFromQuery } from '../services/vectorStore/filter.js';
 import { z } from 'zod';
 
 const rankQuerySchema = z.object({
   mode: z.enum(['baseline', 'volam']).default('baseline'),
   query: z.string(),
   k: z.number().int().positive().default(5),
-  alpha: z.number().min(0).max(1).default(0.6),
-  beta: z.number().min(0).max(1).default(0.3),
-  gamma: z.number().min(0).max(1).default(0.1),
+  preset: z.string().optional(),
+  alpha: z.number().min(0).max(1).optional(),
+  beta: z.number().min(0).max(1).optional(),
+  gamma: z.number().min(0).max(1).optional(),
+  domain: z.string().optional(),
+  source: z.string().optional(),
+  retrieval: z.enum(['dense', 'lexical', 'hybrid']).default('dense'),
+  fusion: z.enum(['rrf', 'weighted']).default('rrf'),
+  diversity: z.number().min(0).max(1).default(0),
+  maxPerSource: z.number().int().positive().optional(),
+  rerank: z.enum(['off', 'replace', 'blend']).default('off'),
+  rerankBlend: z.number().min(0).max(1).default(0.5),
+  candidatePool: z.number().int().positive().max(200).optional(),
+  expand: z.boolean().default(false),
   empathyProfile: z.string().optional().transform((val) => {
     if (!val) return undefined;
     try {
@@ -18,48 +32,135 @@ const rankQuerySchema = z.object({
     } catch {
       return undefined;
     }
+  }),
+  weights: z.string().optional().transform((val, ctx) => {
+    if (!val) return undefined;
+    try {
+      return z.record(z.number().min(0).max(1)).parse(JSON.parse(val));
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'weights must be a JSON object of scoring component weights in [0, 1]' });
+      return z.NEVER;
+    }
   })
 });
 
+// Querystring schema shared by /rank and /rank/explain
+const rankQuerystring = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['baseline', 'volam'] },
+    query: { type: 'string' },
+    k: { type: 'number', minimum: 1 },
+    preset: { type: 'string', description: 'VOLaM parameter preset; by default the empathy profile\'s or the query domain\'s' },
+    alpha: { type: 'number', minimum: 0, maximum: 1 },
+    beta: { type: 'number', minimum: 0, maximum: 1 },
+    gamma: { type: 'number', minimum: 0, maximum: 1 },
+    domain: { type: 'string', description: 'Comma-separated corpus domains to search' },
+    source: { type: 'string', description: 'Comma-separated source files to search' },
+    retrieval: { type: 'string', enum: ['dense', 'lexical', 'hybrid'] },
+    fusion: { type: 'string', enum: ['rrf', 'weighted'] },
+    diversity: { type: 'number', minimum: 0, maximum: 1, description: 'MMR trade-off: 0 keeps relevance order, 1 favours dissimilar evidence' },
+    maxPerSource: { type: 'number', minimum: 1, description: 'Most evidence pieces from one source file' },
+    rerank: { type: 'string', enum: ['off', 'replace', 'blend'], description: 'VOLaM: re-ranker score in place of or blended with cosine' },
+    rerankBlend: { type: 'number', minimum: 0, maximum: 1, description: 'Share of alpha given to the re-ranker when blending' },
+    candidatePool: { type: 'number', minimum: 1, maximum: 200, description: 'Candidates retrieved for re-ranking' },
+    expand: { type: 'boolean', description: 'Also search synonym and keyword rewrites of the query, fused by RRF' },
+    empathyProfile: { type: 'string' },
+    weights: { type: 'string', description: 'JSON weights for extra scoring components, e.g. {"recency":0.1}' }
+  },
+  required: ['query']
+};
+
 interface RankQuery {
   mode?: 'baseline' | 'volam';
   query: string;
   k?: number;
+  preset?: string;
   alpha?: number;
   beta?: number;
   gamma?: number;
+  domain?: string;
+  source?: string;
+  retrieval?: 'dense' | 'lexical' | 'hybrid';
+  fusion?: 'rrf' | 'weighted';
+  diversity?: number;
+  maxPerSource?: number;
+  rerank?: 'off' | 'replace' | 'blend';
+  rerankBlend?: number;
+  candidatePool?: number;
+  expand?: boolean;
   empathyProfile?: string;
+  weights?: string;
 }
 
-export async function rankRoutes(fastify: FastifyInstance) {
+export interface RankRouteOptions {
+  /** Concept nullness that VOLaM scoring reads, shared with the nullness routes */
+  nullnessService?: NullnessService;
+  /** VOLaM parameter presets (default from data/presets) */
+  presetStore?: PresetStore;
+}
+
+export async function rankRoutes(fastify: FastifyInstance, options: RankRouteOptions = {}) {
   // In test environment, these will be mocked automatically
-  const rankingService = new RankingService();
-  const nullnessService = new NullnessService();
+  const nullnessService = options.nullnessService ?? new NullnessService();
+  const rankingService = new RankingService({ nullnessService });
+  const presetStore = options.presetStore ?? PresetStore.load();
+  // Detects the domain of unfiltered queries for preset selection
+  const thesaurus = loadThesaurus();
   
   // Only initialize if not in test environment
   if (process.env.NODE_ENV !== 'test') {
     await rankingService.initialize();
+    // Pick up re-seeded index snapshots without a restart
+    rankingService.watchSnapshots();
+  }
+
+  /**
+   * Preset, VOLaM parameters and ranking options for a request; explicit
+   * α/β/γ/weights override the preset's
+   */
+  function resolveParameters(params: z.infer<typeof rankQuerySchema>) {
+    const filter = metadataFilterFromQuery(params);
+    const domains = params.domain?.split(',').map(domain => domain.trim()).filter(Boolean) ?? [];
+    const { id: preset, preset: presetParameters, selectedBy: presetSelectedBy } = presetStore.select({
+      preset: params.preset,
+      empathyProfile: typeof params.empathyProfile === 'string' ? params.empathyProfile : undefined,
+      domain: domains.length === 1 ? domains[0] : detectQueryDomain(params.query, thesaurus) ?? undefined
+    });
+    const weights = params.weights ?? presetParameters.weights;
+
+    return {
+      filter,
+      preset,
+      presetSelectedBy,
+      alpha: params.alpha ?? presetParameters.alpha,
+      beta: params.beta ?? presetParameters.beta,
+      gamma: params.gamma ?? presetParameters.gamma,
+      weights,
+      empathyProfile: params.empathyProfile || presetParameters.empathyProfile || 'default',
+      options: {
+        filter,
+        retrieval: params.retrieval,
+        fusion: params.fusion,
+        weights,
+        diversity: params.diversity,
+        maxPerSource: params.maxPerSource,
+        rerank: params.rerank,
+        rerankBlend: params.rerankBlend,
+        candidatePool: params.candidatePool,
+        expand: params.expand
+      }
+    };
   }
 
   fastify.get('/rank', {
     schema: {
-      querystring: {
-        type: 'object',
-        properties: {
-          mode: { type: 'string', enum: ['baseline', 'volam'] },
-          query: { type: 'string' },
-          k: { type: 'number', minimum: 1 },
-          alpha: { type: 'number', minimum: 0, maximum: 1 },
-          beta: { type: 'number', minimum: 0, maximum: 1 },
-          gamma: { type: 'number', minimum: 0, maximum: 1 },
-          empathyProfile: { type: 'string' }
-        },
-        required: ['query']
-      }
+      querystring: rankQuerystring
     }
   }, async (request: FastifyRequest<{ Querystring: RankQuery }>, reply: FastifyReply) => {
     try {
       const params = rankQuerySchema.parse(request.query);
+      const { filter, preset, presetSelectedBy, alpha, beta, gamma, weights, empathyProfile, options } = resolveParameters(params);
       
       const startTime = Date.now();
       
@@ -68,13 +169,14 @@ export async function rankRoutes(fastify: FastifyInstance) {
         results = await rankingService.rankWithVOLaM(
           params.query,
           params.k,
-          params.alpha,
-          params.beta,
-          params.gamma,
-          params.empathyProfile || 'default'
+          alpha,
+          beta,
+          gamma,
+          empathyProfile,
+          options
         );
       } else {
-        results = await rankingService.rankBaseline(params.query, params.k);
+        results = await rankingService.rankBaseline(params.query, params.k, options);
       }
 
       // Update nullness tracking
@@ -86,9 +188,12 @@ export async function rankRoutes(fastify: FastifyInstance) {
       fastify.log.info({
         mode: params.mode,
         query: params.query,
-        alpha: params.alpha,
-        beta: params.beta,
-        gamma: params.gamma,
+        preset,
+        alpha,
+        beta,
+        gamma,
+        filter,
+        retrieval: params.retrieval,
         topKScores: results.evidence.slice(0, 3).map(e => e.score),
         responseTime,
         timestamp: new Date().toISOString()
@@ -102,10 +207,23 @@ export async function rankRoutes(fastify: FastifyInstance) {
         confidence: results.confidence,
         nullness: results.nullness,
         parameters: {
-          alpha: params.alpha,
-          beta: params.beta,
-          gamma: params.gamma,
-          k: params.k
+          preset,
+          presetSelectedBy,
+          alpha,
+          beta,
+          gamma,
+          k: params.k,
+          domain: params.domain,
+          source: params.source,
+          retrieval: params.retrieval,
+          fusion: params.fusion,
+          weights,
+          diversity: params.diversity,
+          maxPerSource: params.maxPerSource,
+          rerank: params.rerank,
+          rerankBlend: params.rerankBlend,
+          candidatePool: params.candidatePool,
+          expand: params.expand
         },
         metadata: {
           responseTime,
@@ -120,4 +238,45 @@ export async function rankRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  fastify.get('/rank/explain', {
+    schema: {
+      querystring: rankQuerystring
+    }
+  }, async (request: FastifyRequest<{ Querystring: RankQuery }>, reply: FastifyReply) => {
+    try {
+      const params = rankQuerySchema.parse(request.query);
+      const { preset, presetSelectedBy, alpha, beta, gamma, empathyProfile, options } = resolveParameters(params);
+      const startTime = Date.now();
+
+      const explanation = await rankingService.explainVOLaM(params.query, params.k, alpha, beta, gamma, empathyProfile, options);
+
+      return {
+        ...explanation,
+        parameters: {
+          ...explanation.parameters,
+          preset,
+          presetSelectedBy,
+          k: params.k,
+          domain: params.domain,
+          source: params.source,
+          retrieval: params.retrieval,
+          diversity: params.diversity,
+          maxPerSource: params.maxPerSource,
+          rerank: params.rerank,
+          expand: params.expand
+        },
+        metadata: {
+          responseTime: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({ 
+        error: 'Invalid request parameters',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
 }
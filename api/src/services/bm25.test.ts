@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { describe, expect, it } from 'vitest';
+
+import { BM25Index, LexicalDocument, tokenize } from './bm25.js';
+
+describe('BM25Index', () => {
+  const documents: LexicalDocument[] = [
+    {
+      id: 'hooks',
+      content: 'The useEffect hook runs side effects after render. Clean up subscriptions in useEffect.',
+      metadata: { domain: 'web-dev', source: 'react-hooks.txt', chunkIndex: 0, tokens: 20 }
+    },
+    {
+      id: 'state',
+      content: 'The useState hook stores local component state between renders.',
+      metadata: { domain: 'web-dev', source: 'react-hooks.txt', chunkIndex: 1, tokens: 14 }
+    },
+    {
+      id: 'cancellation',
+      content: 'Free cancellation policy: bookings can be cancelled up to 24 hours before check-in.',
+      metadata: { domain: 'hotel', source: 'hotel-booking-guide.txt', chunkIndex: 0, tokens: 18 }
+    }
+  ];
+
+  const buildIndex = () => {
+    const index = new BM25Index();
+    index.addDocuments(documents);
+    return index;
+  };
+
+  it('should tokenize identifiers and drop stopwords', () => {
+    expect(tokenize('What does the useEffect hook do?')).toEqual(['useeffect', 'hook']);
+    expect(tokenize('check-in policy')).toEqual(['check-in', 'policy']);
+  });
+
+  it('should rank exact keyword matches first', () => {
+    const results = buildIndex().search('useEffect cleanup', 3);
+
+    expect(results[0].document.id).toBe('hooks');
+    expect(results.map(r => r.document.id)).not.toContain('cancellation');
+  });
+
+  it('should weight rare terms above common ones', () => {
+    const results = buildIndex().search('hook state', 3);
+
+    // "hook" appears in two documents, "state" only in one
+    expect(results.map(r => r.document.id)).toEqual(['state', 'hooks']);
+  });
+
+  it('should return nothing when no query term matches', () => {
+    expect(buildIndex().search('quantum entanglement', 5)).toEqual([]);
+  });
+
+  it('should apply metadata filters', () => {
+    const results = buildIndex().search('hook policy', 5, { field: 'domain', equals: 'hotel' });
+
+    expect(results.map(r => r.document.id)).toEqual(['cancellation']);
+  });
+
+  it('should replace and delete documents', () => {
+    const index = buildIndex();
+    index.addDocuments([{ ...documents[2], content: 'Late checkout is available on request.' }]);
+
+    expect(index.getDocumentCount()).toBe(3);
+    expect(index.search('cancellation', 5)).toEqual([]);
+
+    expect(index.deleteDocuments(['hooks', 'missing'])).toBe(1);
+    expect(index.getDocumentCount()).toBe(2);
+    expect(index.search('useEffect', 5)).toEqual([]);
+  });
+
+  it('should persist and reload with identical scores', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'bm25-'));
+    const indexPath = path.join(tempDir, 'bm25.json');
+    const index = buildIndex();
+
+    await index.save(indexPath);
+    const reloaded = await BM25Index.load(indexPath);
+
+    expect(reloaded.getDocumentCount()).toBe(3);
+    expect(reloaded.search('cancellation policy', 3)).toEqual(index.search('cancellation policy', 3));
+
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * BM25 Lexical Index
+ * Keyword retrieval over the same chunks stored in the vector store
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { VectorDocument } from './vectorStore.js';
+import { MetadataFilter, matchesMetadataFilter } from './vectorStore/filter.js';
+
+export type LexicalDocument = Omit<VectorDocument, 'embedding'>;
+
+export interface LexicalSearchResult {
+  document: LexicalDocument;
+  score: number;
+}
+
+export interface BM25Options {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Document length normalization (default 0.75) */
+  b?: number;
+}
+
+interface IndexedDocument {
+  document: LexicalDocument;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i',
+  'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you', 'your'
+]);
+
+/**
+ * Lowercase word tokens with stopwords removed
+ * Identifiers such as `useEffect` stay whole so hook and policy names match exactly
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[-_][a-z0-9]+)*/g) || [])
+    .filter(token => !STOPWORDS.has(token));
+}
+
+export class BM25Index {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /**
+   * Index documents, replacing any indexed documents with the same IDs
+   */
+  addDocuments(documents: Array<LexicalDocument | VectorDocument>): void {
+    for (const { id, content, metadata } of documents) {
+      this.removeDocument(id);
+
+      const tokens = tokenize(content);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+
+      this.documents.set(id, { document: { id, content, metadata }, termFrequencies, length: tokens.length });
+      this.totalLength += tokens.length;
+    }
+  }
+
+  /**
+   * Remove documents by ID, returning how many were removed
+   */
+  deleteDocuments(ids: string[]): number {
+    return ids.filter(id => this.removeDocument(id)).length;
+  }
+
+  getDocumentCount(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Indexed documents in insertion order
+   */
+  getDocuments(): LexicalDocument[] {
+    return [...this.documents.values()].map(({ document }) => document);
+  }
+
+  /**
+   * Score documents against the query terms and return the top k
+   */
+  search(query: string, k: number, filter?: MetadataFilter): LexicalSearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const results: LexicalSearchResult[] = [];
+
+    for (const { document, termFrequencies, length } of this.documents.values()) {
+      if (filter && !matchesMetadataFilter(document.metadata, filter)) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const norm = this.k1 * (1 - this.b + this.b * (length / averageLength));
+        score += this.idf(term) * (frequency * (this.k1 + 1)) / (frequency + norm);
+      }
+
+      if (score > 0) {
+        results.push({ document, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Persist indexed documents and their term frequencies as JSON
+   */
+  async save(filePath: string): Promise<void> {
+    const data = {
+      k1: this.k1,
+      b: this.b,
+      savedAt: new Date().toISOString(),
+      documents: [...this.documents.values()].map(({ document, termFrequencies, length }) => ({
+        ...document,
+        length,
+        terms: Object.fromEntries(termFrequencies)
+      }))
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data));
+  }
+
+  /**
+   * Load an index written by save()
+   */
+  static async load(filePath: string): Promise<BM25Index> {
+    const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    const index = new BM25Index({ k1: data.k1, b: data.b });
+
+    for (const { id, content, metadata, length, terms } of data.documents) {
+      const termFrequencies = new Map<string, number>(Object.entries(terms));
+      for (const term of termFrequencies.keys()) {
+        index.documentFrequencies.set(term, (index.documentFrequencies.get(term) || 0) + 1);
+      }
+      index.documents.set(id, { document: { id, content, metadata }, termFrequencies, length });
+      index.totalLength += length;
+    }
+
+    return index;
+  }
+
+  private removeDocument(id: string): boolean {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return false;
+    }
+
+    for (const term of existing.termFrequencies.keys()) {
+      const remaining = (this.documentFrequencies.get(term) || 1) - 1;
+      if (remaining > 0) {
+        this.documentFrequencies.set(term, remaining);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+    this.totalLength -= existing.length;
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Okapi BM25 inverse document frequency, floored at zero
+   */
+  private idf(term: string): number {
+    const n = this.documentFrequencies.get(term) || 0;
+    return Math.max(0, Math.log(1 + (this.documents.size - n + 0.5) / (n + 0.5)));
+  }
+}
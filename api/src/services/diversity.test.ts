@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { Evidence } from '../types/core.js';
+import { diversifyEvidence } from './diversity.js';
+
+function evidence(id: string, score: number, source: string, content = `chunk ${id}`): Evidence {
+  return { id, content, score, cosineScore: score, nullness: 0.2, empathyFit: 0, source, metadata: {} };
+}
+
+// a1 and a2 are adjacent, overlapping chunks of one file; b1 is about something else
+const embeddings = new Map([
+  ['a1', [1, 0, 0]],
+  ['a2', [0.98, 0.2, 0]],
+  ['a3', [0.9, 0.4, 0]],
+  ['b1', [0, 0.3, 1]]
+]);
+
+const candidates = () => [
+  evidence('a1', 0.9, 'a.txt'),
+  evidence('a2', 0.88, 'a.txt'),
+  evidence('a3', 0.85, 'a.txt'),
+  evidence('b1', 0.7, 'b.txt')
+];
+
+describe('diversifyEvidence', () => {
+  it('should keep the relevance order without diversity', () => {
+    expect(diversifyEvidence(candidates(), 3, { embeddings }).map(e => e.id)).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('should pick dissimilar evidence over near-duplicates', () => {
+    const picked = diversifyEvidence(candidates(), 3, { diversity: 0.5, embeddings });
+
+    // a2 is less redundant with a1 than it is relevant, relative to a3
+    expect(picked.map(e => e.id)).toEqual(['a1', 'b1', 'a2']);
+    expect(picked[0].metadata.redundancy).toBe(0);
+    expect(picked[1].metadata.redundancy).toBeCloseTo(0);
+  });
+
+  it('should cap evidence per source', () => {
+    expect(diversifyEvidence(candidates(), 3, { maxPerSource: 2 }).map(e => e.id)).toEqual(['a1', 'a2', 'b1']);
+    expect(diversifyEvidence(candidates(), 3, { maxPerSource: 1 }).map(e => e.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('should compare evidence by shared words when embeddings are missing', () => {
+    const texts = [
+      evidence('x1', 0.9, 'x.txt', 'null hypothesis testing rejects the null'),
+      evidence('x2', 0.85, 'x.txt', 'null hypothesis testing rejects results'),
+      evidence('y1', 0.8, 'y.txt', 'hotel pools open at nine')
+    ];
+
+    expect(diversifyEvidence(texts, 2, { diversity: 0.5 }).map(e => e.id)).toEqual(['x1', 'y1']);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Result Diversification
+ * Maximal Marginal Relevance re-ranking so top results are not near-duplicate chunks
+ */
+
+import { Evidence } from '../types/core.js';
+import { tokenize } from './bm25.js';
+
+export interface DiversityOptions {
+  /**
+   * 0 keeps the relevance order; towards 1 each pick trades relevance for
+   * dissimilarity to the evidence already picked (MMR λ = 1 − diversity)
+   */
+  diversity?: number;
+  /** Most evidence pieces to take from one source file */
+  maxPerSource?: number;
+  /** Chunk embeddings by evidence ID; evidence without one is compared by its words */
+  embeddings?: Map<string, number[] | undefined>;
+}
+
+/**
+ * Pick k evidence pieces greedily by λ·relevance − (1−λ)·max similarity to
+ * those already picked. Relevance is the evidence score min-max scaled over
+ * the candidates so it is on the same [0, 1] scale as similarity. Candidates
+ * beyond a source's cap are skipped, so fewer than k may come back.
+ */
+export function diversifyEvidence(evidence: Evidence[], k: number, options: DiversityOptions = {}): Evidence[] {
+  const lambda = 1 - (options.diversity ?? 0);
+  const maxPerSource = options.maxPerSource ?? Infinity;
+
+  const scores = evidence.map(e => e.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  const relevance = new Map(evidence.map(e => [e.id, range > 0 ? (e.score - min) / range : 1]));
+
+  const words = new Map<string, Set<string>>();
+  const similarity = (a: Evidence, b: Evidence): number => {
+    const embeddingA = options.embeddings?.get(a.id);
+    const embeddingB = options.embeddings?.get(b.id);
+    if (embeddingA && embeddingB) {
+      return Math.max(0, cosineSimilarity(embeddingA, embeddingB));
+    }
+    return jaccard(wordsOf(a, words), wordsOf(b, words));
+  };
+
+  const selected: Evidence[] = [];
+  const perSource = new Map<string, number>();
+  const remaining = [...evidence];
+
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+    let bestRedundancy = 0;
+
+    remaining.forEach((candidate, index) => {
+      if ((perSource.get(candidate.source) || 0) >= maxPerSource) {
+        return;
+      }
+      const redundancy = selected.reduce((max, picked) => Math.max(max, similarity(candidate, picked)), 0);
+      const score = lambda * relevance.get(candidate.id)! - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+        bestRedundancy = redundancy;
+      }
+    });
+
+    if (bestIndex < 0) {
+      break; // Every remaining source is at its cap
+    }
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    picked.metadata.redundancy = bestRedundancy;
+    selected.push(picked);
+    perSource.set(picked.source, (perSource.get(picked.source) || 0) + 1);
+  }
+
+  return selected;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function wordsOf(evidence: Evidence, cache: Map<string, Set<string>>): Set<string> {
+  let words = cache.get(evidence.id);
+  if (!words) {
+    words = new Set(tokenize(evidence.content));
+    cache.set(evidence.id, words);
+  }
+  return words;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { EmbeddingService, createEmbeddingProvider } from './embedding.js';
+import { LOCAL_EMBEDDING_MODEL, LocalEmbeddingProvider } from './embedding/localProvider.js';
+
+// The shared test setup mocks EmbeddingService; this suite needs the real one
+vi.unmock('./embedding.js');
+
+describe('createEmbeddingProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default to OpenAI', () => {
+    expect(createEmbeddingProvider().name).toBe('openai');
+  });
+
+  it('should pick the provider from EMBEDDING_PROVIDER', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+
+    expect(createEmbeddingProvider().name).toBe('local');
+  });
+
+  it('should let config override the environment', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+
+    expect(createEmbeddingProvider({ provider: 'openai' }).name).toBe('openai');
+  });
+
+  it('should reject unknown providers', () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'onnx');
+
+    expect(() => createEmbeddingProvider()).toThrow('Unsupported embedding provider: onnx');
+  });
+
+  it('should only require an API key for OpenAI', () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+
+    expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow('OpenAI API key is required');
+    expect(() => createEmbeddingProvider({ provider: 'local' })).not.toThrow();
+  });
+});
+
+describe('EmbeddingService', () => {
+  it('should embed offline with the local provider', async () => {
+    const service = new EmbeddingService({ provider: 'local', dimensions: 64 });
+
+    const result = await service.embed('Null hypothesis testing');
+    const batch = await service.embedBatch(['first text', '  ', 'second text']);
+
+    expect(service.getProviderName()).toBe('local');
+    expect(service.getModel()).toBe(LOCAL_EMBEDDING_MODEL);
+    expect(result.embedding).toHaveLength(64);
+    expect(batch).toHaveLength(3);
+    expect(batch[1]).toEqual({ error: 'Text is empty' });
+  });
+
+  it('should reduce provider embeddings with a reducer', async () => {
+    const reducer = { inputDimensions: 64, outputDimensions: 2, transform: (embedding: number[]) => embedding.slice(0, 2) };
+    const service = new EmbeddingService({ provider: 'local', dimensions: 64, reducer });
+
+    const result = await service.embed('Null hypothesis testing');
+
+    expect(service.getDimensions()).toBe(2);
+    expect(service.getProviderDimensions()).toBe(64);
+    expect(result.embedding).toHaveLength(2);
+
+    service.setReducer(null);
+    expect((await service.embed('Null hypothesis testing')).embedding).toHaveLength(64);
+    expect(() => service.setReducer({ ...reducer, inputDimensions: 32 })).toThrow(
+      'Reducer expects 32-dimension embeddings but the provider returns 64'
+    );
+  });
+
+  it('should reject empty text', async () => {
+    const service = new EmbeddingService({ provider: 'local' });
+
+    await expect(service.embed('   ')).rejects.toThrow('Text cannot be empty');
+  });
+
+  describe('with a disk cache', () => {
+    let tempDir: string;
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should only embed texts missing from the cache', async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-service-'));
+      const cache = { path: path.join(tempDir, 'cache.sqlite') };
+      const providerCall = vi.spyOn(LocalEmbeddingProvider.prototype, 'embedBatch');
+
+      const first = new EmbeddingService({ provider: 'local', dimensions: 32, cache });
+      const initial = await first.embedBatch(['hotel pool', 'web server', 'hotel pool']);
+      await first.close();
+
+      // A new service instance reads what the first one wrote
+      const second = new EmbeddingService({ provider: 'local', dimensions: 32, cache });
+      const repeated = await second.embedBatch(['web server', 'null result', 'hotel pool']);
+      await second.close();
+
+      expect(providerCall.mock.calls.map(([texts]) => texts)).toEqual([['hotel pool', 'web server'], ['null result']]);
+      expect(repeated[0]).toEqual(initial[1]);
+      expect(repeated[2]).toEqual(initial[0]);
+      expect(second.getCacheStats()).toEqual({ hits: 2, misses: 1, writes: 1, evictions: 0 });
+    });
+
+    it('should embed without the cache when it is turned off', () => {
+      expect(new EmbeddingService({ provider: 'local', cache: false }).getCacheStats()).toBeNull();
+      expect(new EmbeddingService({ provider: 'local' }).getCacheStats()).toBeNull();
+    });
+  });
+});
@@ -1,10 +1,39 @@
-import OpenAI from 'openai';
+import {
+  ConcurrencyLimiter,
+  DEFAULT_BATCH_OPTIONS,
+  EmbeddingBatchOptions,
+  planBatches,
+  retryWithBackoff
+} from './embedding/batching.js';
+import { EmbeddingCache, EmbeddingCacheOptions, EmbeddingCacheStats } from './embedding/cache.js';
+import { LocalEmbeddingProvider } from './embedding/localProvider.js';
+import { OpenAIEmbeddingProvider } from './embedding/openaiProvider.js';
+import { getTokenizer, Tokenizer } from './tokenizer.js';
+
+export type EmbeddingProviderName = 'openai' | 'local';
 
 export interface EmbeddingConfig {
+  /** Defaults to EMBEDDING_PROVIDER, then openai */
+  provider?: EmbeddingProviderName;
   apiKey?: string;
+  /** OpenAI: API root (default OPENAI_BASE_URL, then the OpenAI API) */
+  baseURL?: string;
+  /** Defaults to EMBEDDING_MODEL, then the provider's default */
   model?: string;
+  /** Defaults to EMBEDDING_DIMENSIONS, then 1536 */
   dimensions?: number;
   maxTokens?: number;
+  /** Counts tokens against maxTokens (default the shared cl100k tokenizer) */
+  tokenizer?: Tokenizer;
+  /**
+   * Disk cache of embeddings, on by default; false turns it off.
+   * Without this option EMBEDDING_CACHE=off disables it and EMBEDDING_CACHE_PATH moves it.
+   */
+  cache?: EmbeddingCacheOptions | false;
+  /** Request splitting, retries and parallelism for embedBatch() */
+  batching?: EmbeddingBatchOptions;
+  /** Applied to every provider embedding, e.g. a PCA fitted on the corpus */
+  reducer?: EmbeddingReducer;
 }
 
 export interface EmbeddingResult {
@@ -12,25 +41,85 @@ export interface EmbeddingResult {
   tokens: number;
 }
 
+/**
+ * A text embedBatch() could not embed, in place of its result
+ */
+export interface EmbeddingFailure {
+  error: string;
+}
+
+export type EmbeddingBatchItem = EmbeddingResult | EmbeddingFailure;
+
+export function isEmbeddingFailure(item: EmbeddingBatchItem): item is EmbeddingFailure {
+  return 'error' in item;
+}
+
+/**
+ * A source of embeddings. Implementations live in `embedding/`.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  /** Embed non-empty texts in one request; results are in input order */
+  embedBatch(texts: string[]): Promise<EmbeddingResult[]>;
+  getModel(): string;
+  getDimensions(): number;
+}
+
+/**
+ * Maps provider embeddings to fewer dimensions. Implementations live in `embedding/`.
+ */
+export interface EmbeddingReducer {
+  readonly inputDimensions: number;
+  readonly outputDimensions: number;
+  transform(embedding: number[]): number[];
+}
+
+/**
+ * Create the configured embedding provider
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig = {}): EmbeddingProvider {
+  const provider = config.provider || process.env.EMBEDDING_PROVIDER || 'openai';
+  const model = config.model || process.env.EMBEDDING_MODEL || undefined;
+  const dimensions = config.dimensions || Number(process.env.EMBEDDING_DIMENSIONS) || undefined;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({ ...config, model, dimensions });
+    case 'local':
+      return new LocalEmbeddingProvider({ dimensions });
+    default:
+      throw new Error(`Unsupported embedding provider: ${provider}. Use openai or local.`);
+  }
+}
+
 export class EmbeddingService {
-  private openai: OpenAI;
-  private config: Required<EmbeddingConfig>;
+  private provider: EmbeddingProvider;
+  private maxTokens: number;
+  private tokenizer: Tokenizer;
+  private reducer: EmbeddingReducer | null = null;
+  private cache: EmbeddingCache | null;
+  // Opened on first use; resolves to null if the cache file cannot be opened
+  private cacheReady: Promise<EmbeddingCache | null> | null = null;
+  private batchOptions: Required<EmbeddingBatchOptions>;
+  // Shared by every call so parallel embedBatch() calls respect one limit
+  private limiter: ConcurrencyLimiter;
 
   constructor(config: EmbeddingConfig = {}) {
-    this.config = {
-      apiKey: config.apiKey || process.env.OPENAI_API_KEY || '',
-      model: config.model || 'text-embedding-3-small',
-      dimensions: config.dimensions || 1536,
-      maxTokens: config.maxTokens || 8191
-    };
-
-    if (!this.config.apiKey) {
-      throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable or pass apiKey in config.');
-    }
+    this.provider = createEmbeddingProvider(config);
+    this.maxTokens = config.maxTokens || 8191;
+    this.tokenizer = config.tokenizer || getTokenizer();
+    this.batchOptions = { ...DEFAULT_BATCH_OPTIONS, ...config.batching };
+    this.limiter = new ConcurrencyLimiter(this.batchOptions.maxConcurrency);
+    this.setReducer(config.reducer || null);
 
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey
-    });
+    const cacheEnabled = config.cache === undefined ? process.env.EMBEDDING_CACHE !== 'off' : config.cache !== false;
+    const cacheOptions = config.cache || {};
+    this.cache = cacheEnabled
+      ? new EmbeddingCache({
+        path: cacheOptions.path || process.env.EMBEDDING_CACHE_PATH,
+        maxEntries: cacheOptions.maxEntries
+      })
+      : null;
   }
 
   /**
@@ -41,104 +130,224 @@ export class EmbeddingService {
       throw new Error('Text cannot be empty');
     }
 
-    try {
-      const response = await this.openai.embeddings.create({
-        model: this.config.model,
-        input: text,
-        dimensions: this.config.dimensions
-      });
-
-      const embedding = response.data[0].embedding;
-      const tokens = response.usage?.total_tokens || 0;
-
-      return {
-        embedding,
-        tokens
-      };
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const [item] = await this.embedBatch([text]);
+    if (isEmbeddingFailure(item)) {
+      throw new Error(`Failed to generate embedding: ${item.error}`);
     }
+    return item;
   }
 
   /**
-   * Generate embeddings for multiple texts in batch
+   * Generate embeddings for multiple texts. Texts are split into token-budgeted
+   * requests that run in parallel up to the concurrency limit and are retried
+   * on rate limits and server errors. The result at each position belongs to
+   * the text at that position; texts that could not be embedded (empty, over
+   * the token limit, or in a request that kept failing) get an EmbeddingFailure.
    */
-  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
-    if (texts.length === 0) {
-      return [];
-    }
-
-    // Filter out empty texts
-    const validTexts = texts.filter(text => text.trim());
-    if (validTexts.length === 0) {
-      throw new Error('No valid texts provided');
-    }
+  async embedBatch(texts: string[]): Promise<EmbeddingBatchItem[]> {
+    const items: Array<EmbeddingBatchItem | null> = texts.map(text => {
+      if (!text.trim()) {
+        return { error: 'Text is empty' };
+      }
+      if (!this.isWithinTokenLimit(text)) {
+        return { error: `Text exceeds the ${this.maxTokens}-token input limit` };
+      }
+      return null;
+    });
 
-    try {
-      const response = await this.openai.embeddings.create({
-        model: this.config.model,
-        input: validTexts,
-        dimensions: this.config.dimensions
+    const pending = items.flatMap((item, index) => (item === null ? [index] : []));
+    if (pending.length > 0) {
+      const embedded = await this.embedCached(pending.map(index => texts[index]));
+      // The cache holds provider embeddings; reduce after lookup so one entry serves any reducer
+      pending.forEach((index, i) => {
+        const item = embedded[i];
+        items[index] = this.reducer && !isEmbeddingFailure(item)
+          ? { embedding: this.reducer.transform(item.embedding), tokens: item.tokens }
+          : item;
       });
+    }
 
-      const results: EmbeddingResult[] = [];
-      const totalTokens = response.usage?.total_tokens || 0;
-      const tokensPerText = Math.ceil(totalTokens / validTexts.length);
+    return items as EmbeddingBatchItem[];
+  }
 
-      for (let i = 0; i < response.data.length; i++) {
-        results.push({
-          embedding: response.data[i].embedding,
-          tokens: tokensPerText
-        });
-      }
+  /**
+   * Cache hits, misses, writes and evictions, or null when caching is off
+   */
+  getCacheStats(): EmbeddingCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
 
-      return results;
-    } catch (error) {
-      console.error('Error generating batch embeddings:', error);
-      throw new Error(`Failed to generate batch embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Close the embedding cache
+   */
+  async close(): Promise<void> {
+    if (this.cacheReady && await this.cacheReady) {
+      await this.cache!.close();
     }
+    this.cacheReady = null;
   }
 
   /**
-   * Get the embedding dimensions for this model
+   * Get the name of the provider generating embeddings
+   */
+  getProviderName(): EmbeddingProviderName {
+    return this.provider.name;
+  }
+
+  /**
+   * Get the dimensions of the embeddings this service returns
    */
   getDimensions(): number {
-    return this.config.dimensions;
+    return this.reducer ? this.reducer.outputDimensions : this.provider.getDimensions();
+  }
+
+  /**
+   * Get the dimensions the provider embeds at, before any reducer
+   */
+  getProviderDimensions(): number {
+    return this.provider.getDimensions();
+  }
+
+  /**
+   * Reduce subsequent embeddings with this reducer, or stop reducing with null
+   */
+  setReducer(reducer: EmbeddingReducer | null): void {
+    if (reducer && reducer.inputDimensions !== this.provider.getDimensions()) {
+      throw new Error(
+        `Reducer expects ${reducer.inputDimensions}-dimension embeddings but the provider returns ${this.provider.getDimensions()}`
+      );
+    }
+    this.reducer = reducer;
   }
 
   /**
    * Get the model name
    */
   getModel(): string {
-    return this.config.model;
+    return this.provider.getModel();
   }
 
   /**
-   * Estimate token count for text (rough approximation)
+   * Token count for text; exact when the cl100k vocab is available
    */
   estimateTokens(text: string): number {
-    // Rough approximation: 1 token ≈ 4 characters for English text
-    return Math.ceil(text.length / 4);
+    return this.tokenizer.count(text);
   }
 
   /**
    * Check if text is within token limits
    */
   isWithinTokenLimit(text: string): boolean {
-    return this.estimateTokens(text) <= this.config.maxTokens;
+    return this.estimateTokens(text) <= this.maxTokens;
   }
 
   /**
-   * Truncate text to fit within token limits
+   * Truncate text to fit within token limits, cutting on a token boundary
    */
   truncateToTokenLimit(text: string): string {
-    if (this.isWithinTokenLimit(text)) {
-      return text;
+    return this.tokenizer.truncate(text, this.maxTokens);
+  }
+
+  /**
+   * Embed texts, asking the provider only for texts missing from the cache.
+   * Cache failures are logged and never fail the embedding itself.
+   */
+  private async embedCached(texts: string[]): Promise<EmbeddingBatchItem[]> {
+    const cache = await this.openCache();
+    if (!cache) {
+      return this.embedWithProvider(texts);
+    }
+
+    const model = this.provider.getModel();
+    const dimensions = this.provider.getDimensions();
+
+    let cached: Array<EmbeddingResult | null>;
+    try {
+      cached = await cache.getMany(model, dimensions, texts);
+    } catch (error) {
+      console.warn('Embedding cache lookup failed, embedding without it:', error);
+      return this.embedWithProvider(texts);
     }
 
-    const maxChars = this.config.maxTokens * 4; // Rough approximation
-    return text.substring(0, maxChars);
+    const missing = Array.from(new Set(texts.filter((_, i) => cached[i] === null)));
+    if (missing.length === 0) {
+      return cached as EmbeddingResult[];
+    }
+
+    // Round to float32 like the cache does, so a fresh embedding equals its cached copy
+    const fresh = (await this.embedWithProvider(missing)).map(item =>
+      isEmbeddingFailure(item) ? item : { embedding: Array.from(Float32Array.from(item.embedding)), tokens: item.tokens }
+    );
+
+    const stored = missing.flatMap((_, i) => (isEmbeddingFailure(fresh[i]) ? [] : [i]));
+    try {
+      await cache.setMany(
+        model,
+        dimensions,
+        stored.map(i => missing[i]),
+        stored.map(i => fresh[i] as EmbeddingResult)
+      );
+    } catch (error) {
+      console.warn('Could not write to the embedding cache:', error);
+    }
+
+    const byText = new Map(missing.map((text, i) => [text, fresh[i]]));
+    return texts.map((text, i) => cached[i] || byText.get(text)!);
+  }
+
+  /**
+   * Send texts to the provider in planned batches, retrying transient errors.
+   * A batch that still fails marks each of its texts as failed.
+   */
+  private async embedWithProvider(texts: string[]): Promise<EmbeddingBatchItem[]> {
+    const items: EmbeddingBatchItem[] = new Array(texts.length);
+    const batches = planBatches(texts.map(text => this.estimateTokens(text)), this.batchOptions);
+
+    await Promise.all(batches.map(batch => this.limiter.run(async () => {
+      const batchTexts = batch.map(index => texts[index]);
+      try {
+        const results = await retryWithBackoff(
+          () => this.provider.embedBatch(batchTexts),
+          this.batchOptions,
+          (error, attempt, delayMs) => console.warn(
+            `Embedding request for ${batch.length} texts failed (${error instanceof Error ? error.message : error}); ` +
+            `retry ${attempt}/${this.batchOptions.maxRetries} in ${Math.round(delayMs)} ms`
+          )
+        );
+        if (results.length !== batch.length) {
+          throw new Error(`Provider returned ${results.length} embeddings for ${batch.length} texts`);
+        }
+        batch.forEach((index, i) => {
+          items[index] = results[i];
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Error generating embeddings for a batch of ${batch.length} texts:`, message);
+        batch.forEach(index => {
+          items[index] = { error: message };
+        });
+      }
+    })));
+
+    return items;
+  }
+
+  private openCache(): Promise<EmbeddingCache | null> {
+    if (!this.cache) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.cacheReady) {
+      const cache = this.cache;
+      this.cacheReady = cache.initialize().then(
+        () => cache,
+        error => {
+          console.warn('Could not open the embedding cache, embedding without it:', error);
+          return null;
+        }
+      );
+    }
+    return this.cacheReady;
   }
 }
 
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { ConcurrencyLimiter, isRetryableError, planBatches, retryWithBackoff } from './batching.js';
+
+describe('planBatches', () => {
+  it('should split on the token budget and the batch size, keeping order', () => {
+    expect(planBatches([40, 40, 40, 10, 10], { maxBatchTokens: 100, maxBatchSize: 10 })).toEqual([[0, 1], [2, 3, 4]]);
+    expect(planBatches([1, 1, 1, 1, 1], { maxBatchTokens: 100, maxBatchSize: 2 })).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it('should give an item over the budget a batch of its own', () => {
+    expect(planBatches([10, 500, 10], { maxBatchTokens: 100, maxBatchSize: 10 })).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should retry rate limits, server errors and connection failures only', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ name: 'APIConnectionError' })).toBe(true);
+    expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error('invalid input'))).toBe(false);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  const options = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+  it('should retry transient failures until the call succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce({ status: 429 })
+      .mockRejectedValueOnce({ status: 502 })
+      .mockResolvedValue('done');
+    const onRetry = vi.fn();
+
+    await expect(retryWithBackoff(fn, options, onRetry)).resolves.toBe('done');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it('should not retry client errors', async () => {
+    const fn = vi.fn().mockRejectedValue({ status: 400 });
+
+    await expect(retryWithBackoff(fn, options)).rejects.toEqual({ status: 400 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the last retry', async () => {
+    const fn = vi.fn().mockRejectedValue({ status: 500 });
+
+    await expect(retryWithBackoff(fn, options)).rejects.toEqual({ status: 500 });
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should wait at least as long as Retry-After asks, up to the maximum delay', async () => {
+    const fn = vi.fn().mockRejectedValueOnce({ status: 429, headers: { 'retry-after': '1' } }).mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await retryWithBackoff(fn, options, onRetry);
+
+    expect(onRetry.mock.calls[0][2]).toBe(5);
+  });
+});
+
+describe('ConcurrencyLimiter', () => {
+  it('should never run more tasks at once than the limit', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let running = 0;
+    let peak = 0;
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, (_, i) => limiter.run(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return i;
+      }))
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it('should release the slot of a failed task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(() => Promise.resolve('next'))).resolves.toBe('next');
+  });
+});
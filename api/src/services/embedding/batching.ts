@@ -0,0 +1,136 @@
+export interface EmbeddingBatchOptions {
+  /** Estimated tokens per request (default 100000; the OpenAI limit is 300000) */
+  maxBatchTokens?: number;
+  /** Texts per request (default 512; the OpenAI limit is 2048) */
+  maxBatchSize?: number;
+  /** Requests in flight at once (default 4) */
+  maxConcurrency?: number;
+  /** Retries after a rate limit, server or network error (default 5) */
+  maxRetries?: number;
+  /** First backoff delay; doubles on each retry (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default 30000) */
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<EmbeddingBatchOptions> = {
+  maxBatchTokens: 100000,
+  maxBatchSize: 512,
+  maxConcurrency: 4,
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+// Errors without an HTTP status that are worth retrying
+const RETRYABLE_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError'];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE'];
+
+/**
+ * Split item positions into batches that stay within both the token budget
+ * and the size limit, preserving input order. An item larger than the budget
+ * gets a batch of its own.
+ */
+export function planBatches(
+  tokenCounts: number[],
+  options: Pick<Required<EmbeddingBatchOptions>, 'maxBatchTokens' | 'maxBatchSize'>
+): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  tokenCounts.forEach((tokens, index) => {
+    const full = current.length >= options.maxBatchSize || currentTokens + tokens > options.maxBatchTokens;
+    if (current.length > 0 && full) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(index);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Rate limits (429), server errors (5xx) and network failures are transient
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { status, name, code } = (error ?? {}) as { status?: number; name?: string; code?: string };
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+  return RETRYABLE_ERROR_NAMES.includes(name ?? '') || RETRYABLE_ERROR_CODES.includes(code ?? '');
+}
+
+/**
+ * Call fn, retrying transient failures with exponential backoff and full
+ * jitter. A Retry-After header on the error sets the minimum wait.
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: Pick<Required<EmbeddingBatchOptions>, 'maxRetries' | 'baseDelayMs' | 'maxDelayMs'>,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const delayMs = Math.min(options.maxDelayMs, Math.max(Math.random() * ceiling, retryAfterMs(error)));
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Runs at most `limit` tasks at a time, starting queued tasks in FIFO order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private limit: number) {
+    if (limit < 1) {
+      throw new Error(`Concurrency limit must be at least 1, got ${limit}`);
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // A finishing task hands its slot over directly
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds), or 0
+ */
+function retryAfterMs(error: unknown): number {
+  const headers = (error as { headers?: Record<string, string | null | undefined> })?.headers;
+  const value = Number(headers?.['retry-after']);
+  return Number.isFinite(value) && value > 0 ? value * 1000 : 0;
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EmbeddingCache } from './cache.js';
+
+describe('EmbeddingCache', () => {
+  let tempDir: string;
+  let cache: EmbeddingCache;
+
+  const result = (value: number) => ({ embedding: [value, value / 2, 0.25], tokens: 3 });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+    cache = new EmbeddingCache({ path: path.join(tempDir, 'cache.sqlite'), maxEntries: 2 });
+    await cache.initialize();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await cache.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return stored embeddings in input order and count hits and misses', async () => {
+    await cache.setMany('model-a', 3, ['first', 'second'], [result(1), result(2)]);
+
+    const found = await cache.getMany('model-a', 3, ['second', 'unknown', 'first']);
+
+    expect(found).toEqual([result(2), null, result(1)]);
+    expect(cache.getStats()).toEqual({ hits: 2, misses: 1, writes: 2, evictions: 0 });
+  });
+
+  it('should key entries by model and dimensions as well as text', async () => {
+    await cache.setMany('model-a', 3, ['text'], [result(1)]);
+
+    expect(await cache.getMany('model-b', 3, ['text'])).toEqual([null]);
+    expect(await cache.getMany('model-a', 1536, ['text'])).toEqual([null]);
+    expect(EmbeddingCache.key('model-a', 3, 'text')).not.toBe(EmbeddingCache.key('model-a', 3, 'text '));
+  });
+
+  it('should evict the least recently used entries', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1000);
+    await cache.setMany('model-a', 3, ['old', 'touched'], [result(1), result(2)]);
+    vi.setSystemTime(2000);
+    await cache.getMany('model-a', 3, ['touched']);
+    vi.setSystemTime(3000);
+
+    await cache.setMany('model-a', 3, ['new'], [result(3)]);
+
+    expect(await cache.getEntryCount()).toBe(2);
+    expect(await cache.getMany('model-a', 3, ['old', 'touched', 'new'])).toEqual([null, result(2), result(3)]);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should keep concurrent writes apart', async () => {
+    const broken = { embedding: undefined as unknown as number[], tokens: 1 };
+
+    const [first, second, third] = await Promise.allSettled([
+      cache.setMany('model-a', 3, ['first'], [result(1)]),
+      cache.setMany('model-a', 3, ['broken'], [broken]),
+      cache.setMany('model-a', 3, ['third'], [result(3)])
+    ]);
+
+    expect([first.status, second.status, third.status]).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    // The failed batch rolls back alone
+    expect(await cache.getMany('model-a', 3, ['first', 'broken', 'third'])).toEqual([result(1), null, result(3)]);
+  });
+
+  it('should persist entries across reopening', async () => {
+    await cache.setMany('model-a', 3, ['kept'], [result(1)]);
+    await cache.close();
+
+    cache = new EmbeddingCache({ path: path.join(tempDir, 'cache.sqlite') });
+    await cache.initialize();
+
+    expect(await cache.getMany('model-a', 3, ['kept'])).toEqual([result(1)]);
+  });
+});
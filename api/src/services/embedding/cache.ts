@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { Database } from 'sqlite3';
+
+import type { EmbeddingResult } from '../embedding.js';
+
+export interface EmbeddingCacheOptions {
+  /** SQLite file (default data/embeddings/embedding-cache.sqlite) */
+  path?: string;
+  /** Least recently used entries beyond this count are evicted (default 100000) */
+  maxEntries?: number;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  evictions: number;
+}
+
+interface CacheRow {
+  key: string;
+  embedding: Buffer;
+  tokens: number;
+}
+
+// SQLite limits bound parameters per statement
+const LOOKUP_CHUNK = 500;
+
+/**
+ * Content-addressed embedding cache in SQLite, keyed by
+ * sha256(model, dimensions, text). Entries are evicted least recently used
+ * first once the cache holds more than maxEntries.
+ */
+export class EmbeddingCache {
+  private db: Database | null = null;
+  private options: Required<EmbeddingCacheOptions>;
+  private stats: EmbeddingCacheStats = { hits: 0, misses: 0, writes: 0, evictions: 0 };
+  // Last queued setMany; statements share one connection, so transactions must not overlap
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.options = {
+      path: options.path || path.join(process.cwd(), 'data', 'embeddings', 'embedding-cache.sqlite'),
+      maxEntries: options.maxEntries ?? 100000
+    };
+  }
+
+  async initialize(): Promise<void> {
+    const sqliteModule = await import('sqlite3');
+    const sqlite = sqliteModule.default;
+
+    if (this.options.path !== ':memory:') {
+      await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+    }
+
+    this.db = await new Promise<Database>((resolve, reject) => {
+      const db = new sqlite.Database(this.options.path, (error: Error | null) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    // Seeding and the API may share the file
+    await this.run('PRAGMA busy_timeout = 5000');
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        key TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        tokens INTEGER NOT NULL,
+        last_used INTEGER NOT NULL
+      )
+    `);
+    await this.run('CREATE INDEX IF NOT EXISTS embeddings_last_used ON embeddings (last_used)');
+  }
+
+  /**
+   * Cache key for a text embedded by a given model at given dimensions
+   */
+  static key(model: string, dimensions: number, text: string): string {
+    return createHash('sha256').update(`${model}\u0000${dimensions}\u0000${text}`).digest('hex');
+  }
+
+  /**
+   * Look up texts, returning results in input order with null for misses
+   */
+  async getMany(model: string, dimensions: number, texts: string[]): Promise<Array<EmbeddingResult | null>> {
+    this.requireDb();
+    const keys = texts.map(text => EmbeddingCache.key(model, dimensions, text));
+    const found = new Map<string, EmbeddingResult>();
+
+    const uniqueKeys = Array.from(new Set(keys));
+    for (let i = 0; i < uniqueKeys.length; i += LOOKUP_CHUNK) {
+      const chunk = uniqueKeys.slice(i, i + LOOKUP_CHUNK);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const rows = await this.all<CacheRow>(
+        `SELECT key, embedding, tokens FROM embeddings WHERE key IN (${placeholders})`,
+        chunk
+      );
+      for (const row of rows) {
+        found.set(row.key, { embedding: this.decodeEmbedding(row.embedding), tokens: row.tokens });
+      }
+      if (rows.length > 0) {
+        await this.run(
+          `UPDATE embeddings SET last_used = ? WHERE key IN (${rows.map(() => '?').join(', ')})`,
+          [Date.now(), ...rows.map(row => row.key)]
+        );
+      }
+    }
+
+    const results = keys.map(key => found.get(key) || null);
+    const hits = results.filter(result => result !== null).length;
+    this.stats.hits += hits;
+    this.stats.misses += results.length - hits;
+    return results;
+  }
+
+  /**
+   * Store freshly generated embeddings, then evict beyond maxEntries.
+   * Concurrent calls are queued and each batch commits or rolls back on its own.
+   */
+  async setMany(model: string, dimensions: number, texts: string[], results: EmbeddingResult[]): Promise<void> {
+    this.requireDb();
+    const write = this.writes.then(() => this.write(model, dimensions, texts, results));
+    // A failed batch must not block the ones queued behind it
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * Drop least recently used entries until at most maxEntries remain
+   */
+  async evict(maxEntries = this.options.maxEntries): Promise<number> {
+    this.requireDb();
+    const { count } = (await this.get<{ count: number }>('SELECT COUNT(*) AS count FROM embeddings'))!;
+    if (count <= maxEntries) {
+      return 0;
+    }
+
+    const evicted = await this.run(
+      'DELETE FROM embeddings WHERE key IN (SELECT key FROM embeddings ORDER BY last_used ASC LIMIT ?)',
+      [count - maxEntries]
+    );
+    this.stats.evictions += evicted;
+    return evicted;
+  }
+
+  async getEntryCount(): Promise<number> {
+    this.requireDb();
+    const { count } = (await this.get<{ count: number }>('SELECT COUNT(*) AS count FROM embeddings'))!;
+    return count;
+  }
+
+  /**
+   * Hits, misses, writes and evictions since this cache was opened
+   */
+  getStats(): EmbeddingCacheStats {
+    return { ...this.stats };
+  }
+
+  async clear(): Promise<void> {
+    this.requireDb();
+    await this.run('DELETE FROM embeddings');
+  }
+
+  async close(): Promise<void> {
+    if (!this.db) {
+      return;
+    }
+
+    // Let queued writes commit first
+    await this.writes;
+    const db = this.db;
+    await new Promise<void>((resolve, reject) => {
+      db.close((error: Error | null) => (error ? reject(error) : resolve()));
+    });
+    this.db = null;
+  }
+
+  /**
+   * Store one batch in its own transaction; only called from the setMany queue
+   */
+  private async write(model: string, dimensions: number, texts: string[], results: EmbeddingResult[]): Promise<void> {
+    const now = Date.now();
+
+    await this.run('BEGIN TRANSACTION');
+    try {
+      for (let i = 0; i < texts.length; i++) {
+        await this.run(
+          'INSERT OR REPLACE INTO embeddings (key, model, embedding, tokens, last_used) VALUES (?, ?, ?, ?, ?)',
+          [EmbeddingCache.key(model, dimensions, texts[i]), model, this.encodeEmbedding(results[i].embedding), results[i].tokens, now]
+        );
+      }
+      await this.run('COMMIT');
+    } catch (error) {
+      await this.run('ROLLBACK');
+      throw error;
+    }
+
+    this.stats.writes += texts.length;
+    await this.evict();
+  }
+
+  private requireDb(): void {
+    if (!this.db) {
+      throw new Error('Embedding cache not initialized');
+    }
+  }
+
+  /**
+   * Run a statement, resolving with the number of rows it changed
+   */
+  private run(sql: string, params: unknown[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db!.run(sql, params, function (this: { changes: number }, error: Error | null) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.db!.get<T | undefined>(sql, params, (error, row) => (error ? reject(error) : resolve(row)));
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db!.all<T>(sql, params, (error, rows) => (error ? reject(error) : resolve(rows)));
+    });
+  }
+
+  /**
+   * Store embeddings as little-endian float32 blobs
+   */
+  private encodeEmbedding(embedding: number[]): Buffer {
+    const floats = Float32Array.from(embedding);
+    return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+  }
+
+  private decodeEmbedding(blob: Buffer): number[] {
+    // Copy first: Buffers handed back by sqlite3 are not guaranteed to be 4-byte aligned
+    return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+  }
+}
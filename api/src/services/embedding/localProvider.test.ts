@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { LOCAL_EMBEDDING_MODEL, LocalEmbeddingProvider } from './localProvider.js';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, val, i) => sum + val * b[i], 0);
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider({ dimensions: 256 });
+
+  it('should produce deterministic unit-length embeddings', async () => {
+    const [first] = await provider.embedBatch(['Hotel rooms with a sea view']);
+    const [second] = await new LocalEmbeddingProvider({ dimensions: 256 }).embedBatch(['Hotel rooms with a sea view']);
+
+    expect(first.embedding).toHaveLength(256);
+    expect(first.embedding).toEqual(second.embedding);
+    expect(cosine(first.embedding, first.embedding)).toBeCloseTo(1, 6);
+    expect(first.tokens).toBe(4);
+  });
+
+  it('should place texts with shared vocabulary closer together', async () => {
+    const [query, related, unrelated] = await provider.embedBatch([
+      'cheap hotels near the beach',
+      'A cheap hotel close to the beach front',
+      'TypeScript generics and conditional types'
+    ]);
+
+    expect(cosine(query.embedding, related.embedding)).toBeGreaterThan(0.3);
+    expect(cosine(query.embedding, related.embedding)).toBeGreaterThan(
+      cosine(query.embedding, unrelated.embedding) + 0.2
+    );
+  });
+
+  it('should return a zero vector when no terms remain', async () => {
+    const [result] = await provider.embedBatch(['the and of']);
+
+    expect(result.embedding.every(val => val === 0)).toBe(true);
+    expect(result.tokens).toBe(0);
+  });
+
+  it('should report its model and dimensions', () => {
+    expect(provider.getModel()).toBe(LOCAL_EMBEDDING_MODEL);
+    expect(provider.getDimensions()).toBe(256);
+  });
+});
@@ -0,0 +1,86 @@
+import type { EmbeddingProvider, EmbeddingResult } from '../embedding.js';
+import { tokenize } from '../bm25.js';
+
+export interface LocalProviderConfig {
+  dimensions?: number;
+}
+
+// Bump when the features or hashing change; indexes built with another version are incompatible
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-ngram-v1';
+
+// Relative weight of each feature family, keyed by feature prefix
+const FAMILY_WEIGHTS: Record<string, number> = { w: 1, b: 0.5, c: 0.25 };
+
+/**
+ * Deterministic offline embedder: word unigrams, word bigrams and character
+ * trigrams are hashed into a fixed number of signed buckets (the hashing
+ * trick), weighted by sublinear term frequency and L2-normalized.
+ *
+ * Texts sharing vocabulary get a high cosine similarity, which is enough for
+ * seeding, the API and evaluations to run with no network. It carries no
+ * semantics beyond surface overlap.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  private dimensions: number;
+
+  constructor(config: LocalProviderConfig = {}) {
+    this.dimensions = config.dimensions || 1536;
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  getModel(): string {
+    return LOCAL_EMBEDDING_MODEL;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  private embedText(text: string): EmbeddingResult {
+    const words = tokenize(text);
+    const counts = new Map<string, number>();
+    const count = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    words.forEach((word, i) => {
+      count(`w:${word}`);
+      if (i > 0) {
+        count(`b:${words[i - 1]} ${word}`);
+      }
+      // Trigrams let inflections of a word (hotel, hotels) overlap
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        count(`c:${padded.slice(j, j + 3)}`);
+      }
+    });
+
+    const embedding = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, occurrences] of counts) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      embedding[hash % this.dimensions] += sign * FAMILY_WEIGHTS[feature[0]] * (1 + Math.log(occurrences));
+    }
+
+    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    return {
+      embedding: magnitude > 0 ? embedding.map(val => val / magnitude) : embedding,
+      tokens: words.length
+    };
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,173 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { EmbeddingConfig, EmbeddingService } from '../embedding.js';
+
+// The shared test setup mocks the OpenAI client and EmbeddingService; this suite
+// talks to a local fake of the embeddings endpoint through the real ones
+vi.unmock('openai');
+vi.unmock('../embedding.js');
+
+interface FakeRequest {
+  input: string[];
+  encoding_format?: string;
+}
+
+/**
+ * Embeddings endpoint that answers each request with whatever the test's
+ * responder returns: a status to fail with, or nothing to succeed
+ */
+class FakeEmbeddingsServer {
+  requests: string[][] = [];
+  inFlight = 0;
+  peakInFlight = 0;
+  responder: (input: string[], attempt: number) => number | undefined = () => undefined;
+  delayMs = 0;
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const request: FakeRequest = JSON.parse(body);
+    const attempt = this.requests.filter(input => input.join() === request.input.join()).length;
+    this.requests.push(request.input);
+
+    this.inFlight++;
+    this.peakInFlight = Math.max(this.peakInFlight, this.inFlight);
+    await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    this.inFlight--;
+
+    const status = this.responder(request.input, attempt);
+    res.setHeader('content-type', 'application/json');
+    if (status) {
+      res.statusCode = status;
+      res.end(JSON.stringify({ error: { message: `fake error ${status}`, type: 'fake' } }));
+      return;
+    }
+
+    // Answer in reverse order: clients must place items by their index
+    const data = request.input
+      .map((text, index) => {
+        const vector = [text.length, index, 1];
+        const embedding = request.encoding_format === 'base64'
+          ? Buffer.from(Float32Array.from(vector).buffer).toString('base64')
+          : vector;
+        return { object: 'embedding', index, embedding };
+      })
+      .reverse();
+    res.end(JSON.stringify({
+      object: 'list',
+      data,
+      model: 'fake-embedding',
+      usage: { prompt_tokens: request.input.length * 10, total_tokens: request.input.length * 10 }
+    }));
+  }
+}
+
+describe('EmbeddingService with the OpenAI provider', () => {
+  let server: FakeEmbeddingsServer;
+  let baseURL: string;
+
+  const createService = (batching: EmbeddingConfig['batching'] = {}) => new EmbeddingService({
+    provider: 'openai',
+    apiKey: 'test-key',
+    baseURL,
+    dimensions: 3,
+    cache: false,
+    batching: { maxBatchSize: 2, baseDelayMs: 1, maxDelayMs: 5, ...batching }
+  });
+
+  beforeEach(async () => {
+    server = new FakeEmbeddingsServer();
+    baseURL = await server.start();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await server.stop();
+  });
+
+  it('should keep results aligned with inputs across batches', async () => {
+    const results = await createService().embedBatch(['alpha', '', 'be', 'gamma!', 'x']);
+
+    expect(server.requests).toEqual([['alpha', 'be'], ['gamma!', 'x']]);
+    expect(results).toEqual([
+      { embedding: [5, 0, 1], tokens: 14 },
+      { error: 'Text is empty' },
+      { embedding: [2, 1, 1], tokens: 6 },
+      { embedding: [6, 0, 1], tokens: 17 },
+      { embedding: [1, 1, 1], tokens: 3 }
+    ]);
+  });
+
+  it('should split requests on the token budget', async () => {
+    const long = 'word '.repeat(40);
+
+    await createService({ maxBatchSize: 10, maxBatchTokens: 60 }).embedBatch([long, long + 'a', 'short']);
+
+    expect(server.requests.map(input => input.length)).toEqual([1, 2]);
+  });
+
+  it('should retry rate limits and server errors', async () => {
+    server.responder = (_input, attempt) => [429, 503][attempt];
+
+    const results = await createService().embedBatch(['retry me']);
+
+    expect(server.requests).toHaveLength(3);
+    expect(results[0]).toEqual({ embedding: [8, 0, 1], tokens: 10 });
+  });
+
+  it('should fail only the items of a batch that keeps failing', async () => {
+    server.responder = input => (input.includes('rejected') ? 400 : undefined);
+
+    const results = await createService().embedBatch(['fine', 'rejected', 'also fine', 'ok']);
+
+    expect(server.requests).toHaveLength(2);
+    expect(results[0]).toEqual({ error: expect.stringContaining('400') });
+    expect(results[1]).toEqual({ error: expect.stringContaining('400') });
+    expect(results[2]).toMatchObject({ embedding: [9, 0, 1] });
+    expect(results[3]).toMatchObject({ embedding: [2, 1, 1] });
+  });
+
+  it('should give up after the configured retries', async () => {
+    server.responder = () => 500;
+
+    const results = await createService({ maxRetries: 2 }).embedBatch(['never']);
+
+    expect(server.requests).toHaveLength(3);
+    expect(results).toEqual([{ error: expect.stringContaining('500') }]);
+  });
+
+  it('should limit the requests in flight', async () => {
+    server.delayMs = 20;
+    const texts = Array.from({ length: 12 }, (_, i) => `text ${i}`);
+
+    const results = await createService({ maxConcurrency: 2 }).embedBatch(texts);
+
+    expect(server.requests).toHaveLength(6);
+    expect(server.peakInFlight).toBe(2);
+    expect(results.every(result => 'embedding' in result)).toBe(true);
+  });
+
+  it('should throw from embed() when the text cannot be embedded', async () => {
+    server.responder = () => 401;
+
+    await expect(createService().embed('secret')).rejects.toThrow('Failed to generate embedding: 401');
+  });
+});
@@ -0,0 +1,71 @@
+import OpenAI from 'openai';
+
+import type { EmbeddingProvider, EmbeddingResult } from '../embedding.js';
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  /** API root, e.g. a proxy or a local server (default OPENAI_BASE_URL, then the OpenAI API) */
+  baseURL?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+/**
+ * Embeddings from the OpenAI API (text-embedding-3-small by default)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+  private model: string;
+  private dimensions: number;
+
+  constructor(config: OpenAIProviderConfig = {}) {
+    const apiKey = config.apiKey || process.env.OPENAI_API_KEY || '';
+    if (!apiKey) {
+      throw new Error(
+        'OpenAI API key is required. Set OPENAI_API_KEY environment variable or pass apiKey in config, ' +
+        'or set EMBEDDING_PROVIDER=local to embed offline.'
+      );
+    }
+
+    this.model = config.model || 'text-embedding-3-small';
+    this.dimensions = config.dimensions || 1536;
+    // EmbeddingService retries with its own backoff and concurrency limit
+    this.openai = new OpenAI({ apiKey, baseURL: config.baseURL, maxRetries: 0 });
+  }
+
+  async embedBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions
+    });
+
+    if (response.data.length !== texts.length) {
+      throw new Error(`OpenAI returned ${response.data.length} embeddings for ${texts.length} texts`);
+    }
+
+    // The API reports usage for the whole request; share it out by text length
+    const totalTokens = response.usage?.total_tokens || 0;
+    const totalLength = texts.reduce((sum, text) => sum + text.length, 0) || 1;
+
+    // Items carry their input position; do not rely on response order
+    const embeddings = new Array<number[]>(texts.length);
+    for (const item of response.data) {
+      embeddings[item.index] = item.embedding;
+    }
+
+    return texts.map((text, i) => ({
+      embedding: embeddings[i],
+      tokens: Math.round(totalTokens * text.length / totalLength)
+    }));
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+}
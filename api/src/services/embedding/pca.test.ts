@@ -0,0 +1,105 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { PcaReducer } from './pca.js';
+
+// Spread mostly along (1, 1, 0, 0), a little along (0, 0, 1, 0) and not at all along the last axis
+function fixture(count: number): number[][] {
+  return Array.from({ length: count }, (_, i) => {
+    const major = (i - (count - 1) / 2) * 2;
+    const minor = i % 2 === 0 ? 0.5 : -0.5;
+    return [major + 1, major - 1, minor, 3];
+  });
+}
+
+const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+describe('PcaReducer', () => {
+  it.each([
+    ['fewer embeddings than dimensions', 3],
+    ['more embeddings than dimensions', 12]
+  ])('should find the dominant direction with %s', (_, count) => {
+    const reducer = PcaReducer.fit(fixture(count), 1);
+    const [high] = reducer.transform([11, 9, 0, 3]);
+    const [low] = reducer.transform([-9, -11, 0, 3]);
+
+    expect(reducer.inputDimensions).toBe(4);
+    expect(reducer.outputDimensions).toBe(1);
+    // One component normalizes to ±1, with opposite sides of the mean opposite in sign
+    expect(Math.abs(high)).toBeCloseTo(1);
+    expect(high).toBeCloseTo(-low);
+    expect(reducer.getRetainedVariance()).toBeGreaterThan(0.95);
+  });
+
+  it('should keep all variance once every direction with spread is kept', () => {
+    const reducer = PcaReducer.fit(fixture(12), 2);
+    const reduced = reducer.transform([2, 1, 0.3, 3]);
+
+    expect(reducer.getRetainedVariance()).toBeCloseTo(1);
+    expect(reduced).toHaveLength(2);
+    expect(norm(reduced)).toBeCloseTo(1);
+  });
+
+  it('should pad with zero-variance directions beyond what the sample spans', () => {
+    // Three embeddings span two directions around their mean
+    const reducer = PcaReducer.fit(fixture(3), 4);
+
+    expect(reducer.outputDimensions).toBe(4);
+    expect(reducer.getRetainedVariance()).toBeCloseTo(1);
+    expect(norm(reducer.transform([1, 2, 3, 4]))).toBeCloseTo(1);
+  });
+
+  it('should fit the same reducer for the same seed', () => {
+    const vectors = fixture(8);
+
+    expect(PcaReducer.fit(vectors, 3).transform([1, 2, 3, 4])).toEqual(PcaReducer.fit(vectors, 3).transform([1, 2, 3, 4]));
+  });
+
+  it('should reject samples it cannot fit', () => {
+    expect(() => PcaReducer.fit([[1, 2]], 1)).toThrow('at least 2 embeddings');
+    expect(() => PcaReducer.fit([[1, 2], [3]], 1)).toThrow('equal dimensions');
+    expect(() => PcaReducer.fit(fixture(4), 5)).toThrow('Cannot reduce 4 dimensions to 5');
+    expect(() => PcaReducer.fit(fixture(4), 2).transform([1, 2])).toThrow('expects 4 dimensions, got 2');
+  });
+
+  describe('persistence', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pca-reducer-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should load the reducer it saved', async () => {
+      const filePath = path.join(tempDir, 'pca.bin');
+      const reducer = PcaReducer.fit(fixture(12), 2);
+      await reducer.save(filePath);
+
+      const loaded = await PcaReducer.load(filePath);
+      const expected = reducer.transform([2, 1, 0.3, 3]);
+
+      expect(loaded.inputDimensions).toBe(4);
+      expect(loaded.outputDimensions).toBe(2);
+      expect(loaded.getRetainedVariance()).toBeCloseTo(reducer.getRetainedVariance());
+      loaded.transform([2, 1, 0.3, 3]).forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+    });
+
+    it('should reject files that are not complete reducers', async () => {
+      const filePath = path.join(tempDir, 'pca.bin');
+      await PcaReducer.fit(fixture(12), 2).save(filePath);
+      const saved = await fs.readFile(filePath);
+
+      await fs.writeFile(filePath, saved.subarray(0, saved.length - 4));
+      await expect(PcaReducer.load(filePath)).rejects.toThrow('is truncated');
+
+      await fs.writeFile(filePath, 'not a reducer at all, just some text');
+      await expect(PcaReducer.load(filePath)).rejects.toThrow('is not a PCA reducer');
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import * as fs from 'fs/promises';
+
+import type { EmbeddingReducer } from '../embedding.js';
+
+// File signature and layout version
+const MAGIC = 'VPCA';
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 24;
+
+// Below this norm a basis vector has collapsed into the ones before it
+const DEGENERATE_NORM = 1e-10;
+
+export interface PcaFitOptions {
+  /** Rounds of orthogonal iteration (default 12) */
+  iterations?: number;
+  /** Seed for the starting basis, so refitting the same corpus gives the same reducer (default 42) */
+  seed?: number;
+}
+
+/**
+ * Projects embeddings onto the top principal components of the corpus they
+ * were fitted on, then L2-normalizes them. Components are found by orthogonal
+ * (subspace) iteration on whichever is smaller of the covariance matrix and
+ * the Gram matrix of the centered embeddings; a corpus with fewer chunks than
+ * dimensions only needs the chunk-by-chunk Gram matrix.
+ */
+export class PcaReducer implements EmbeddingReducer {
+  constructor(
+    private mean: Float64Array,
+    /** outputDimensions rows of inputDimensions values, by decreasing variance */
+    private components: Float64Array[],
+    private variances: number[],
+    private totalVariance: number
+  ) {}
+
+  get inputDimensions(): number {
+    return this.mean.length;
+  }
+
+  get outputDimensions(): number {
+    return this.components.length;
+  }
+
+  /**
+   * Fit a reducer to `dimensions` components on a sample of embeddings
+   */
+  static fit(vectors: number[][], dimensions: number, options: PcaFitOptions = {}): PcaReducer {
+    if (vectors.length < 2) {
+      throw new Error('PCA needs at least 2 embeddings to fit');
+    }
+    const inputDimensions = vectors[0].length;
+    if (vectors.some(vector => vector.length !== inputDimensions)) {
+      throw new Error('PCA needs embeddings of equal dimensions');
+    }
+    if (dimensions < 1 || dimensions > inputDimensions) {
+      throw new Error(`Cannot reduce ${inputDimensions} dimensions to ${dimensions}`);
+    }
+
+    const count = vectors.length;
+    const mean = new Float64Array(inputDimensions);
+    for (const vector of vectors) {
+      for (let i = 0; i < inputDimensions; i++) {
+        mean[i] += vector[i] / count;
+      }
+    }
+
+    const centered = vectors.map(vector => Float64Array.from(vector, (value, i) => value - mean[i]));
+    const totalVariance = centered.reduce((sum, row) => sum + dot(row, row), 0) / count;
+
+    // Centered data spans at most count - 1 directions; the rest carry no variance
+    const useGram = count <= inputDimensions;
+    const matrix = useGram ? gramMatrix(centered) : covarianceMatrix(centered);
+    const solved = Math.min(dimensions, useGram ? count - 1 : inputDimensions);
+
+    const random = createRandom(options.seed ?? 42);
+    let basis = orthonormalize(
+      Array.from({ length: solved }, () => Float64Array.from({ length: matrix.length }, () => random() - 0.5)),
+      [],
+      random
+    );
+    for (let round = 0; round < (options.iterations ?? 12); round++) {
+      basis = orthonormalize(basis.map(vector => multiply(matrix, vector)), [], random);
+    }
+
+    // Rayleigh quotients are the eigenvalues: variance times count
+    const ranked = basis
+      .map(vector => ({ vector, eigenvalue: dot(vector, multiply(matrix, vector)) }))
+      .sort((a, b) => b.eigenvalue - a.eigenvalue);
+
+    // Gram eigenvectors weight the embeddings; Xᵀv points along the principal component
+    const components = orthonormalize(
+      ranked.map(({ vector }) => (useGram ? transposeMultiply(centered, vector) : vector)),
+      [],
+      random
+    );
+    const padding = orthonormalize(
+      Array.from({ length: dimensions - solved }, () => Float64Array.from({ length: inputDimensions }, () => random() - 0.5)),
+      components,
+      random
+    );
+
+    return new PcaReducer(
+      mean,
+      [...components, ...padding],
+      [...ranked.map(({ eigenvalue }) => Math.max(0, eigenvalue) / count), ...padding.map(() => 0)],
+      totalVariance
+    );
+  }
+
+  transform(embedding: number[]): number[] {
+    if (embedding.length !== this.inputDimensions) {
+      throw new Error(`PCA reducer expects ${this.inputDimensions} dimensions, got ${embedding.length}`);
+    }
+
+    const centered = Float64Array.from(embedding, (value, i) => value - this.mean[i]);
+    const reduced = this.components.map(component => dot(centered, component));
+    const magnitude = Math.sqrt(reduced.reduce((sum, value) => sum + value * value, 0));
+    return magnitude > 0 ? reduced.map(value => value / magnitude) : reduced;
+  }
+
+  /**
+   * Share of the fitted corpus's variance the kept components explain
+   */
+  getRetainedVariance(): number {
+    const retained = this.variances.reduce((sum, variance) => sum + variance, 0);
+    return this.totalVariance > 0 ? Math.min(1, retained / this.totalVariance) : 1;
+  }
+
+  /**
+   * Layout (little endian): `VPCA`, uint32 version, uint32 input dimensions,
+   * uint32 output dimensions, float64 total variance, then float32 mean,
+   * float32 per-component variances and float32 components row by row.
+   */
+  async save(filePath: string): Promise<void> {
+    const values = this.inputDimensions + this.outputDimensions * (1 + this.inputDimensions);
+    const buffer = Buffer.alloc(HEADER_BYTES + values * 4);
+    buffer.write(MAGIC, 0, 'ascii');
+    buffer.writeUInt32LE(FORMAT_VERSION, 4);
+    buffer.writeUInt32LE(this.inputDimensions, 8);
+    buffer.writeUInt32LE(this.outputDimensions, 12);
+    buffer.writeDoubleLE(this.totalVariance, 16);
+
+    let offset = HEADER_BYTES;
+    for (const value of [this.mean, this.variances, ...this.components]) {
+      for (const entry of value) {
+        offset = buffer.writeFloatLE(entry, offset);
+      }
+    }
+
+    await fs.writeFile(filePath, buffer);
+  }
+
+  /**
+   * Read a reducer written by save()
+   */
+  static async load(filePath: string): Promise<PcaReducer> {
+    const buffer = await fs.readFile(filePath);
+
+    if (buffer.length < HEADER_BYTES || buffer.toString('ascii', 0, 4) !== MAGIC) {
+      throw new Error(`${filePath} is not a PCA reducer`);
+    }
+    const version = buffer.readUInt32LE(4);
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`${filePath} has unsupported PCA reducer version ${version}`);
+    }
+
+    const inputDimensions = buffer.readUInt32LE(8);
+    const outputDimensions = buffer.readUInt32LE(12);
+    const expectedBytes = HEADER_BYTES + (inputDimensions + outputDimensions * (1 + inputDimensions)) * 4;
+    if (buffer.length !== expectedBytes) {
+      throw new Error(`${filePath} is truncated: expected ${expectedBytes} bytes, got ${buffer.length}`);
+    }
+
+    let offset = HEADER_BYTES;
+    const readFloats = (length: number) => {
+      const values = new Float64Array(length);
+      for (let i = 0; i < length; i++, offset += 4) {
+        values[i] = buffer.readFloatLE(offset);
+      }
+      return values;
+    };
+
+    const mean = readFloats(inputDimensions);
+    const variances = Array.from(readFloats(outputDimensions));
+    const components = Array.from({ length: outputDimensions }, () => readFloats(inputDimensions));
+    return new PcaReducer(mean, components, variances, buffer.readDoubleLE(16));
+  }
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Rows · rows for each pair of rows (symmetric, so computed once per pair)
+ */
+function gramMatrix(rows: Float64Array[]): Float64Array[] {
+  const matrix = rows.map(() => new Float64Array(rows.length));
+  for (let i = 0; i < rows.length; i++) {
+    for (let j = i; j < rows.length; j++) {
+      matrix[i][j] = matrix[j][i] = dot(rows[i], rows[j]);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Xᵀ·X over the rows, accumulated row by row
+ */
+function covarianceMatrix(rows: Float64Array[]): Float64Array[] {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, () => new Float64Array(size));
+  for (const row of rows) {
+    for (let a = 0; a < size; a++) {
+      const scaled = row[a];
+      if (scaled === 0) {
+        continue;
+      }
+      const target = matrix[a];
+      for (let b = 0; b < size; b++) {
+        target[b] += scaled * row[b];
+      }
+    }
+  }
+  return matrix;
+}
+
+function multiply(matrix: Float64Array[], vector: Float64Array): Float64Array {
+  return Float64Array.from(matrix, row => dot(row, vector));
+}
+
+/**
+ * Xᵀ·v: the rows weighted by v
+ */
+function transposeMultiply(rows: Float64Array[], weights: Float64Array): Float64Array {
+  const result = new Float64Array(rows[0].length);
+  rows.forEach((row, i) => {
+    for (let j = 0; j < row.length; j++) {
+      result[j] += weights[i] * row[j];
+    }
+  });
+  return result;
+}
+
+/**
+ * Modified Gram-Schmidt against `fixed` and each other. A vector that
+ * collapses into the ones before it is replaced by a random one, so the
+ * result always has one vector per input.
+ */
+function orthonormalize(vectors: Float64Array[], fixed: Float64Array[], random: () => number): Float64Array[] {
+  const basis: Float64Array[] = [];
+
+  for (const vector of vectors) {
+    let candidate = vector;
+    for (;;) {
+      for (const previous of [...fixed, ...basis]) {
+        const projection = dot(candidate, previous);
+        for (let i = 0; i < candidate.length; i++) {
+          candidate[i] -= projection * previous[i];
+        }
+      }
+
+      const norm = Math.sqrt(dot(candidate, candidate));
+      if (norm > DEGENERATE_NORM) {
+        basis.push(candidate.map(value => value / norm));
+        break;
+      }
+      candidate = Float64Array.from({ length: vector.length }, () => random() - 0.5);
+    }
+  }
+
+  return basis;
+}
+
+/**
+ * Mulberry32 PRNG
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
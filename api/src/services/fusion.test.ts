@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { fuseRankings, reciprocalRankFusion, weightedFusion } from './fusion.js';
+
+describe('rank fusion', () => {
+  const dense = [
+    { id: 'a', score: 0.9 },
+    { id: 'b', score: 0.8 },
+    { id: 'c', score: 0.7 }
+  ];
+  const lexical = [
+    { id: 'c', score: 12 },
+    { id: 'a', score: 6 },
+    { id: 'd', score: 3 }
+  ];
+
+  it('should reward candidates that appear in both lists with RRF', () => {
+    const fused = reciprocalRankFusion([dense, lexical]);
+
+    expect(fused.map(c => c.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+
+  it('should combine normalized scores with weights', () => {
+    const fused = weightedFusion([dense, lexical], [0.3, 0.7]);
+
+    // c: 0.3·0 + 0.7·1, a: 0.3·1 + 0.7·(3/9), b: 0.3·0.5, d: 0.7·0
+    expect(fused.map(c => c.id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(fused[0].score).toBeCloseTo(0.7);
+  });
+
+  it('should dispatch on the fusion method', () => {
+    expect(fuseRankings([dense, lexical], { method: 'rrf' })).toEqual(reciprocalRankFusion([dense, lexical]));
+    expect(fuseRankings([dense, lexical], { method: 'weighted' })).toEqual(weightedFusion([dense, lexical]));
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Rank Fusion
+ * Combines ranked candidate lists from different retrievers into one ranking
+ */
+
+export type FusionMethod = 'rrf' | 'weighted';
+
+export interface RankedCandidate {
+  id: string;
+  score: number;
+}
+
+export interface FusionOptions {
+  method: FusionMethod;
+  /** Per-list weights for weighted fusion (default: equal weights) */
+  weights?: number[];
+  /** RRF rank constant (default 60) */
+  rrfK?: number;
+}
+
+/**
+ * Reciprocal rank fusion: Σ 1 / (rrfK + rank), ignoring raw scores
+ */
+export function reciprocalRankFusion(lists: RankedCandidate[][], rrfK: number = 60): RankedCandidate[] {
+  const fused = new Map<string, number>();
+
+  for (const list of lists) {
+    list.forEach((candidate, rank) => {
+      fused.set(candidate.id, (fused.get(candidate.id) || 0) + 1 / (rrfK + rank + 1));
+    });
+  }
+
+  return sortByScore(fused);
+}
+
+/**
+ * Weighted fusion of min-max normalized scores
+ * Candidates missing from a list contribute 0 for that list
+ */
+export function weightedFusion(lists: RankedCandidate[][], weights?: number[]): RankedCandidate[] {
+  const fused = new Map<string, number>();
+
+  lists.forEach((list, listIndex) => {
+    const weight = weights?.[listIndex] ?? 1 / lists.length;
+    const scores = list.map(candidate => candidate.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+
+    for (const candidate of list) {
+      const normalized = range > 0 ? (candidate.score - min) / range : 1;
+      fused.set(candidate.id, (fused.get(candidate.id) || 0) + weight * normalized);
+    }
+  });
+
+  return sortByScore(fused);
+}
+
+/**
+ * Fuse ranked lists with the configured method
+ */
+export function fuseRankings(lists: RankedCandidate[][], options: FusionOptions): RankedCandidate[] {
+  return options.method === 'weighted'
+    ? weightedFusion(lists, options.weights)
+    : reciprocalRankFusion(lists, options.rrfK);
+}
+
+function sortByScore(scores: Map<string, number>): RankedCandidate[] {
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -1,4 +1,5 @@
 import { RankingResult } from '../types/core.js';
+import type { TrackedConcept } from './nullness/concepts.js';
 
 export interface NullnessHistory {
   concept: string;
@@ -212,6 +213,14 @@ export class NullnessService {
     return history.length > 0 ? history[history.length - 1].nullness : 0.5;
   }
 
+  /**
+   * Every tracked concept with its current nullness, for scoring the chunks that support it
+   */
+  async getTrackedConcepts(): Promise<TrackedConcept[]> {
+    const concepts = await this.getAllConceptsWithMetadata();
+    return concepts.map(({ concept, currentNullness }) => ({ concept, nullness: currentNullness }));
+  }
+
   /**
    * Get nullness statistics for reporting
    */
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { estimateChunkNullness, mergeNullness } from './chunk.js';
+
+describe('estimateChunkNullness', () => {
+  it('should start long, plain chunks at the floor', () => {
+    expect(estimateChunkNullness({ content: 'The hotel pool opens at nine.', tokens: 200 })).toBeCloseTo(0.1);
+  });
+
+  it('should raise nullness for short chunks, questions and hedging', () => {
+    const content = 'Is the effect real? It might be, but the mechanism is unclear.';
+
+    // 0.1 + 0.1 short + 0.05 question + 2 × 0.03 hedges + 0.05 theoretical domain
+    expect(estimateChunkNullness({ content, tokens: 40, domain: 'null-not-null' })).toBeCloseTo(0.36);
+  });
+
+  it('should cap nullness at 0.8', () => {
+    expect(estimateChunkNullness({ content: 'Why? '.repeat(30), tokens: 60 })).toBe(0.8);
+  });
+});
+
+describe('mergeNullness', () => {
+  it('should keep chunk nullness while the concept is untracked', () => {
+    expect(mergeNullness(0.2)).toBe(0.2);
+  });
+
+  it('should move chunk nullness by the concept\'s distance from neutral', () => {
+    expect(mergeNullness(0.2, 0.5)).toBeCloseTo(0.2);
+    expect(mergeNullness(0.2, 0.9)).toBeCloseTo(0.4);
+    expect(mergeNullness(0.2, 0.3, 0.25)).toBeCloseTo(0.15);
+    expect(mergeNullness(0.2, 0, 1)).toBe(0);
+  });
+});
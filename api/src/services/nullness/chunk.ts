@@ -0,0 +1,56 @@
+// How far a concept's distance from neutral moves the nullness of chunks supporting it
+export const CONCEPT_NULLNESS_WEIGHT = 0.5;
+
+// Nullness of a concept nothing is known about yet
+export const NEUTRAL_NULLNESS = 0.5;
+
+// Chunks shorter than this carry less information
+const SHORT_CHUNK_TOKENS = 150;
+
+const UNCERTAINTY_WORDS = /\b(maybe|perhaps|possibly|might|could|uncertain|unclear)\b/gi;
+
+export interface ChunkNullnessInput {
+  content: string;
+  tokens: number;
+  domain?: string;
+}
+
+/**
+ * Initial nullness of a chunk from its own text, independent of any query:
+ * short chunks, question marks and hedging words raise it. Seeding stores
+ * this in each document's metadata.
+ */
+export function estimateChunkNullness(chunk: ChunkNullnessInput): number {
+  const questionMarks = (chunk.content.match(/\?/g) || []).length;
+  const uncertaintyWords = (chunk.content.match(UNCERTAINTY_WORDS) || []).length;
+
+  let nullness = 0.1;
+  if (chunk.tokens < SHORT_CHUNK_TOKENS) {
+    nullness += 0.1;
+  }
+  nullness += questionMarks * 0.05;
+  nullness += uncertaintyWords * 0.03;
+
+  // Theoretical content has inherent uncertainty
+  if (chunk.domain === 'null-not-null') {
+    nullness += 0.05;
+  }
+
+  return Math.min(nullness, 0.8);
+}
+
+/**
+ * Evidence nullness: the chunk's own nullness, moved up or down by how far
+ * the concepts it supports are from neutral. Supported concepts lower it and
+ * refuted ones raise it; a chunk supporting no tracked concept keeps its own.
+ */
+export function mergeNullness(
+  chunkNullness: number,
+  conceptNullness?: number,
+  conceptWeight: number = CONCEPT_NULLNESS_WEIGHT
+): number {
+  const merged = conceptNullness === undefined
+    ? chunkNullness
+    : chunkNullness + conceptWeight * (conceptNullness - NEUTRAL_NULLNESS);
+  return Math.max(0, Math.min(1, merged));
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { conceptTerms, supportedConceptNullness, supportedConcepts } from './concepts.js';
+
+describe('conceptTerms', () => {
+  it('should split identifiers into words without stopwords', () => {
+    expect(conceptTerms('what_is_nullness')).toEqual(['nullness']);
+    expect(conceptTerms('cost-benefit_analysis')).toEqual(['cost', 'benefit', 'analysis']);
+    expect(conceptTerms('the_the')).toEqual([]);
+  });
+});
+
+describe('supportedConcepts', () => {
+  const concepts = [
+    { concept: 'null_hypothesis', nullness: 0.7 },
+    { concept: 'cost_benefit', nullness: 0.3 },
+    { concept: 'hotel_pool', nullness: 0.4 },
+    { concept: 'of_the', nullness: 0.9 }
+  ];
+
+  it('should match concepts whose words all appear in the chunk', () => {
+    const content = 'A cost-benefit analysis cannot reject the null hypothesis.';
+
+    expect(supportedConcepts(content, concepts).map(({ concept }) => concept)).toEqual(['null_hypothesis', 'cost_benefit']);
+    expect(supportedConcepts('The hotel has no pool.', concepts).map(({ concept }) => concept)).toEqual(['hotel_pool']);
+    expect(supportedConcepts('Only the hotel.', concepts)).toEqual([]);
+  });
+
+  it('should average the nullness of supported concepts', () => {
+    expect(supportedConceptNullness(concepts.slice(0, 2))).toBeCloseTo(0.5);
+    expect(supportedConceptNullness([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { tokenize } from '../bm25.js';
+
+export interface TrackedConcept {
+  concept: string;
+  /** Current nullness from the concept's history */
+  nullness: number;
+}
+
+/**
+ * Words a chunk must contain to support a concept. Concepts are identifiers
+ * such as `null_hypothesis`, so underscores and hyphens separate words.
+ */
+export function conceptTerms(concept: string): string[] {
+  return [...new Set(tokenize(concept.replace(/[-_]+/g, ' ')))];
+}
+
+/**
+ * Tracked concepts whose terms all appear in the chunk
+ */
+export function supportedConcepts(content: string, concepts: TrackedConcept[]): TrackedConcept[] {
+  if (concepts.length === 0) {
+    return [];
+  }
+
+  // Hyphenated words count as themselves and as their parts
+  const words = new Set(tokenize(content).flatMap(token => [token, ...token.split(/[-_]/)]));
+  return concepts.filter(({ concept }) => {
+    const terms = conceptTerms(concept);
+    return terms.length > 0 && terms.every(term => words.has(term));
+  });
+}
+
+/**
+ * Mean nullness of the concepts a chunk supports, or undefined when it supports none
+ */
+export function supportedConceptNullness(concepts: TrackedConcept[]): number | undefined {
+  return concepts.length > 0
+    ? concepts.reduce((sum, { nullness }) => sum + nullness, 0) / concepts.length
+    : undefined;
+}
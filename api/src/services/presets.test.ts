@@ -0,0 +1,92 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_VOLAM_PARAMETERS, PresetStore, validatePreset } from './presets.js';
+
+const presets = {
+  default: { name: 'Default', alpha: 0.6, beta: 0.3, gamma: 0.1 },
+  hotel: { name: 'Hotel', alpha: 0.5, beta: 0.4, gamma: 0.1, domains: ['hotel'] },
+  climate: { name: 'Climate', alpha: 0.5, beta: 0.2, gamma: 0.3, empathyProfile: 'climate_focused' },
+  fresh: { name: 'Fresh', alpha: 0.5, beta: 0.2, gamma: 0.1, weights: { recency: 0.2 } }
+};
+
+describe('validatePreset', () => {
+  it('should accept weights summing to 1, extra components included', () => {
+    expect(() => validatePreset('fresh', presets.fresh)).not.toThrow();
+  });
+
+  it('should reject weights that do not sum to 1', () => {
+    expect(() => validatePreset('heavy', { name: 'Heavy', alpha: 0.6, beta: 0.4, gamma: 0.1 }))
+      .toThrow('Preset heavy: weights must sum to 1, got 1.1');
+    expect(() => validatePreset('light', { name: 'Light', alpha: 0.5, beta: 0.2, gamma: 0.1, weights: { recency: 0.1 } }))
+      .toThrow('got 0.9');
+  });
+
+  it('should reject weights outside [0, 1]', () => {
+    expect(() => validatePreset('negative', { name: 'Negative', alpha: 1.2, beta: -0.2, gamma: 0 }))
+      .toThrow('Preset negative: alpha must be a number in [0, 1], got 1.2');
+    expect(() => validatePreset('missing', { name: 'Missing', alpha: 0.7, beta: 0.3 } as any))
+      .toThrow('gamma must be a number in [0, 1], got undefined');
+  });
+});
+
+describe('PresetStore', () => {
+  const store = new PresetStore(presets);
+
+  it('should prefer the requested preset, then the profile\'s, then the domain\'s', () => {
+    expect(store.select({ preset: 'fresh', empathyProfile: 'climate_focused', domain: 'hotel' }))
+      .toMatchObject({ id: 'fresh', selectedBy: 'request' });
+    expect(store.select({ empathyProfile: 'climate_focused', domain: 'hotel' }))
+      .toMatchObject({ id: 'climate', selectedBy: 'profile' });
+    expect(store.select({ empathyProfile: 'default', domain: 'hotel' }))
+      .toMatchObject({ id: 'hotel', selectedBy: 'domain', preset: { beta: 0.4 } });
+  });
+
+  it('should fall back to the default preset', () => {
+    expect(store.select({ domain: 'web-dev' })).toMatchObject({ id: 'default', selectedBy: 'default' });
+    expect(store.select()).toMatchObject({ id: 'default', selectedBy: 'default' });
+  });
+
+  it('should reject unknown presets', () => {
+    expect(() => store.select({ preset: 'missing' })).toThrow('Unknown preset: missing. Available: default, hotel, climate, fresh');
+  });
+
+  it('should validate every preset it is given', () => {
+    expect(() => new PresetStore({ broken: { name: 'Broken', alpha: 1, beta: 1, gamma: 1 } })).toThrow('Preset broken');
+  });
+
+  it('should provide the default parameters when none are configured', () => {
+    expect(new PresetStore({}).get('default')).toMatchObject(DEFAULT_VOLAM_PARAMETERS);
+  });
+
+  describe('load', () => {
+    it('should load the presets shipped in data/presets', () => {
+      const shipped = PresetStore.load();
+
+      expect(shipped.get('default')).toMatchObject(DEFAULT_VOLAM_PARAMETERS);
+      expect(shipped.select({ domain: 'hotel' }).preset.beta).toBe(0.4);
+    });
+
+    it('should refuse a preset file with invalid weights', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-'));
+      const filePath = path.join(tempDir, 'presets.json');
+      await fs.writeFile(filePath, JSON.stringify({ hotel: { name: 'Hotel', alpha: 0.6, beta: 0.4, gamma: 0.1 } }));
+
+      try {
+        expect(() => PresetStore.load(filePath)).toThrow('Preset hotel: weights must sum to 1');
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should use the defaults without a preset file', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(PresetStore.load('/nonexistent/presets.json').list().map(({ id }) => id)).toEqual(['default']);
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * VOLaM Parameter Presets
+ * Named α/β/γ (and extra component weight) sets, chosen per request, empathy profile or domain
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { VOLaMParameters } from '../types/core.js';
+
+export const DEFAULT_PRESET = 'default';
+
+// Used when no preset file is found
+export const DEFAULT_VOLAM_PARAMETERS: VOLaMParameters = { alpha: 0.6, beta: 0.3, gamma: 0.1 };
+
+// Rounding slack when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+export interface ParameterPreset extends VOLaMParameters {
+  name: string;
+  description?: string;
+  /** Corpus domains whose queries use this preset unless the request picks another */
+  domains?: string[];
+  /** Empathy profile whose rankings use this preset; also the profile the preset ranks with */
+  empathyProfile?: string;
+}
+
+export type PresetSelection = 'request' | 'profile' | 'domain' | 'default';
+
+export interface SelectedPreset {
+  id: string;
+  preset: ParameterPreset;
+  /** Why this preset applies */
+  selectedBy: PresetSelection;
+}
+
+export interface PresetCriteria {
+  /** Preset named in the request */
+  preset?: string;
+  empathyProfile?: string;
+  /** Domain the query is about, from its filter or detected from its text */
+  domain?: string;
+}
+
+export class PresetStore {
+  private presets: Map<string, ParameterPreset>;
+
+  /**
+   * @throws Error if a preset's weights are out of range or do not sum to 1
+   */
+  constructor(presets: Record<string, ParameterPreset>) {
+    Object.entries(presets).forEach(([id, preset]) => validatePreset(id, preset));
+    this.presets = new Map(Object.entries(presets));
+    if (!this.presets.has(DEFAULT_PRESET)) {
+      this.presets.set(DEFAULT_PRESET, { name: 'Default', ...DEFAULT_VOLAM_PARAMETERS });
+    }
+  }
+
+  /**
+   * Read presets (default VOLAM_PRESETS_PATH, then data/presets/volam-presets.json
+   * from the api directory or the repo root). Without a file only the default preset exists.
+   */
+  static load(filePath: string | undefined = process.env.VOLAM_PRESETS_PATH): PresetStore {
+    const candidates = filePath
+      ? [filePath]
+      : [join(process.cwd(), '../data/presets/volam-presets.json'), join(process.cwd(), 'data/presets/volam-presets.json')];
+
+    for (const candidate of candidates) {
+      let contents: string;
+      try {
+        contents = readFileSync(candidate, 'utf-8');
+      } catch {
+        continue;
+      }
+      // An unreadable or invalid preset file is a configuration error, not a missing one
+      return new PresetStore(JSON.parse(contents));
+    }
+
+    console.warn(`No VOLaM presets at ${candidates.join(' or ')}; using the default parameters`);
+    return new PresetStore({});
+  }
+
+  get(id: string): ParameterPreset | undefined {
+    return this.presets.get(id);
+  }
+
+  list(): Array<{ id: string; preset: ParameterPreset }> {
+    return Array.from(this.presets.entries()).map(([id, preset]) => ({ id, preset }));
+  }
+
+  /**
+   * The preset named in the request, else the empathy profile's, else the
+   * domain's, else the default
+   * @throws Error if the request names a preset that does not exist
+   */
+  select(criteria: PresetCriteria = {}): SelectedPreset {
+    if (criteria.preset) {
+      const preset = this.presets.get(criteria.preset);
+      if (!preset) {
+        throw new Error(`Unknown preset: ${criteria.preset}. Available: ${Array.from(this.presets.keys()).join(', ')}`);
+      }
+      return { id: criteria.preset, preset, selectedBy: 'request' };
+    }
+
+    const byProfile = criteria.empathyProfile
+      ? this.find(preset => preset.empathyProfile === criteria.empathyProfile)
+      : undefined;
+    if (byProfile) {
+      return { ...byProfile, selectedBy: 'profile' };
+    }
+
+    const byDomain = criteria.domain
+      ? this.find(preset => preset.domains?.includes(criteria.domain!) ?? false)
+      : undefined;
+    if (byDomain) {
+      return { ...byDomain, selectedBy: 'domain' };
+    }
+
+    return { id: DEFAULT_PRESET, preset: this.presets.get(DEFAULT_PRESET)!, selectedBy: 'default' };
+  }
+
+  private find(matches: (preset: ParameterPreset) => boolean): { id: string; preset: ParameterPreset } | undefined {
+    for (const [id, preset] of this.presets) {
+      if (matches(preset)) {
+        return { id, preset };
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * α, β, γ and any extra component weights must each be in [0, 1] and sum to 1
+ */
+export function validatePreset(id: string, preset: ParameterPreset): void {
+  const weights: Record<string, unknown> = { alpha: preset.alpha, beta: preset.beta, gamma: preset.gamma, ...preset.weights };
+
+  for (const [name, weight] of Object.entries(weights)) {
+    if (typeof weight !== 'number' || isNaN(weight) || weight < 0 || weight > 1) {
+      throw new Error(`Preset ${id}: ${name} must be a number in [0, 1], got ${JSON.stringify(weight)}`);
+    }
+  }
+
+  const sum = Object.values(weights as Record<string, number>).reduce((total, weight) => total + weight, 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    throw new Error(`Preset ${id}: weights must sum to 1, got ${Number(sum.toFixed(6))}`);
+  }
+}
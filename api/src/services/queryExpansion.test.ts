@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { KeywordGenerator, QueryExpander, ThesaurusGenerator, detectQueryDomain, loadThesaurus } from './queryExpansion.js';
+
+const thesaurus = {
+  hotel: {
+    overbooking: ['overselling rooms', 'guest displacement'],
+    'revenue management': ['yield management'],
+    management: ['administration'],
+    guest: ['customer']
+  },
+  'web-dev': {
+    api: ['endpoint']
+  }
+};
+
+describe('KeywordGenerator', () => {
+  it('should drop stopwords from full-sentence questions', async () => {
+    const variants = await new KeywordGenerator().generate('How do hotels handle overbooking?');
+
+    expect(variants).toEqual([{ query: 'hotels handle overbooking', source: 'keywords' }]);
+  });
+
+  it('should add nothing when every word is a keyword', async () => {
+    expect(await new KeywordGenerator().generate('overbooking compensation')).toEqual([]);
+    expect(await new KeywordGenerator().generate('what is the')).toEqual([]);
+  });
+});
+
+describe('ThesaurusGenerator', () => {
+  const generator = new ThesaurusGenerator(thesaurus);
+
+  it('should swap a term for each of its synonyms', async () => {
+    const variants = await generator.generate('Overbooking policy', {});
+
+    expect(variants).toEqual([
+      { query: 'overselling rooms policy', source: 'synonym' },
+      { query: 'guest displacement policy', source: 'synonym' }
+    ]);
+  });
+
+  it('should match plurals and prefer the longest term', async () => {
+    const variants = await generator.generate('revenue management for guests', {});
+
+    expect(variants.map(variant => variant.query)).toEqual([
+      'yield management for guests',
+      'revenue management for customer'
+    ]);
+  });
+
+  it('should alternate between terms before later synonyms', async () => {
+    const variants = await generator.generate('guest overbooking', {});
+
+    expect(variants.map(variant => variant.query)).toEqual([
+      'guest overselling rooms',
+      'customer overbooking',
+      'guest guest displacement'
+    ]);
+  });
+
+  it('should only use synonyms from the given domains', async () => {
+    expect(await generator.generate('api overbooking', { domains: ['web-dev'] })).toEqual([
+      { query: 'endpoint overbooking', source: 'synonym' }
+    ]);
+    expect(await generator.generate('rapid growth', {})).toEqual([]);
+  });
+});
+
+describe('detectQueryDomain', () => {
+  it('should pick the domain whose terms the query mentions most', () => {
+    expect(detectQueryDomain('Revenue management for hotel guests', thesaurus)).toBe('hotel');
+    expect(detectQueryDomain('Which API?', thesaurus)).toBe('web-dev');
+  });
+
+  it('should detect nothing without a clear winner', () => {
+    expect(detectQueryDomain('guest api', thesaurus)).toBeNull();
+    expect(detectQueryDomain('rapid growth', thesaurus)).toBeNull();
+  });
+});
+
+describe('QueryExpander', () => {
+  it('should put the original query first and drop duplicate variants', async () => {
+    const expander = new QueryExpander([
+      { name: 'echo', generate: async query => [{ query: query.toUpperCase(), source: 'echo' }] },
+      new ThesaurusGenerator(thesaurus)
+    ]);
+
+    expect(await expander.expand('guest')).toEqual([
+      { query: 'guest', source: 'original' },
+      { query: 'customer', source: 'synonym' }
+    ]);
+  });
+
+  it('should stop at the variant limit', async () => {
+    const later = { name: 'later', generate: vi.fn(async () => [{ query: 'unused', source: 'later' }]) };
+    const expander = new QueryExpander([new ThesaurusGenerator(thesaurus), later], 2);
+
+    expect(await expander.expand('overbooking')).toEqual([
+      { query: 'overbooking', source: 'original' },
+      { query: 'overselling rooms', source: 'synonym' }
+    ]);
+    expect(later.generate).not.toHaveBeenCalled();
+  });
+
+  it('should pass the expansion context to generators', async () => {
+    const generator = { name: 'spy', generate: vi.fn(async () => []) };
+
+    await new QueryExpander([generator]).expand('guest', { domains: ['hotel'] });
+
+    expect(generator.generate).toHaveBeenCalledWith('guest', { domains: ['hotel'] });
+  });
+});
+
+describe('loadThesaurus', () => {
+  it('should read the given file', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'thesaurus-'));
+    const filePath = path.join(tempDir, 'thesaurus.json');
+    await fs.writeFile(filePath, JSON.stringify(thesaurus));
+
+    try {
+      expect(loadThesaurus(filePath)).toEqual(thesaurus);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should fall back to an empty thesaurus', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadThesaurus('/nonexistent/thesaurus.json')).toEqual({});
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Query Expansion
+ * Rewrites a query into several variants whose result lists are fused before scoring
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { tokenize } from './bm25.js';
+
+// Including the original query
+const DEFAULT_MAX_VARIANTS = 4;
+
+/** Corpus domain → term → synonyms or related phrasings */
+export type Thesaurus = Record<string, Record<string, string[]>>;
+
+export interface QueryVariant {
+  query: string;
+  /** Generator that produced it: original, keywords, synonym, or a custom generator's name */
+  source: string;
+}
+
+export interface ExpansionContext {
+  /** Domains the search is restricted to; other domains' synonyms are ignored */
+  domains?: string[];
+}
+
+/**
+ * Produces rewrites of a query. Generators may be remote (e.g. an LLM), hence async.
+ */
+export interface QueryVariantGenerator {
+  readonly name: string;
+  generate(query: string, context: ExpansionContext): Promise<QueryVariant[]>;
+}
+
+/**
+ * The query's content words without stopwords, for questions phrased in full sentences
+ */
+export class KeywordGenerator implements QueryVariantGenerator {
+  readonly name = 'keywords';
+
+  async generate(query: string): Promise<QueryVariant[]> {
+    const keywords = tokenize(query);
+    const words = query.toLowerCase().match(/[a-z0-9]+(?:[-_][a-z0-9]+)*/g) || [];
+    // Nothing to strip means the variant would repeat the query
+    return keywords.length > 0 && keywords.length < words.length
+      ? [{ query: keywords.join(' '), source: this.name }]
+      : [];
+  }
+}
+
+/**
+ * Swaps one thesaurus term in the query for each of its synonyms. Longer terms
+ * are matched first, and variants alternate between terms so several terms
+ * are expanded before any term's later synonyms.
+ */
+export class ThesaurusGenerator implements QueryVariantGenerator {
+  readonly name = 'synonym';
+
+  constructor(private thesaurus: Thesaurus) {}
+
+  async generate(query: string, context: ExpansionContext = {}): Promise<QueryVariant[]> {
+    const domains = context.domains?.length ? context.domains : Object.keys(this.thesaurus);
+    const synonyms = new Map<string, Set<string>>();
+    for (const domain of domains) {
+      for (const [term, alternatives] of Object.entries(this.thesaurus[domain] || {})) {
+        const key = term.toLowerCase();
+        synonyms.set(key, new Set([...(synonyms.get(key) || []), ...alternatives]));
+      }
+    }
+
+    // Each term once, and not inside a longer term already matched
+    const matches: Array<{ pattern: RegExp; alternatives: string[] }> = [];
+    let remaining = query;
+    for (const term of Array.from(synonyms.keys()).sort((a, b) => b.length - a.length)) {
+      const pattern = termPattern(term);
+      if (pattern.test(remaining)) {
+        matches.push({ pattern, alternatives: Array.from(synonyms.get(term)!) });
+        remaining = remaining.replace(pattern, ' ');
+      }
+    }
+
+    const variants: QueryVariant[] = [];
+    const rounds = Math.max(0, ...matches.map(({ alternatives }) => alternatives.length));
+    for (let round = 0; round < rounds; round++) {
+      for (const { pattern, alternatives } of matches) {
+        if (round < alternatives.length) {
+          variants.push({ query: query.replace(pattern, alternatives[round]), source: this.name });
+        }
+      }
+    }
+    return variants;
+  }
+}
+
+/**
+ * Domain whose thesaurus terms the query mentions most, or null when it
+ * mentions none or several domains equally
+ */
+export function detectQueryDomain(query: string, thesaurus: Thesaurus): string | null {
+  let best: string | null = null;
+  let bestCount = 0;
+  let tied = false;
+
+  for (const [domain, terms] of Object.entries(thesaurus)) {
+    const count = Object.keys(terms).filter(term => termPattern(term).test(query)).length;
+    if (count > bestCount) {
+      best = domain;
+      bestCount = count;
+      tied = false;
+    } else if (count > 0 && count === bestCount) {
+      tied = true;
+    }
+  }
+
+  return tied ? null : best;
+}
+
+export class QueryExpander {
+  constructor(
+    private generators: QueryVariantGenerator[],
+    private maxVariants: number = DEFAULT_MAX_VARIANTS
+  ) {}
+
+  /**
+   * The original query followed by distinct variants from each generator in
+   * turn, up to maxVariants in total
+   */
+  async expand(query: string, context: ExpansionContext = {}): Promise<QueryVariant[]> {
+    const variants: QueryVariant[] = [{ query, source: 'original' }];
+    const seen = new Set([normalize(query)]);
+
+    for (const generator of this.generators) {
+      for (const variant of await generator.generate(query, context)) {
+        if (variants.length >= this.maxVariants) {
+          return variants;
+        }
+        if (!seen.has(normalize(variant.query))) {
+          seen.add(normalize(variant.query));
+          variants.push(variant);
+        }
+      }
+    }
+
+    return variants;
+  }
+}
+
+/**
+ * Read the domain thesaurus (default QUERY_THESAURUS_PATH, then
+ * data/thesaurus/thesaurus.json from the api directory or the repo root).
+ * A missing file leaves expansion to the other generators.
+ */
+export function loadThesaurus(filePath: string | undefined = process.env.QUERY_THESAURUS_PATH): Thesaurus {
+  const candidates = filePath
+    ? [filePath]
+    : [join(process.cwd(), '../data/thesaurus/thesaurus.json'), join(process.cwd(), 'data/thesaurus/thesaurus.json')];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(readFileSync(candidate, 'utf-8'));
+    } catch {
+      // Try the next location
+    }
+  }
+
+  console.warn(`No query thesaurus at ${candidates.join(' or ')}; expanding queries by keywords only`);
+  return {};
+}
+
+/**
+ * Keyword and thesaurus expansion, plus any extra generators
+ */
+export function createDefaultQueryExpander(generators: QueryVariantGenerator[] = []): QueryExpander {
+  return new QueryExpander([new KeywordGenerator(), new ThesaurusGenerator(loadThesaurus()), ...generators]);
+}
+
+function normalize(query: string): string {
+  return query.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// The term, or its plural, as whole words
+function termPattern(term: string): RegExp {
+  return new RegExp(`\\b${escapeRegExp(term)}s?\\b`, 'i');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
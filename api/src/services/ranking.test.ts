@@ -1,13 +1,29 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { NullnessService } from './nullness.js';
+import { QueryExpander } from './queryExpansion.js';
 import { RankingService } from './ranking.js';
+import { SnapshotManager, SnapshotManifestInput } from './vectorStore/snapshots.js';
+import { VectorStoreFactory } from './vectorStore.js';
+
+// The test setup replaces RankingService and EmpathyService with stubs; test the real ones
+vi.unmock('./ranking.js');
+vi.unmock('./empathy.js');
 
 // Mock the external dependencies
 vi.mock('./embedding.js', () => ({
   EmbeddingService: vi.fn().mockImplementation(() => ({
     embed: vi.fn().mockResolvedValue({
       embedding: new Array(1536).fill(0.1) // Mock 1536-dimensional embedding
-    })
+    }),
+    getModel: vi.fn().mockReturnValue('text-embedding-3-small'),
+    getDimensions: vi.fn().mockReturnValue(1536),
+    getProviderDimensions: vi.fn().mockReturnValue(1536),
+    setReducer: vi.fn()
   }))
 }));
 
@@ -57,7 +73,8 @@ vi.mock('./vectorStore.js', () => ({
           }
         ];
         return Promise.resolve(allResults.slice(0, k));
-      })
+      }),
+      verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 3, vectorCount: 3, issues: [] })
     })
   }
 }));
@@ -256,4 +273,414 @@ describe('RankingService', () => {
       expect(highAlphaResult.evidence[0].cosineScore).toBeGreaterThan(0.5);
     });
   });
+
+  describe('scoring components', () => {
+    it('should record each component\'s contribution on the evidence', async () => {
+      const result = await rankingService.rankWithVOLaM('climate policy', 3, 0.6, 0.3, 0.1);
+
+      for (const evidence of result.evidence) {
+        const { contributions } = evidence.metadata;
+        expect(Object.keys(contributions)).toEqual(['cosine', 'certainty', 'empathy']);
+        expect(contributions.cosine.contribution + contributions.certainty.contribution + contributions.empathy.contribution)
+          .toBeCloseTo(evidence.score);
+      }
+    });
+
+    it('should weight extra components given in options', async () => {
+      const result = await rankingService.rankWithVOLaM('public health workers', 3, 0, 0, 0, 'default', { weights: { lexical: 1 } });
+
+      expect(result.evidence[0].id).toBe('doc3');
+      expect(result.evidence[0].score).toBeCloseTo(1);
+      expect(result.parameters).toMatchObject({ weights: { lexical: 1 } });
+    });
+
+    it('should use registered components without changing the ranker', async () => {
+      rankingService.registerScoringComponent({
+        name: 'technology',
+        description: 'Prefers the technology domain',
+        score: evidence => (evidence.metadata.domain === 'technology' ? 1 : 0)
+      });
+
+      const result = await rankingService.rankWithVOLaM('test', 3, 0.1, 0, 0, 'default', { weights: { technology: 1 } });
+
+      expect(result.evidence[0].id).toBe('doc2');
+      expect(rankingService.getScoringComponents().map(component => component.name)).toContain('technology');
+      await expect(rankingService.rankWithVOLaM('test', 3, 0.6, 0.3, 0.1, 'default', { weights: { unknown: 1 } }))
+        .rejects.toThrow('Unknown scoring component: unknown');
+    });
+  });
+
+  describe('explainVOLaM', () => {
+    it('should break each score into component contributions and empathy tags', async () => {
+      const explanation = await rankingService.explainVOLaM('climate policy', 3, 0.6, 0.3, 0.1, 'climate_focused');
+      const doc1 = explanation.evidence.find(evidence => evidence.id === 'doc1')!;
+
+      expect(explanation.candidates).toBe(3);
+      expect(explanation.evidence.map(evidence => evidence.volamRank)).toEqual([1, 2, 3]);
+      expect(Object.keys(doc1.contributions)).toEqual(['cosine', 'certainty', 'empathy']);
+      expect(doc1.contributions.cosine).toMatchObject({ value: 0.85, weight: 0.6 });
+      expect(Object.values(doc1.contributions).reduce((sum, { contribution }) => sum + contribution, 0)).toBeCloseTo(doc1.score);
+      expect(doc1.empathyTags.stakeholders).toEqual(expect.arrayContaining(['affected_communities', 'policymakers']));
+      expect(doc1.empathyTags.topics).toEqual(['climate']);
+    });
+
+    it('should compare VOLaM ranks with baseline and with each component zeroed', async () => {
+      const explanation = await rankingService.explainVOLaM('public health workers', 3, 0.1, 0, 0, 'default', { weights: { lexical: 1 } });
+      const [top, second] = explanation.evidence;
+
+      expect(explanation.evidence.map(evidence => evidence.id)).toEqual(['doc3', 'doc1', 'doc2']);
+      expect(top).toMatchObject({ volamRank: 1, baselineRank: 3 });
+      // Without lexical overlap doc3 falls back to its cosine rank
+      expect(top.counterfactuals).toEqual({ cosine: { rank: 1, change: 0 }, lexical: { rank: 3, change: 2 } });
+      expect(second.counterfactuals.lexical).toEqual({ rank: 1, change: -1 });
+    });
+  });
+
+  describe('re-ranking', () => {
+    const reranker = { name: 'lexical' as const, score: vi.fn(async (_query: string, passages: string[]) => passages.map((_, i) => [0.1, 0.2, 0.9][i])) };
+
+    beforeEach(async () => {
+      reranker.score.mockClear();
+      rankingService = new RankingService({ reranker });
+      await rankingService.initialize();
+    });
+
+    it('should leave scores alone unless asked to re-rank', async () => {
+      const result = await rankingService.rankWithVOLaM('health', 3);
+
+      expect(reranker.score).not.toHaveBeenCalled();
+      expect(result.evidence[0].id).toBe('doc1');
+    });
+
+    it('should replace cosine with the re-ranker score', async () => {
+      const result = await rankingService.rankWithVOLaM('health', 3, 1, 0, 0, 'default', { rerank: 'replace' });
+
+      expect(reranker.score).toHaveBeenCalledWith('health', expect.arrayContaining([expect.stringContaining('Public health')]));
+      expect(result.evidence.map(evidence => evidence.id)).toEqual(['doc3', 'doc2', 'doc1']);
+      expect(result.evidence[0].score).toBeCloseTo(0.9);
+      expect(Object.keys(result.evidence[0].metadata.contributions)).toEqual(['rerank']);
+    });
+
+    it('should blend the re-ranker score with cosine', async () => {
+      const result = await rankingService.rankWithVOLaM('health', 3, 1, 0, 0, 'default', { rerank: 'blend', rerankBlend: 0.25 });
+      const top = result.evidence.find(evidence => evidence.id === 'doc1')!;
+
+      expect(top.score).toBeCloseTo(0.75 * 0.85 + 0.25 * 0.1);
+      expect(top.metadata.contributions.rerank).toMatchObject({ weight: 0.25, value: 0.1 });
+    });
+
+    it('should retrieve the configured candidate pool', async () => {
+      const search = vi.fn().mockResolvedValue([]);
+      vi.mocked(VectorStoreFactory.create).mockResolvedValueOnce({
+        search,
+        verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 0, vectorCount: 0, issues: [] })
+      } as any);
+      const service = new RankingService({ reranker });
+      await service.initialize();
+
+      await service.rankWithVOLaM('health', 3, 0.6, 0.3, 0.1, 'default', { rerank: 'blend', candidatePool: 40 });
+      await service.rankWithVOLaM('health', 3);
+
+      expect(search.mock.calls.map(([, k]) => k)).toEqual([40, 10]);
+    });
+  });
+
+  describe('diversification', () => {
+    const chunk = (id: string, source: string, embedding: number[], score: number) => ({
+      document: { id, content: `Chunk ${id} of ${source}`, embedding, metadata: { domain: 'climate', source, chunkIndex: 0, tokens: 200 } },
+      score
+    });
+
+    beforeEach(async () => {
+      // Three overlapping chunks of one file outscore a distinct file
+      vi.mocked(VectorStoreFactory.create).mockResolvedValueOnce({
+        search: vi.fn().mockImplementation((_, k) => Promise.resolve([
+          chunk('a1', 'a.txt', [1, 0, 0], 0.9),
+          chunk('a2', 'a.txt', [0.99, 0.1, 0], 0.89),
+          chunk('a3', 'a.txt', [0.97, 0.2, 0], 0.88),
+          chunk('b1', 'b.txt', [0, 0.2, 1], 0.7)
+        ].slice(0, k))),
+        verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 4, vectorCount: 4, issues: [] })
+      } as any);
+      rankingService = new RankingService();
+      await rankingService.initialize();
+    });
+
+    it('should return adjacent chunks without diversification', async () => {
+      const result = await rankingService.rankBaseline('emissions', 3);
+
+      expect(result.evidence.map(evidence => evidence.id)).toEqual(['a1', 'a2', 'a3']);
+    });
+
+    it('should swap near-duplicates for distinct evidence with MMR', async () => {
+      const baseline = await rankingService.rankBaseline('emissions', 3, { diversity: 0.5 });
+      const volam = await rankingService.rankWithVOLaM('emissions', 3, 0.6, 0.3, 0.1, 'default', { diversity: 0.5 });
+
+      expect(baseline.evidence.map(evidence => evidence.id)).toEqual(['a1', 'b1', 'a2']);
+      expect(volam.evidence.map(evidence => evidence.id).slice(0, 2)).toEqual(['a1', 'b1']);
+    });
+
+    it('should cap evidence per source', async () => {
+      const result = await rankingService.rankWithVOLaM('emissions', 3, 0.6, 0.3, 0.1, 'default', { maxPerSource: 1 });
+
+      expect(result.evidence.map(evidence => evidence.source)).toEqual(['a.txt', 'b.txt']);
+    });
+
+    it('should explain the diversified ranking', async () => {
+      const ranked = await rankingService.rankWithVOLaM('emissions', 3, 0.6, 0.3, 0.1, 'default', { diversity: 0.5 });
+      const explained = await rankingService.explainVOLaM('emissions', 3, 0.6, 0.3, 0.1, 'default', { diversity: 0.5 });
+      const capped = await rankingService.explainVOLaM('emissions', 3, 1, 0, 0, 'default', { maxPerSource: 1 });
+
+      expect(explained.evidence.map(evidence => evidence.id)).toEqual(ranked.evidence.map(evidence => evidence.id));
+      expect(capped.evidence.map(({ id, volamRank }) => [id, volamRank])).toEqual([['a1', 1], ['b1', 2]]);
+      // Without cosine every score ties and falls back to cosine order, which the cap diversifies the same way
+      expect(capped.evidence[1].counterfactuals).toEqual({ cosine: { rank: 2, change: 0 } });
+    });
+  });
+
+  describe('query expansion', () => {
+    const embedding = (value: number) => Array.from({ length: 1536 }, (_, i) => (i < 768 ? 0.1 : value));
+    const hit = (id: string, score: number, vector: number[]) => ({
+      document: { id, content: `Chunk ${id}`, embedding: vector, metadata: { domain: 'hotel', source: `${id}.txt`, chunkIndex: 0, tokens: 200 } },
+      score
+    });
+    const generator = { name: 'test', generate: vi.fn(async () => [{ query: 'overselling rooms', source: 'test' }]) };
+    let search: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      generator.generate.mockClear();
+      // The original query finds x; the variant finds y first, then x
+      search = vi.fn()
+        .mockResolvedValueOnce([hit('x', 0.9, embedding(0.1))])
+        .mockResolvedValueOnce([hit('y', 0.95, embedding(0)), hit('x', 0.8, embedding(0.1))]);
+      vi.mocked(VectorStoreFactory.create).mockResolvedValueOnce({
+        search,
+        verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 2, vectorCount: 2, issues: [] })
+      } as any);
+      rankingService = new RankingService({ queryExpander: new QueryExpander([generator]) });
+      await rankingService.initialize();
+    });
+
+    it('should search the query alone unless asked to expand', async () => {
+      const result = await rankingService.rankBaseline('overbooking', 2);
+
+      expect(generator.generate).not.toHaveBeenCalled();
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(result.evidence.map(evidence => evidence.id)).toEqual(['x']);
+    });
+
+    it('should fuse every variant\'s candidates by reciprocal rank', async () => {
+      const result = await rankingService.rankBaseline('overbooking', 2, { expand: true });
+      const [x, y] = result.evidence;
+
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(result.evidence.map(evidence => evidence.id)).toEqual(['x', 'y']);
+      expect(x.metadata.retrieval.variants).toEqual([
+        { query: 'overbooking', source: 'original', rank: 1 },
+        { query: 'overselling rooms', source: 'test', rank: 2 }
+      ]);
+      expect(y.metadata.retrieval.variants).toEqual([{ query: 'overselling rooms', source: 'test', rank: 1 }]);
+    });
+
+    it('should score candidates only a variant found against the original query', async () => {
+      const result = await rankingService.rankWithVOLaM('overbooking', 2, 1, 0, 0, 'default', { expand: true });
+      const y = result.evidence.find(evidence => evidence.id === 'y')!;
+
+      // Half of y's embedding matches the query's
+      expect(y.cosineScore).toBeCloseTo(Math.SQRT1_2);
+      expect(result.evidence[0].cosineScore).toBeCloseTo(0.9);
+    });
+
+    it('should only expand with synonyms from the filtered domains', async () => {
+      await rankingService.rankBaseline('overbooking', 2, { expand: true, filter: { field: 'domain', equals: 'hotel' } });
+
+      expect(generator.generate).toHaveBeenCalledWith('overbooking', { domains: ['hotel'] });
+    });
+  });
+
+  describe('evidence nullness', () => {
+    it('should use the nullness stored with each chunk instead of 1 − cosine', async () => {
+      const content = 'Results might replicate, but the effect is unclear.';
+      vi.mocked(VectorStoreFactory.create).mockResolvedValueOnce({
+        search: vi.fn().mockResolvedValue([
+          { document: { id: 'hedged', content, metadata: { domain: 'science', source: 'hedged-doc', chunkIndex: 0, tokens: 300, nullness: 0.6 } }, score: 0.9 }
+        ]),
+        verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 1, vectorCount: 1, issues: [] })
+      } as any);
+      const service = new RankingService();
+      await service.initialize();
+
+      const [evidence] = (await service.rankBaseline('replication', 1)).evidence;
+
+      expect(evidence.nullness).toBeCloseTo(0.6);
+      expect(evidence.metadata.chunkNullness).toBeCloseTo(0.6);
+    });
+
+    it('should estimate nullness from the text of chunks indexed without it', async () => {
+      const result = await rankingService.rankBaseline('climate', 3);
+      const byId = Object.fromEntries(result.evidence.map(evidence => [evidence.id, evidence.nullness]));
+
+      // 150 tokens with no hedging is the 0.1 floor; shorter chunks add 0.1, whatever their cosine
+      expect(byId).toEqual({ doc1: 0.1, doc2: 0.2, doc3: 0.2 });
+    });
+
+    it('should rank chunks supporting a refuted concept lower', async () => {
+      const nullnessService = new NullnessService();
+      const service = new RankingService({ nullnessService });
+      await service.initialize();
+
+      const before = await service.rankWithVOLaM('environment', 3, 0.2, 0.8, 0);
+      vi.mocked(nullnessService.getTrackedConcepts).mockResolvedValue([
+        { concept: 'climate_change', nullness: 0.9 },
+        { concept: 'public_health', nullness: 0.2 }
+      ]);
+      const after = await service.rankWithVOLaM('environment', 3, 0.2, 0.8, 0);
+
+      expect(before.evidence[0].id).toBe('doc1');
+      expect(after.evidence.map(evidence => evidence.id)).toEqual(['doc3', 'doc2', 'doc1']);
+      // Chunk nullness ± half the concept's distance from neutral
+      expect(after.evidence[2].nullness).toBeCloseTo(0.3);
+      expect(after.evidence[2].metadata).toMatchObject({ concepts: ['climate_change'], chunkNullness: 0.1, conceptNullness: 0.9 });
+      expect(after.evidence[0].nullness).toBeCloseTo(0.05);
+      expect(after.evidence[1].metadata).not.toHaveProperty('concepts');
+    });
+  });
+
+  describe('embedding model checks', () => {
+    let snapshotsDir: string;
+    let snapshots: SnapshotManager;
+
+    const manifest: SnapshotManifestInput = {
+      embeddingModel: 'text-embedding-3-small',
+      dimensions: 1536,
+      corpusHash: 'abc123',
+      chunker: {},
+      documentCount: 3,
+      files: { index: 'faiss.index' }
+    };
+
+    const publish = async (input: SnapshotManifestInput, activate = true) => {
+      const { version } = await snapshots.createVersion();
+      await snapshots.publish(version, input, 5, activate);
+      return version;
+    };
+
+    beforeEach(async () => {
+      snapshotsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ranking-snapshots-'));
+      snapshots = new SnapshotManager(snapshotsDir);
+    });
+
+    afterEach(async () => {
+      await fs.rm(snapshotsDir, { recursive: true, force: true });
+    });
+
+    it('should load a snapshot embedded with the query model', async () => {
+      const version = await publish(manifest);
+      const service = new RankingService({ snapshotsDir });
+
+      await service.initialize();
+
+      expect(service.getSnapshotVersion()).toBe(version);
+    });
+
+    it('should refuse a snapshot embedded with another model', async () => {
+      await publish({ ...manifest, embeddingModel: 'text-embedding-3-large', dimensions: 3072 });
+      const service = new RankingService({ snapshotsDir });
+
+      await expect(service.initialize()).rejects.toThrow(
+        'was embedded with text-embedding-3-large (3072 dims) but queries use text-embedding-3-small (1536 dims)'
+      );
+    });
+
+    it('should keep serving when a newly published snapshot uses another model', async () => {
+      const live = await publish(manifest);
+      const service = new RankingService({ snapshotsDir });
+      await service.initialize();
+
+      await publish({ ...manifest, dimensions: 512 });
+
+      await expect(service.reload()).rejects.toThrow('512 dims');
+      expect(service.getSnapshotVersion()).toBe(live);
+      expect(await service.reload()).toBe(false);
+    });
+
+    it('should serve a pinned snapshot instead of the current one', async () => {
+      const candidate = await publish(manifest, false);
+      await publish({ ...manifest, embeddingModel: 'text-embedding-3-large', dimensions: 3072 });
+      const service = new RankingService({ snapshotsDir, snapshotVersion: candidate });
+
+      await service.initialize();
+
+      expect(service.getSnapshotVersion()).toBe(candidate);
+      expect(await service.reload()).toBe(false);
+    });
+  });
+
+  describe('vector store backend', () => {
+    let snapshotsDir: string;
+    let snapshots: SnapshotManager;
+
+    const sharded: SnapshotManifestInput = {
+      embeddingModel: 'text-embedding-3-small',
+      dimensions: 1536,
+      backend: 'sharded',
+      corpusHash: 'abc123',
+      chunker: {},
+      documentCount: 3,
+      files: { index: 'shards' }
+    };
+
+    beforeEach(async () => {
+      snapshotsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ranking-backend-'));
+      snapshots = new SnapshotManager(snapshotsDir);
+      vi.mocked(VectorStoreFactory.create).mockClear();
+    });
+
+    afterEach(async () => {
+      vi.unstubAllEnvs();
+      await fs.rm(snapshotsDir, { recursive: true, force: true });
+    });
+
+    it('should load a snapshot with the backend it was seeded with', async () => {
+      const { version, dir } = await snapshots.createVersion();
+      await snapshots.publish(version, sharded);
+
+      await new RankingService({ snapshotsDir }).initialize();
+
+      expect(VectorStoreFactory.create).toHaveBeenCalledWith({
+        backend: 'sharded',
+        dimensions: 1536,
+        indexPath: path.join(dir, 'shards')
+      });
+    });
+
+    it('should refuse a snapshot seeded with another backend than configured', async () => {
+      const { version } = await snapshots.createVersion();
+      await snapshots.publish(version, { ...sharded, backend: undefined, files: { index: 'faiss.index' } });
+
+      await expect(new RankingService({ snapshotsDir, vectorStoreBackend: 'sharded' }).initialize()).rejects.toThrow(
+        'was seeded with the faiss backend but sharded is configured'
+      );
+      expect(VectorStoreFactory.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a configured backend that seed cannot write', async () => {
+      vi.stubEnv('VECTOR_STORE_BACKEND', 'sqlite');
+
+      await expect(new RankingService({ snapshotsDir }).initialize()).rejects.toThrow(
+        'Vector store backend sqlite is configured but `npm run seed` only writes faiss and sharded indexes'
+      );
+      expect(VectorStoreFactory.create).not.toHaveBeenCalled();
+    });
+
+    it('should take the backend for the legacy index from VECTOR_STORE_BACKEND', async () => {
+      vi.stubEnv('VECTOR_STORE_BACKEND', 'sharded');
+
+      await new RankingService({ snapshotsDir }).initialize();
+
+      expect(VectorStoreFactory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ backend: 'sharded', indexPath: 'data/embeddings/shards' })
+      );
+    });
+  });
 });
@@ -1,22 +1,150 @@
-import { Evidence, RankingResult } from '../types/core.js';
-import { VectorStore, VectorStoreFactory } from './vectorStore.js';
+import * as path from 'path';
 
-import { EmbeddingService } from './embedding.js';
+import { BM25Index, LexicalDocument } from './bm25.js';
+import { diversifyEvidence } from './diversity.js';
+import { Evidence, EvidenceExplanation, RankingExplanation, RankingResult } from '../types/core.js';
+import { FusionMethod, RankedCandidate, fuseRankings } from './fusion.js';
+import { MetadataFilter, VectorStore, VectorStoreConfig, VectorStoreFactory } from './vectorStore.js';
+import { allowedFieldValues } from './vectorStore/filter.js';
+import { SnapshotInfo, SnapshotManager } from './vectorStore/snapshots.js';
+
+import { EmbeddingConfig, EmbeddingReducer, EmbeddingService } from './embedding.js';
+import { PcaReducer } from './embedding/pca.js';
+import { ScoringComponent, ScoringRegistry, ScoringWeights, createDefaultScoringRegistry, createScoringContext } from './scoring.js';
 import { EmpathyService } from './empathy.js';
+import { Reranker, createReranker } from './reranker.js';
+import { QueryExpander, QueryVariant, createDefaultQueryExpander } from './queryExpansion.js';
+import { DEFAULT_VOLAM_PARAMETERS } from './presets.js';
+import { NullnessService } from './nullness.js';
+import { TrackedConcept, supportedConceptNullness, supportedConcepts } from './nullness/concepts.js';
+import { estimateChunkNullness, mergeNullness } from './nullness/chunk.js';
+
+export type RetrievalMode = 'dense' | 'lexical' | 'hybrid';
+
+export interface RankingOptions {
+  /** Restrict retrieval to documents whose metadata matches this filter */
+  filter?: MetadataFilter;
+  /** Candidate source: embeddings, BM25, or both fused (default 'dense') */
+  retrieval?: RetrievalMode;
+  /** How hybrid retrieval merges the dense and lexical lists (default 'rrf') */
+  fusion?: FusionMethod;
+  /**
+   * VOLaM weights for scoring components beyond α/β/γ (e.g. `{ recency: 0.1 }`),
+   * or overrides for `cosine`, `certainty` and `empathy`
+   */
+  weights?: ScoringWeights;
+  /** MMR trade-off from 0 (relevance order) to 1 (most dissimilar evidence first) */
+  diversity?: number;
+  /** Cap on evidence from any one source file */
+  maxPerSource?: number;
+  /**
+   * VOLaM: score candidates with the second-stage re-ranker and give it α in
+   * place of cosine ('replace') or a share of α next to it ('blend'); default 'off'
+   */
+  rerank?: RerankMode;
+  /** Share of α the re-ranker gets when blending (default 0.5) */
+  rerankBlend?: number;
+  /** Candidates retrieved for VOLaM scoring, re-ranking and diversification (default max(2k, 10), or max(4k, 20) when diversifying) */
+  candidatePool?: number;
+  /**
+   * Also retrieve for rewrites of the query (synonyms, keywords) and fuse
+   * every variant's candidates by RRF before scoring
+   */
+  expand?: boolean;
+}
+
+export type RerankMode = 'off' | 'replace' | 'blend';
+
+export interface RankingServiceOptions {
+  /** Query embedding settings; model and dimensions must match the index (default from EMBEDDING_* env) */
+  embedding?: EmbeddingConfig;
+  /**
+   * Serve this snapshot version instead of following `current`, e.g. to A/B a
+   * migrated embedding model next to the live one (default INDEX_SNAPSHOT)
+   */
+  snapshotVersion?: string;
+  /** Snapshot root (default data/embeddings/snapshots) */
+  snapshotsDir?: string;
+  /**
+   * Vector store backend to serve from (default VECTOR_STORE_BACKEND). Snapshots
+   * are loaded with the backend they were seeded with; when this is set, one
+   * seeded with another backend is refused.
+   */
+  vectorStoreBackend?: VectorStoreConfig['backend'];
+  /**
+   * Source of concept nullness: chunks supporting a tracked concept move with it,
+   * so refuting a concept ranks its chunks lower. Without it nullness is chunk-level only.
+   */
+  nullnessService?: NullnessService;
+  /** Second-stage scorer for `rerank` (default from RERANKER, then lexical) */
+  reranker?: Reranker;
+  /** Scoring components to register next to the built-in ones */
+  scoringComponents?: ScoringComponent[];
+  /** Query rewriter for `expand` (default keywords plus data/thesaurus) */
+  queryExpander?: QueryExpander;
+}
+
+interface Candidate {
+  document: LexicalDocument;
+  score: number;
+  retrieval?: {
+    mode: RetrievalMode;
+    denseRank?: number;
+    lexicalRank?: number;
+    lexicalScore?: number;
+    fusedScore?: number;
+    /** With `expand`: the query variants that retrieved the candidate, and at which rank */
+    variants?: Array<QueryVariant & { rank: number }>;
+  };
+}
+
+// Diversifying picks k from a wider pool so there is something to swap in
+const DIVERSITY_POOL_FACTOR = 4;
+
+// Share of α the re-ranker takes when blended with cosine
+const DEFAULT_RERANK_BLEND = 0.5;
+
+// Used until the first versioned snapshot is published
+const LEGACY_INDEX_PATH = 'data/embeddings/faiss.index';
+const LEGACY_LEXICAL_INDEX_PATH = 'data/embeddings/bm25.json';
+const LEGACY_SHARDS_PATH = 'data/embeddings/shards';
+
+// Backends scripts/seed.ts can write an index for
+const SEEDED_BACKENDS: VectorStoreConfig['backend'][] = ['faiss', 'sharded'];
 
 export class RankingService {
   private vectorStore!: VectorStore; // Will be initialized in initialize()
+  private lexicalIndex = new BM25Index();
   private embeddingService: EmbeddingService;
   private empathyService: EmpathyService;
+  private nullnessService: NullnessService | null;
+  private scoring: ScoringRegistry;
+  private reranker: Reranker;
+  private queryExpander: QueryExpander;
+  private snapshots: SnapshotManager;
+  private snapshotVersion: string | null = null;
+  private vectorStoreBackend: VectorStoreConfig['backend'] | null;
+  // Set when serving a fixed snapshot; `current` is then ignored
+  private pinnedVersion: string | null;
+  // Snapshot that failed to load, so polling does not retry it forever
+  private failedSnapshotVersion: string | null = null;
+  private snapshotWatcher: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(options: RankingServiceOptions = {}) {
     // Initialize embedding service
-    this.embeddingService = new EmbeddingService({
-      model: 'text-embedding-3-small',
-      dimensions: 1536
-    });
+    this.embeddingService = new EmbeddingService(options.embedding);
+    this.snapshots = new SnapshotManager(options.snapshotsDir);
+    this.pinnedVersion = options.snapshotVersion || process.env.INDEX_SNAPSHOT || null;
+    this.vectorStoreBackend = options.vectorStoreBackend
+      || (process.env.VECTOR_STORE_BACKEND as VectorStoreConfig['backend'] | undefined)
+      || null;
 
     this.empathyService = new EmpathyService();
+    this.nullnessService = options.nullnessService ?? null;
+    this.reranker = options.reranker ?? createReranker();
+    this.queryExpander = options.queryExpander ?? createDefaultQueryExpander();
+    this.scoring = createDefaultScoringRegistry();
+    options.scoringComponents?.forEach(component => this.scoring.register(component));
     console.log('RankingService initialized with embeddings');
   }
 
@@ -24,27 +152,209 @@ export class RankingService {
    * Initialize the vector store and embedding service
    */
   async initialize(): Promise<void> {
-    // Initialize vector store with FAISS backend
-    this.vectorStore = await VectorStoreFactory.create({
-      backend: 'faiss',
-      dimensions: 1536,
-      indexPath: 'data/embeddings/faiss.index'
+    const snapshot = this.pinnedVersion
+      ? await this.snapshots.getVersion(this.pinnedVersion)
+      : await this.snapshots.getCurrent();
+    await this.loadIndexes(snapshot);
+    console.log(`RankingService vector store initialized${snapshot ? ` from snapshot ${snapshot.version}` : ''}`);
+  }
+
+  /**
+   * Switch to the snapshot `current` points at, if it changed since the last load.
+   * The loaded index keeps serving until the new one has loaded and verified.
+   * A pinned snapshot never reloads.
+   */
+  async reload(): Promise<boolean> {
+    if (this.pinnedVersion) {
+      return false;
+    }
+
+    const snapshot = await this.snapshots.getCurrent();
+    if (!snapshot || snapshot.version === this.snapshotVersion || snapshot.version === this.failedSnapshotVersion) {
+      return false;
+    }
+
+    try {
+      await this.loadIndexes(snapshot);
+    } catch (error) {
+      this.failedSnapshotVersion = snapshot.version;
+      throw error;
+    }
+
+    console.log(`RankingService switched to index snapshot ${snapshot.version}`);
+    return true;
+  }
+
+  /**
+   * Point `current` back at the previous snapshot and load it
+   */
+  async rollback(): Promise<string> {
+    const snapshot = await this.snapshots.rollback();
+    await this.reload();
+    return snapshot.version;
+  }
+
+  /**
+   * Poll for newly published snapshots so a re-seed is picked up without a restart
+   */
+  watchSnapshots(intervalMs: number = 5000): void {
+    if (this.snapshotWatcher) {
+      return;
+    }
+
+    this.snapshotWatcher = setInterval(() => {
+      this.reload().catch(error => {
+        console.error('Index snapshot reload failed; keeping the current index:', error);
+      });
+    }, intervalMs);
+    this.snapshotWatcher.unref();
+  }
+
+  stopWatchingSnapshots(): void {
+    if (this.snapshotWatcher) {
+      clearInterval(this.snapshotWatcher);
+      this.snapshotWatcher = null;
+    }
+  }
+
+  /**
+   * Add a scoring component; rankWithVOLaM uses it once options.weights gives it a weight
+   */
+  registerScoringComponent(component: ScoringComponent): void {
+    this.scoring.register(component);
+  }
+
+  /**
+   * Registered scoring components, built-in ones first
+   */
+  getScoringComponents(): ScoringComponent[] {
+    return this.scoring.list();
+  }
+
+  /**
+   * Snapshot version being served, or null for the legacy index paths
+   */
+  getSnapshotVersion(): string | null {
+    return this.snapshotVersion;
+  }
+
+  /**
+   * Load the vector and BM25 indexes for a snapshot (or the legacy paths) and swap them in
+   */
+  private async loadIndexes(snapshot: SnapshotInfo | null): Promise<void> {
+    const reducer = snapshot?.manifest.files.reducer
+      ? await PcaReducer.load(path.join(snapshot.dir, snapshot.manifest.files.reducer))
+      : null;
+
+    // Vectors from another model (or reduced differently) are not comparable to our queries
+    if (snapshot) {
+      this.assertEmbeddingModel(snapshot, reducer);
+    } else {
+      console.warn('Legacy index has no manifest; its embedding model cannot be checked against queries.');
+    }
+
+    const backend = this.resolveBackend(snapshot);
+    const indexPath = snapshot
+      ? path.join(snapshot.dir, snapshot.manifest.files.index)
+      : backend === 'sharded' ? LEGACY_SHARDS_PATH : LEGACY_INDEX_PATH;
+    const lexicalIndexPath = snapshot
+      ? snapshot.manifest.files.lexicalIndex && path.join(snapshot.dir, snapshot.manifest.files.lexicalIndex)
+      : LEGACY_LEXICAL_INDEX_PATH;
+
+    const vectorStore = await VectorStoreFactory.create({
+      backend,
+      dimensions: snapshot?.manifest.dimensions ?? this.embeddingService.getProviderDimensions(),
+      indexPath
     });
-    console.log('RankingService vector store initialized');
+
+    // Refuse to serve from a store whose index and metadata disagree
+    const integrity = await vectorStore.verify();
+    if (!integrity.ok) {
+      throw new Error(
+        `Vector store failed integrity check: ${integrity.issues.map(issue => issue.message).join('; ')}. ` +
+        'Run `npm run verify:index -- --repair` or `make seed` to fix it.'
+      );
+    }
+
+    let lexicalIndex = new BM25Index();
+    if (lexicalIndexPath) {
+      try {
+        lexicalIndex = await BM25Index.load(lexicalIndexPath);
+        console.log(`RankingService lexical index loaded (${lexicalIndex.getDocumentCount()} documents)`);
+      } catch {
+        console.warn(`No BM25 index at ${lexicalIndexPath}; lexical and hybrid retrieval fall back to dense. Run make seed to build it.`);
+      }
+    }
+
+    // The previous store is dropped rather than closed: closing would write it back to disk
+    this.embeddingService.setReducer(reducer);
+    this.vectorStore = vectorStore;
+    this.lexicalIndex = lexicalIndex;
+    this.snapshotVersion = snapshot?.version ?? null;
+  }
+
+  /**
+   * The backend a snapshot was seeded with, or the configured one (default
+   * faiss) for the legacy index paths
+   * @throws Error if the configured backend is not one seed writes, or the snapshot was seeded with another
+   */
+  private resolveBackend(snapshot: SnapshotInfo | null): VectorStoreConfig['backend'] {
+    if (this.vectorStoreBackend && !SEEDED_BACKENDS.includes(this.vectorStoreBackend)) {
+      throw new Error(
+        `Vector store backend ${this.vectorStoreBackend} is configured but \`npm run seed\` only writes ` +
+        `${SEEDED_BACKENDS.join(' and ')} indexes. Set VECTOR_STORE_BACKEND to one of them and run ` +
+        `\`npm run seed -- --backend=<backend>\`, or unset it.`
+      );
+    }
+    if (!snapshot) {
+      return this.vectorStoreBackend ?? 'faiss';
+    }
+
+    const seeded = snapshot.manifest.backend ?? 'faiss';
+    if (this.vectorStoreBackend && this.vectorStoreBackend !== seeded) {
+      throw new Error(
+        `Index snapshot ${snapshot.version} was seeded with the ${seeded} backend but ${this.vectorStoreBackend} is configured. ` +
+        `Run \`npm run seed -- --backend=${this.vectorStoreBackend}\` or unset VECTOR_STORE_BACKEND.`
+      );
+    }
+    return seeded;
+  }
+
+  /**
+   * Refuse a snapshot embedded with a different model or dimensions than queries use.
+   * With a reducer, queries are embedded at its input dimensions and reduced to the index's.
+   */
+  private assertEmbeddingModel(snapshot: SnapshotInfo, reducer: EmbeddingReducer | null): void {
+    const { embeddingModel, dimensions } = snapshot.manifest;
+    const queryModel = this.embeddingService.getModel();
+    const queryDimensions = this.embeddingService.getProviderDimensions();
+
+    if (reducer && (reducer.outputDimensions !== dimensions || reducer.inputDimensions !== queryDimensions)) {
+      throw new Error(
+        `Index snapshot ${snapshot.version} reduces ${reducer.inputDimensions}-dim ${embeddingModel} embeddings ` +
+        `to ${reducer.outputDimensions} dims but queries are embedded at ${queryDimensions} dims. ` +
+        `Set EMBEDDING_DIMENSIONS=${reducer.inputDimensions} (the reducer input), not the index dimensions.`
+      );
+    }
+
+    if (embeddingModel !== queryModel || (!reducer && dimensions !== queryDimensions)) {
+      throw new Error(
+        `Index snapshot ${snapshot.version} was embedded with ${embeddingModel} (${dimensions} dims) ` +
+        `but queries use ${queryModel} (${queryDimensions} dims). ` +
+        'Set EMBEDDING_MODEL and EMBEDDING_DIMENSIONS to match, or run `npm run embeddings:migrate`.'
+      );
+    }
   }
 
   /**
    * Baseline ranking using cosine similarity only
    */
-  async rankBaseline(query: string, k: number = 5): Promise<RankingResult> {
-    // Generate embedding for the query
-    const queryEmbedding = await this.embeddingService.embed(query);
-    
-    // Search for similar documents
-    const searchResults = await this.vectorStore.search(queryEmbedding.embedding, k);
-    
+  async rankBaseline(query: string, k: number = 5, options: RankingOptions = {}): Promise<RankingResult> {
+    const searchResults = await this.retrieve(query, this.isDiversifying(options) ? this.candidatePoolSize(k, options) : k, options);
+
     // Convert search results to Evidence objects
-    const evidence: Evidence[] = searchResults.map(result => this.convertToEvidence(result));
+    const concepts = await this.getTrackedConcepts();
+    const evidence: Evidence[] = this.diversify(searchResults.map(result => this.convertToEvidence(result, concepts)), k, options, searchResults);
 
     const answer = this.composeAnswer(evidence, query);
     const confidence = this.calculateConfidence(evidence);
@@ -60,74 +370,351 @@ export class RankingService {
   }
 
   /**
-   * VOLaM ranking: α·cosine + β·(1−nullness) + γ·empathy_fit
+   * VOLaM ranking: α·cosine + β·(1−nullness) + γ·empathy_fit, plus any
+   * other registered scoring components given a weight in options.weights
    */
   async rankWithVOLaM(
     query: string,
     k: number = 5,
-    alpha: number = 0.6,
-    beta: number = 0.3,
-    gamma: number = 0.1,
-    empathyProfile: string | Record<string, number> = 'default'
+    alpha: number = DEFAULT_VOLAM_PARAMETERS.alpha,
+    beta: number = DEFAULT_VOLAM_PARAMETERS.beta,
+    gamma: number = DEFAULT_VOLAM_PARAMETERS.gamma,
+    empathyProfile: string | Record<string, number> = 'default',
+    options: RankingOptions = {}
   ): Promise<RankingResult> {
-    // Generate embedding for the query
-    const queryEmbedding = await this.embeddingService.embed(query);
-    
-    // Search for similar documents (get more than k to allow for re-ranking)
-    const searchResults = await this.vectorStore.search(queryEmbedding.embedding, Math.max(k * 2, 10));
-    
+    const { evidence, candidates } = await this.scoreWithVOLaM(query, k, alpha, beta, gamma, empathyProfile, options);
+    const ranked = this.diversify(evidence, k, options, candidates);
+
+    const answer = this.composeAnswer(ranked, query);
+    const confidence = this.calculateConfidence(ranked);
+    const nullness = this.calculateAverageNullness(ranked);
+
+    return {
+      evidence: ranked.slice(0, k),
+      answer,
+      confidence,
+      nullness,
+      mode: 'volam',
+      parameters: { alpha, beta, gamma, ...(options.weights ? { weights: options.weights } : {}) },
+      empathyProfile: typeof empathyProfile === 'string' ? empathyProfile : undefined
+    };
+  }
+
+  /**
+   * Why the top k rank where they do under VOLaM: each weighted component's
+   * contribution, the empathy tags behind the empathy fit, the rank baseline
+   * mode gives the same candidate, and the rank it would get with each
+   * component's weight set to zero. Ranks follow rankWithVOLaM, including
+   * diversification; counterfactual ranks re-run it on the re-scored pool.
+   */
+  async explainVOLaM(
+    query: string,
+    k: number = 5,
+    alpha: number = DEFAULT_VOLAM_PARAMETERS.alpha,
+    beta: number = DEFAULT_VOLAM_PARAMETERS.beta,
+    gamma: number = DEFAULT_VOLAM_PARAMETERS.gamma,
+    empathyProfile: string | Record<string, number> = 'default',
+    options: RankingOptions = {}
+  ): Promise<RankingExplanation> {
+    const { evidence, candidates, weights } = await this.scoreWithVOLaM(query, k, alpha, beta, gamma, empathyProfile, options);
+
+    // Baseline keeps retrieval order
+    const baselineRanks = new Map(candidates.map(({ document }, i) => [document.id, i + 1]));
+    const weighted = Object.keys(weights).filter(name => weights[name] !== 0);
+    const counterfactualRanks = new Map(weighted.map(name => [
+      name,
+      this.servedRanks(evidence, e => e.score - (e.metadata.contributions[name]?.contribution ?? 0), options, candidates)
+    ]));
+
+    const explanations: EvidenceExplanation[] = this.diversify(evidence, k, options, candidates).slice(0, k).map((e, i) => {
+      const rank = i + 1;
+      return {
+        id: e.id,
+        source: e.source,
+        content: e.content,
+        score: e.score,
+        volamRank: rank,
+        baselineRank: baselineRanks.get(e.id)!,
+        contributions: e.metadata.contributions,
+        empathyTags: e.metadata.empathyTags,
+        counterfactuals: Object.fromEntries(weighted.map(name => {
+          const without = counterfactualRanks.get(name)!.get(e.id)!;
+          return [name, { rank: without, change: without - rank }];
+        }))
+      };
+    });
+
+    return {
+      query,
+      parameters: { alpha, beta, gamma, ...(options.weights ? { weights: options.weights } : {}) },
+      empathyProfile: typeof empathyProfile === 'string' ? empathyProfile : undefined,
+      candidates: evidence.length,
+      evidence: explanations
+    };
+  }
+
+  /**
+   * Retrieve the candidate pool and score every candidate, best first
+   */
+  private async scoreWithVOLaM(
+    query: string,
+    k: number,
+    alpha: number,
+    beta: number,
+    gamma: number,
+    empathyProfile: string | Record<string, number>,
+    options: RankingOptions
+  ): Promise<{ evidence: Evidence[]; candidates: Candidate[]; weights: ScoringWeights }> {
+    // Retrieve more than k candidates to allow for re-ranking
+    const searchResults = await this.retrieve(query, this.candidatePoolSize(k, options), options);
+
     // Convert search results to Evidence objects
-    const evidence: Evidence[] = searchResults.map(result => this.convertToEvidence(result));
+    const concepts = await this.getTrackedConcepts();
+    const evidence: Evidence[] = searchResults.map(result => this.convertToEvidence(result, concepts));
+
+    // The re-ranker reads query and chunk together; its score stands in for or joins cosine
+    if (options.rerank && options.rerank !== 'off') {
+      const rerankScores = await this.reranker.score(query, evidence.map(e => e.content));
+      evidence.forEach((e, i) => {
+        e.metadata.rerankScore = rerankScores[i];
+      });
+    }
+
+    const weights: ScoringWeights = { ...this.similarityWeights(alpha, options), certainty: beta, empathy: gamma, ...options.weights };
+    const context = createScoringContext(query);
 
     // Calculate empathy fit for each evidence piece
     for (const evidenceItem of evidence) {
       const contentTags = this.empathyService.extractContentTags(evidenceItem.content, evidenceItem.metadata);
       evidenceItem.empathyFit = this.empathyService.calculateEmpathyFit(contentTags, empathyProfile);
+      evidenceItem.metadata.empathyTags = { stakeholders: contentTags.stakeholders || [], topics: contentTags.topics || [] };
       
-      // Calculate VOLaM score
-      evidenceItem.score = this.calculateVOLaMScore(
-        evidenceItem.cosineScore,
-        evidenceItem.nullness,
-        evidenceItem.empathyFit,
-        alpha,
-        beta,
-        gamma
-      );
+      // Weighted sum of component features, kept per component for the UI
+      const { score, contributions } = this.scoring.score(evidenceItem, context, weights);
+      evidenceItem.score = score;
+      evidenceItem.metadata.contributions = contributions;
     }
 
-    // Sort by VOLaM score, with tie-breaking by cosine similarity
-    evidence.sort((a: Evidence, b: Evidence) => {
-      const scoreDiff = b.score - a.score;
+    evidence.sort(this.byScore(e => e.score));
+    return { evidence, candidates: searchResults, weights };
+  }
+
+  /**
+   * Sort by VOLaM score, with tie-breaking by cosine similarity
+   */
+  private byScore(scoreOf: (evidence: Evidence) => number): (a: Evidence, b: Evidence) => number {
+    return (a, b) => {
+      const scoreDiff = scoreOf(b) - scoreOf(a);
       if (Math.abs(scoreDiff) < 0.001) { // Tie-breaking threshold
         return b.cosineScore - a.cosineScore; // Tie-break by cosine
       }
       return scoreDiff;
-    });
+    };
+  }
 
-    const answer = this.composeAnswer(evidence, query);
-    const confidence = this.calculateConfidence(evidence);
-    const nullness = this.calculateAverageNullness(evidence);
+  /**
+   * Rank (1 = top) of each evidence ID in the order rankWithVOLaM would serve
+   * it under another score. Evidence a source cap leaves out ranks after the
+   * rest, by that score.
+   */
+  private servedRanks(
+    evidence: Evidence[],
+    scoreOf: (evidence: Evidence) => number,
+    options: RankingOptions,
+    candidates: Candidate[]
+  ): Map<string, number> {
+    // Copies, so diversifying them leaves the served evidence's metadata alone
+    const rescored = evidence
+      .map(e => ({ ...e, score: scoreOf(e), metadata: { ...e.metadata } }))
+      .sort(this.byScore(e => e.score));
+    const served = this.diversify(rescored, rescored.length, options, candidates);
+    const servedIds = new Set(served.map(e => e.id));
+    return new Map([...served, ...rescored.filter(e => !servedIds.has(e.id))].map((e, i) => [e.id, i + 1]));
+  }
 
-    return {
-      evidence: evidence.slice(0, k),
-      answer,
-      confidence,
-      nullness,
-      mode: 'volam',
-      parameters: { alpha, beta, gamma },
-      empathyProfile: typeof empathyProfile === 'string' ? empathyProfile : undefined
-    };
+  /**
+   * α goes to cosine, the re-ranker, or is split between them
+   */
+  private similarityWeights(alpha: number, options: RankingOptions): ScoringWeights {
+    switch (options.rerank ?? 'off') {
+      case 'replace':
+        return { cosine: 0, rerank: alpha };
+      case 'blend': {
+        const share = options.rerankBlend ?? DEFAULT_RERANK_BLEND;
+        return { cosine: alpha * (1 - share), rerank: alpha * share };
+      }
+      default:
+        return { cosine: alpha };
+    }
+  }
+
+  private candidatePoolSize(k: number, options: RankingOptions): number {
+    const defaultSize = this.isDiversifying(options) ? Math.max(k * DIVERSITY_POOL_FACTOR, 20) : Math.max(k * 2, 10);
+    return Math.max(k, options.candidatePool ?? defaultSize);
+  }
+
+  private isDiversifying(options: RankingOptions): boolean {
+    return (options.diversity ?? 0) > 0 || options.maxPerSource !== undefined;
   }
 
   /**
-   * Convert SearchResult to Evidence object
+   * Re-rank by MMR and per-source caps when options ask for it; otherwise keep the ranking
    */
-  private convertToEvidence(searchResult: any): Evidence {
-    const { document, score } = searchResult;
-    
-    // Calculate basic nullness based on confidence (inverse relationship)
-    // Higher similarity scores = lower nullness (more certainty)
-    const nullness = Math.max(0, Math.min(1, 1 - score));
+  private diversify(evidence: Evidence[], k: number, options: RankingOptions, candidates: Candidate[]): Evidence[] {
+    if (!this.isDiversifying(options)) {
+      return evidence;
+    }
+
+    // Vector store hits carry their embeddings; evidence is compared by those
+    const embeddings = new Map(candidates.map(({ document }) => [document.id, (document as { embedding?: number[] }).embedding]));
+    return diversifyEvidence(evidence, k, { diversity: options.diversity, maxPerSource: options.maxPerSource, embeddings });
+  }
+
+  /**
+   * Retrieve candidates in retrieval order; `score` is always the cosine
+   * similarity to the query as given, also for candidates only a variant found
+   */
+  private async retrieve(query: string, candidateK: number, options: RankingOptions): Promise<Candidate[]> {
+    const queryEmbedding = (await this.embeddingService.embed(query)).embedding;
+    if (!options.expand) {
+      return this.retrieveQuery(query, queryEmbedding, candidateK, options);
+    }
+
+    const domains = options.filter ? allowedFieldValues(options.filter, 'domain') : null;
+    const variants = await this.queryExpander.expand(query, { domains: domains ?? undefined });
+    const lists: Candidate[][] = [];
+    for (const variant of variants) {
+      const embedding = variant.source === 'original' ? queryEmbedding : (await this.embeddingService.embed(variant.query)).embedding;
+      lists.push(await this.retrieveQuery(variant.query, embedding, candidateK, options));
+    }
+
+    const fused = fuseRankings(
+      lists.map(list => list.map(({ document, score }) => ({ id: document.id, score }))),
+      { method: 'rrf' }
+    );
+
+    const candidates: Candidate[] = [];
+    for (const { id, score: fusedScore } of fused.slice(0, candidateK)) {
+      const found = lists.flatMap((list, i) => {
+        const rank = list.findIndex(c => c.document.id === id);
+        return rank >= 0 ? [{ variant: variants[i], candidate: list[rank], rank: rank + 1 }] : [];
+      });
+      const [{ variant, candidate }] = found;
+
+      // Variant scores are similarity to the variant; score against the original query instead
+      let score = candidate.score;
+      if (variant.source !== 'original') {
+        const embedding = (candidate.document as { embedding?: number[] }).embedding
+          ?? (await this.vectorStore.getDocument(id))?.embedding;
+        score = embedding ? this.cosineSimilarity(queryEmbedding, embedding) : 0;
+      }
+
+      candidates.push({
+        document: candidate.document,
+        score,
+        retrieval: {
+          ...candidate.retrieval,
+          mode: candidate.retrieval?.mode ?? 'dense',
+          fusedScore,
+          variants: found.map(({ variant, rank }) => ({ ...variant, rank }))
+        }
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * One query's candidates, scored by cosine similarity to its embedding
+   */
+  private async retrieveQuery(query: string, queryEmbedding: number[], candidateK: number, options: RankingOptions): Promise<Candidate[]> {
+    let mode = options.retrieval || 'dense';
+
+    if (mode !== 'dense' && this.lexicalIndex.getDocumentCount() === 0) {
+      mode = 'dense';
+    }
+
+    if (mode === 'dense') {
+      return this.vectorStore.search(queryEmbedding, candidateK, options.filter);
+    }
+
+    const lexicalResults = this.lexicalIndex.search(query, candidateK, options.filter);
+    const denseResults = mode === 'hybrid'
+      ? await this.vectorStore.search(queryEmbedding, candidateK, options.filter)
+      : [];
+
+    const lexicalList: RankedCandidate[] = lexicalResults.map(r => ({ id: r.document.id, score: r.score }));
+    const denseList: RankedCandidate[] = denseResults.map(r => ({ id: r.document.id, score: r.score }));
+    const ranking = mode === 'hybrid'
+      ? fuseRankings([denseList, lexicalList], { method: options.fusion || 'rrf' })
+      : lexicalList;
+
+    const candidates: Candidate[] = [];
+    for (const { id, score: fusedScore } of ranking.slice(0, candidateK)) {
+      const denseRank = denseResults.findIndex(r => r.document.id === id);
+      const lexicalRank = lexicalResults.findIndex(r => r.document.id === id);
+
+      // Lexical-only hits have no cosine score yet; look up their stored embedding
+      let document: LexicalDocument = denseRank >= 0 ? denseResults[denseRank].document : lexicalResults[lexicalRank].document;
+      let cosineScore = denseRank >= 0 ? denseResults[denseRank].score : undefined;
+      if (cosineScore === undefined) {
+        const stored = await this.vectorStore.getDocument(id);
+        if (!stored) {
+          continue; // BM25 index is ahead of the vector store
+        }
+        cosineScore = this.cosineSimilarity(queryEmbedding, stored.embedding);
+        document = stored;
+      }
+
+      candidates.push({
+        document,
+        score: cosineScore,
+        retrieval: {
+          mode,
+          denseRank: denseRank >= 0 ? denseRank + 1 : undefined,
+          lexicalRank: lexicalRank >= 0 ? lexicalRank + 1 : undefined,
+          lexicalScore: lexicalRank >= 0 ? lexicalResults[lexicalRank].score : undefined,
+          fusedScore
+        }
+      });
+    }
+
+    return candidates;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  /**
+   * Concepts NullnessService tracks, read once per ranking
+   */
+  private async getTrackedConcepts(): Promise<TrackedConcept[]> {
+    return this.nullnessService ? this.nullnessService.getTrackedConcepts() : [];
+  }
+
+  /**
+   * Convert SearchResult to Evidence object. Nullness comes from the chunk's
+   * text (stored at seed time, estimated for older indexes) and the tracked
+   * concepts the chunk supports, never from the similarity score.
+   */
+  private convertToEvidence(searchResult: any, concepts: TrackedConcept[]): Evidence {
+    const { document, score, retrieval } = searchResult;
+
+    const chunkNullness = typeof document.metadata.nullness === 'number'
+      ? document.metadata.nullness
+      : estimateChunkNullness({ content: document.content, tokens: document.metadata.tokens ?? 0, domain: document.metadata.domain });
+    const supported = supportedConcepts(document.content, concepts);
+    const conceptNullness = supportedConceptNullness(supported);
+    const nullness = mergeNullness(chunkNullness, conceptNullness);
     
     return {
       id: document.id,
@@ -142,25 +729,14 @@ export class RankingService {
         source: document.metadata.source,
         chunkIndex: document.metadata.chunkIndex,
         tokens: document.metadata.tokens,
-        ...document.metadata
+        ...document.metadata,
+        chunkNullness,
+        ...(conceptNullness !== undefined ? { concepts: supported.map(({ concept }) => concept), conceptNullness } : {}),
+        ...(retrieval ? { retrieval } : {})
       }
     };
   }
 
-  /**
-   * Calculate VOLaM score: α·cosine + β·(1−nullness) + γ·empathy_fit
-   */
-  private calculateVOLaMScore(
-    cosineScore: number,
-    nullness: number,
-    empathyFit: number,
-    alpha: number,
-    beta: number,
-    gamma: number
-  ): number {
-    return alpha * cosineScore + beta * (1 - nullness) + gamma * empathyFit;
-  }
-
   /**
    * Compose answer from top evidence pieces
    */
@@ -0,0 +1,19 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createReranker } from './reranker.js';
+
+describe('createReranker', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should default to the lexical re-ranker', () => {
+    expect(createReranker().name).toBe('lexical');
+  });
+
+  it('should reject unknown re-rankers from RERANKER', () => {
+    vi.stubEnv('RERANKER', 'onnx');
+
+    expect(() => createReranker()).toThrow('Unsupported reranker: onnx');
+  });
+});
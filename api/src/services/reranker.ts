@@ -0,0 +1,33 @@
+import { LexicalReranker } from './reranker/lexicalReranker.js';
+
+export type RerankerName = 'lexical';
+
+export interface RerankerConfig {
+  /** Defaults to RERANKER, then lexical */
+  reranker?: RerankerName;
+}
+
+/**
+ * Second-stage scorer that reads the query and each retrieved chunk together,
+ * rather than comparing independently computed embeddings. Implementations
+ * live in `reranker/`.
+ */
+export interface Reranker {
+  readonly name: RerankerName;
+  /** Relevance of each passage to the query, in [0, 1] and input order */
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+/**
+ * Create the configured re-ranker
+ */
+export function createReranker(config: RerankerConfig = {}): Reranker {
+  const reranker = config.reranker || process.env.RERANKER || 'lexical';
+
+  switch (reranker) {
+    case 'lexical':
+      return new LexicalReranker();
+    default:
+      throw new Error(`Unsupported reranker: ${reranker}. Use lexical.`);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { LexicalReranker } from './lexicalReranker.js';
+
+describe('LexicalReranker', () => {
+  const reranker = new LexicalReranker();
+
+  it('should score passages covering more of the query higher', async () => {
+    const scores = await reranker.score('null hypothesis significance testing', [
+      'Significance testing starts from a null hypothesis.',
+      'The null result was reported.',
+      'Hotel pools open at nine.'
+    ]);
+
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBe(0);
+  });
+
+  it('should weight rare query words above common ones', async () => {
+    const [rare, common] = await reranker.score('climate adaptation', [
+      'Adaptation funding for coastal towns.',
+      'Climate reports for coastal towns.',
+      'Climate data for farms.'
+    ]);
+
+    expect(rare).toBeGreaterThan(common);
+  });
+
+  it('should reward query words appearing side by side', async () => {
+    const [phrase, scattered] = await reranker.score('carbon tax', [
+      'A carbon tax on fuel.',
+      'Tax on carbon in fuel.'
+    ]);
+
+    expect(phrase).toBeCloseTo(1);
+    expect(scattered).toBeCloseTo(0.7);
+  });
+
+  it('should match plural and singular forms', async () => {
+    const [score] = await reranker.score('policy communities', ['Policies for each community.']);
+
+    expect(score).toBeCloseTo(0.7);
+  });
+
+  it('should score nothing for a query of stopwords', async () => {
+    expect(await reranker.score('what is the', ['what is the answer'])).toEqual([0]);
+  });
+});
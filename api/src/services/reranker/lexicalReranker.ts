@@ -0,0 +1,69 @@
+import type { Reranker } from '../reranker.js';
+import { tokenize } from '../bm25.js';
+
+// Share of the score from query words found anywhere vs query word pairs found side by side
+const COVERAGE_WEIGHT = 0.7;
+const PHRASE_WEIGHT = 0.3;
+
+/**
+ * Offline re-ranker scoring each (query, passage) pair by how much of the
+ * query the passage covers: query words weighted by their rarity among the
+ * passages being re-ranked, plus adjacent query word pairs that also appear
+ * adjacently in the passage. Plural and singular forms match.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const queryTerms = [...new Set(normalizedTokens(query))];
+    if (queryTerms.length === 0 || passages.length === 0) {
+      return passages.map(() => 0);
+    }
+
+    const passageTerms = passages.map(normalizedTokens);
+    const passageSets = passageTerms.map(terms => new Set(terms));
+
+    // Smoothed IDF over the pool; a word in every passage still counts a little
+    const idf = new Map(queryTerms.map(term => {
+      const frequency = passageSets.filter(terms => terms.has(term)).length;
+      return [term, Math.log(1 + (passages.length - frequency + 0.5) / (frequency + 0.5))];
+    }));
+    const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+    const queryPairs = pairs(normalizedTokens(query));
+
+    return passageTerms.map((terms, i) => {
+      const covered = queryTerms.reduce((sum, term) => sum + (passageSets[i].has(term) ? idf.get(term)! : 0), 0);
+      const coverage = totalWeight > 0 ? covered / totalWeight : 0;
+      if (queryPairs.size === 0) {
+        return coverage;
+      }
+
+      const passagePairs = pairs(terms);
+      const phrases = Array.from(queryPairs).filter(pair => passagePairs.has(pair)).length / queryPairs.size;
+      return COVERAGE_WEIGHT * coverage + PHRASE_WEIGHT * phrases;
+    });
+  }
+}
+
+function normalizedTokens(text: string): string[] {
+  return tokenize(text).map(singular);
+}
+
+function singular(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return token.slice(0, -3) + 'y';
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+function pairs(terms: string[]): Set<string> {
+  const result = new Set<string>();
+  for (let i = 1; i < terms.length; i++) {
+    result.add(`${terms[i - 1]} ${terms[i]}`);
+  }
+  return result;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { Evidence } from '../types/core.js';
+import {
+  ScoringRegistry,
+  certaintyComponent,
+  cosineComponent,
+  createDefaultScoringRegistry,
+  createScoringContext,
+  createSourceAuthorityComponent,
+  lexicalOverlapComponent,
+  recencyComponent
+} from './scoring.js';
+
+function evidence(overrides: Partial<Evidence> = {}): Evidence {
+  return {
+    id: 'doc1',
+    content: 'Null hypothesis testing in clinical trials',
+    score: 0,
+    cosineScore: 0.8,
+    nullness: 0.3,
+    empathyFit: 0.4,
+    source: 'trials.txt',
+    metadata: { domain: 'null-not-null', source: 'trials' },
+    ...overrides
+  };
+}
+
+describe('ScoringRegistry', () => {
+  const context = createScoringContext('null hypothesis');
+
+  it('should sum weighted features and record each contribution', () => {
+    const { score, contributions } = createDefaultScoringRegistry().score(evidence(), context, { cosine: 0.6, certainty: 0.3, empathy: 0.1 });
+
+    expect(score).toBeCloseTo(0.6 * 0.8 + 0.3 * 0.7 + 0.1 * 0.4);
+    expect(contributions.cosine).toEqual({ value: 0.8, weight: 0.6, contribution: expect.closeTo(0.48) });
+    expect(Object.keys(contributions)).toEqual(['cosine', 'certainty', 'empathy']);
+  });
+
+  it('should skip zero weights and clamp features into [0, 1]', () => {
+    const registry = new ScoringRegistry([cosineComponent, certaintyComponent]);
+
+    const { score, contributions } = registry.score(evidence({ cosineScore: 1.4 }), context, { cosine: 0.5, certainty: 0 });
+
+    expect(score).toBe(0.5);
+    expect(contributions).toEqual({ cosine: { value: 1, weight: 0.5, contribution: 0.5 } });
+  });
+
+  it('should let a registered component replace a built-in one', () => {
+    const registry = createDefaultScoringRegistry();
+    registry.register({ name: 'cosine', description: 'constant', score: () => 0.25 });
+
+    expect(registry.score(evidence(), context, { cosine: 1 }).score).toBe(0.25);
+    expect(registry.list().map(component => component.name)).toEqual(['cosine', 'certainty', 'empathy', 'rerank', 'recency', 'authority', 'lexical']);
+  });
+
+  it('should reject weights for unknown components', () => {
+    expect(() => createDefaultScoringRegistry().score(evidence(), context, { freshness: 0.1 })).toThrow('Unknown scoring component: freshness');
+  });
+});
+
+describe('built-in components', () => {
+  it('should score recency by age from publishedAt, neutral when undated', () => {
+    const context = createScoringContext('query', new Date('2026-01-01T00:00:00Z'));
+
+    expect(recencyComponent.score(evidence({ metadata: { publishedAt: '2026-01-01' } }), context)).toBeCloseTo(1);
+    expect(recencyComponent.score(evidence({ metadata: { publishedAt: '2025-01-01' } }), context)).toBeCloseTo(0.5);
+    expect(recencyComponent.score(evidence(), context)).toBe(0.5);
+  });
+
+  it('should rate authority by metadata, source, then domain', () => {
+    const authority = createSourceAuthorityComponent({ trials: 0.9, 'null-not-null': 0.6 });
+    const context = createScoringContext('query');
+
+    expect(authority.score(evidence({ metadata: { source: 'trials', authority: 0.2 } }), context)).toBe(0.2);
+    expect(authority.score(evidence(), context)).toBe(0.9);
+    expect(authority.score(evidence({ metadata: { source: 'blog', domain: 'null-not-null' } }), context)).toBe(0.6);
+    expect(authority.score(evidence({ metadata: { source: 'blog' } }), context)).toBe(0.5);
+  });
+
+  it('should measure the share of query terms in the evidence', () => {
+    expect(lexicalOverlapComponent.score(evidence(), createScoringContext('What is a null hypothesis in economics?'))).toBeCloseTo(2 / 3);
+    expect(lexicalOverlapComponent.score(evidence(), createScoringContext('what is it'))).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Scoring Components
+ * VOLaM scores are a weighted sum of normalized features, one per registered component
+ */
+
+import { Evidence } from '../types/core.js';
+import { tokenize } from './bm25.js';
+
+// Feature value for evidence a component has nothing to say about
+const NEUTRAL_FEATURE = 0.5;
+
+// Age at which the recency feature halves
+const RECENCY_HALF_LIFE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScoringContext {
+  query: string;
+  /** Query tokens as BM25 sees them */
+  queryTerms: string[];
+  now: Date;
+}
+
+export interface ScoringComponent {
+  name: string;
+  description: string;
+  /** Feature for one piece of evidence, in [0, 1] (clamped if outside) */
+  score(evidence: Evidence, context: ScoringContext): number;
+}
+
+/** Component name → weight; components left out do not contribute */
+export type ScoringWeights = Record<string, number>;
+
+export interface ScoreContribution {
+  /** Normalized feature the component produced */
+  value: number;
+  weight: number;
+  /** weight × value */
+  contribution: number;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  contributions: Record<string, ScoreContribution>;
+}
+
+export class ScoringRegistry {
+  private components = new Map<string, ScoringComponent>();
+
+  constructor(components: ScoringComponent[] = []) {
+    components.forEach(component => this.register(component));
+  }
+
+  /**
+   * Add a component, replacing any registered under the same name
+   */
+  register(component: ScoringComponent): void {
+    this.components.set(component.name, component);
+  }
+
+  get(name: string): ScoringComponent | undefined {
+    return this.components.get(name);
+  }
+
+  list(): ScoringComponent[] {
+    return Array.from(this.components.values());
+  }
+
+  /**
+   * Weighted sum of the weighted components' features
+   */
+  score(evidence: Evidence, context: ScoringContext, weights: ScoringWeights): ScoreBreakdown {
+    const contributions: Record<string, ScoreContribution> = {};
+    let score = 0;
+
+    for (const [name, weight] of Object.entries(weights)) {
+      const component = this.components.get(name);
+      if (!component) {
+        throw new Error(`Unknown scoring component: ${name}. Registered: ${Array.from(this.components.keys()).join(', ')}`);
+      }
+      if (weight === 0) {
+        continue;
+      }
+
+      const value = clamp(component.score(evidence, context));
+      contributions[name] = { value, weight, contribution: weight * value };
+      score += weight * value;
+    }
+
+    return { score, contributions };
+  }
+}
+
+/**
+ * Build the context components score against
+ */
+export function createScoringContext(query: string, now: Date = new Date()): ScoringContext {
+  return { query, queryTerms: tokenize(query), now };
+}
+
+export const cosineComponent: ScoringComponent = {
+  name: 'cosine',
+  description: 'Embedding similarity to the query',
+  score: evidence => evidence.cosineScore
+};
+
+export const certaintyComponent: ScoringComponent = {
+  name: 'certainty',
+  description: '1 − nullness of the chunk and the concepts it supports',
+  score: evidence => 1 - evidence.nullness
+};
+
+export const empathyComponent: ScoringComponent = {
+  name: 'empathy',
+  description: 'Fit with the empathy profile\'s stakeholder weights',
+  score: evidence => evidence.empathyFit
+};
+
+export const rerankComponent: ScoringComponent = {
+  name: 'rerank',
+  description: 'Second-stage re-ranker relevance of the chunk to the query',
+  score: evidence => evidence.metadata.rerankScore ?? 0
+};
+
+export const recencyComponent: ScoringComponent = {
+  name: 'recency',
+  description: `Halves every ${RECENCY_HALF_LIFE_DAYS} days since metadata.publishedAt; neutral when undated`,
+  score: (evidence, context) => {
+    const published = Date.parse(evidence.metadata.publishedAt);
+    if (isNaN(published)) {
+      return NEUTRAL_FEATURE;
+    }
+    const ageDays = Math.max(0, context.now.getTime() - published) / DAY_MS;
+    return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  }
+};
+
+/**
+ * Authority per source file or domain; metadata.authority overrides both
+ */
+export function createSourceAuthorityComponent(authorities: Record<string, number> = {}): ScoringComponent {
+  return {
+    name: 'authority',
+    description: 'Trust in the evidence source; neutral when unrated',
+    score: evidence => {
+      const { authority, source, domain } = evidence.metadata;
+      if (typeof authority === 'number') {
+        return authority;
+      }
+      return authorities[source] ?? authorities[domain] ?? NEUTRAL_FEATURE;
+    }
+  };
+}
+
+export const lexicalOverlapComponent: ScoringComponent = {
+  name: 'lexical',
+  description: 'Share of query terms that appear in the evidence',
+  score: (evidence, context) => {
+    const terms = new Set(context.queryTerms);
+    if (terms.size === 0) {
+      return 0;
+    }
+    const words = new Set(tokenize(evidence.content));
+    return Array.from(terms).filter(term => words.has(term)).length / terms.size;
+  }
+};
+
+/**
+ * Registry with every built-in component
+ */
+export function createDefaultScoringRegistry(): ScoringRegistry {
+  return new ScoringRegistry([
+    cosineComponent,
+    certaintyComponent,
+    empathyComponent,
+    rerankComponent,
+    recencyComponent,
+    createSourceAuthorityComponent(),
+    lexicalOverlapComponent
+  ]);
+}
+
+function clamp(value: number): number {
+  return isNaN(value) ? 0 : Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BpeTokenizer, EstimatingTokenizer, loadTokenizer } from './tokenizer.js';
+
+// Every single byte, then merges building up " the" ("he" ranks after "th")
+const MERGES = ['th', 'he', 'the', ' the'];
+
+function fixtureVocab(): string {
+  const tokens = Array.from({ length: 256 }, (_, byte) => Buffer.from([byte]));
+  tokens.push(...MERGES.map(merge => Buffer.from(merge, 'latin1')));
+  return tokens.map((bytes, rank) => `${bytes.toString('base64')} ${rank}`).join('\n') + '\n';
+}
+
+describe('BpeTokenizer', () => {
+  const tokenizer = BpeTokenizer.fromTiktoken('fixture', fixtureVocab());
+
+  it('should merge the lowest-ranked pair first', () => {
+    // "th" (256) wins over "he" (257), leaving "h" + "the"
+    expect(tokenizer.encode('hthe')).toEqual([104, 258]);
+    expect(tokenizer.encode('the')).toEqual([258]);
+  });
+
+  it('should split text into pieces before merging', () => {
+    expect(tokenizer.encode('the the')).toEqual([258, 259]);
+    expect(tokenizer.encode('thethe')).toEqual([258, 258]);
+    // Digits group in threes
+    expect(tokenizer.count('1234567')).toBe(7);
+    expect(tokenizer.encode("they're").slice(-3)).toEqual([39, 114, 101]);
+  });
+
+  it('should round-trip text through encode and decode', () => {
+    for (const text of ['the cat sat on the mat', 'Ünïcödé — naïve café ☕', 'line one\n\n  line two\t']) {
+      expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+    }
+    expect(tokenizer.count('é')).toBe(2);
+  });
+
+  it('should truncate on a token boundary', () => {
+    expect(tokenizer.truncate('the cat', 10)).toBe('the cat');
+    expect(tokenizer.truncate('the cat', 3)).toBe('the c');
+    expect(tokenizer.count(tokenizer.truncate('the the the', 2))).toBe(2);
+  });
+
+  it('should drop a multi-byte character cut in half', () => {
+    expect(tokenizer.truncate('aé', 2)).toBe('a');
+  });
+
+  it('should reject malformed vocab lines', () => {
+    expect(() => BpeTokenizer.fromTiktoken('broken', 'dGhl notanumber\n')).toThrow('Malformed vocab line');
+  });
+});
+
+describe('loadTokenizer', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tokenizer-test-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load a .tiktoken file named after its vocabulary', async () => {
+    const vocabPath = path.join(tempDir, 'fixture.tiktoken');
+    await fs.writeFile(vocabPath, fixtureVocab());
+
+    const tokenizer = loadTokenizer(vocabPath);
+
+    expect(tokenizer.name).toBe('fixture');
+    expect(tokenizer.count('the the')).toBe(2);
+  });
+
+  it('should fall back to the estimate when the vocab is missing', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const tokenizer = loadTokenizer(path.join(tempDir, 'missing.tiktoken'));
+
+    expect(tokenizer).toBeInstanceOf(EstimatingTokenizer);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('tokenizer:fetch'));
+  });
+
+  it('should use the estimate without warning when disabled', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const tokenizer = loadTokenizer('none');
+
+    expect(tokenizer.name).toBe('estimate-4-chars');
+    expect(tokenizer.count('abcdefghi')).toBe(3);
+    expect(tokenizer.truncate('abcdefghi', 2)).toBe('abcdefgh');
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tokenizer
+ * Byte-level BPE compatible with OpenAI's cl100k_base, loaded from a local
+ * `.tiktoken` vocab file, so chunk sizes and embedding input limits are counted
+ * in the same tokens the embedding model sees.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Tokenizer {
+  /** Vocabulary name, recorded with chunker settings */
+  readonly name: string;
+  count(text: string): number;
+  /** Cut text to at most maxTokens tokens, on a token boundary */
+  truncate(text: string, maxTokens: number): string;
+}
+
+export const DEFAULT_VOCAB_PATH = path.join(process.cwd(), 'data', 'tokenizers', 'cl100k_base.tiktoken');
+
+// cl100k_base pre-tokenization: contractions, words with one leading non-letter,
+// up to three digits, punctuation runs, newlines and other whitespace
+const CL100K_PATTERN =
+  /(?:'s|'t|'re|'ve|'m|'ll|'d)|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/giu;
+
+/**
+ * Byte pair encoder over a tiktoken rank table. Tokens are looked up by their
+ * bytes, held as latin1 strings so each byte maps to one character.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private decoder: Map<number, Buffer> = new Map();
+
+  constructor(
+    readonly name: string,
+    private ranks: Map<string, number>,
+    private pattern: RegExp = CL100K_PATTERN
+  ) {
+    for (const [bytes, rank] of ranks) {
+      this.decoder.set(rank, Buffer.from(bytes, 'latin1'));
+    }
+  }
+
+  /**
+   * Parse a `.tiktoken` file: one `<base64 token bytes> <rank>` pair per line
+   */
+  static fromTiktoken(name: string, contents: string): BpeTokenizer {
+    const ranks = new Map<string, number>();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      const [token, rank] = line.split(' ');
+      const value = parseInt(rank, 10);
+      if (!token || isNaN(value)) {
+        throw new Error(`Malformed vocab line: ${line.slice(0, 40)}`);
+      }
+      ranks.set(Buffer.from(token, 'base64').toString('latin1'), value);
+    }
+    return new BpeTokenizer(name, ranks);
+  }
+
+  /**
+   * Token IDs for text, without special-token handling
+   */
+  encode(text: string): number[] {
+    const tokens: number[] = [];
+    for (const match of text.matchAll(this.pattern)) {
+      const piece = Buffer.from(match[0], 'utf-8').toString('latin1');
+      const rank = this.ranks.get(piece);
+      if (rank !== undefined) {
+        tokens.push(rank);
+      } else {
+        tokens.push(...this.mergePiece(piece));
+      }
+    }
+    return tokens;
+  }
+
+  decode(tokens: number[]): string {
+    return Buffer.concat(tokens.map(token => {
+      const bytes = this.decoder.get(token);
+      if (!bytes) {
+        throw new Error(`Unknown token ${token}`);
+      }
+      return bytes;
+    })).toString('utf-8');
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+    // A cut inside a multi-byte character decodes to U+FFFD; drop it
+    return this.decode(tokens.slice(0, maxTokens)).replace(/\uFFFD+$/, '');
+  }
+
+  /**
+   * Merge the lowest-ranked adjacent pair until no pair is in the vocabulary
+   */
+  private mergePiece(piece: string): number[] {
+    const parts = piece.split('');
+
+    for (;;) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i] + parts[i + 1]);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex === -1) {
+        break;
+      }
+      parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+    }
+
+    return parts.map(part => {
+      const rank = this.ranks.get(part);
+      if (rank === undefined) {
+        throw new Error(`Vocabulary has no token for byte 0x${part.charCodeAt(0).toString(16)}`);
+      }
+      return rank;
+    });
+  }
+}
+
+/**
+ * Fallback when no vocab file is available: 1 token ≈ 4 characters
+ */
+export class EstimatingTokenizer implements Tokenizer {
+  readonly name = 'estimate-4-chars';
+
+  count(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    return text.substring(0, maxTokens * 4);
+  }
+}
+
+let sharedTokenizer: Tokenizer | null = null;
+
+/**
+ * The shared tokenizer, loaded once from TOKENIZER_VOCAB_PATH or
+ * data/tokenizers/cl100k_base.tiktoken. Without a vocab file (or with
+ * TOKENIZER_VOCAB_PATH=none) token counts fall back to an estimate.
+ */
+export function getTokenizer(): Tokenizer {
+  if (!sharedTokenizer) {
+    sharedTokenizer = loadTokenizer(process.env.TOKENIZER_VOCAB_PATH || DEFAULT_VOCAB_PATH);
+  }
+  return sharedTokenizer;
+}
+
+/**
+ * Load a BPE tokenizer from a `.tiktoken` file, or the estimate if it is missing
+ */
+export function loadTokenizer(vocabPath: string): Tokenizer {
+  if (vocabPath === 'none') {
+    return new EstimatingTokenizer();
+  }
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(vocabPath, 'utf-8');
+  } catch {
+    console.warn(`No tokenizer vocab at ${vocabPath}; estimating 4 characters per token. Run npm run tokenizer:fetch for exact counts.`);
+    return new EstimatingTokenizer();
+  }
+
+  return BpeTokenizer.fromTiktoken(path.basename(vocabPath, '.tiktoken'), contents);
+}
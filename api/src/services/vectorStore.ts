@@ -1,8 +1,12 @@
 /**
  * Abstract Vector Store Interface
- * Provides pluggable backend support for FAISS, Chroma, and SQLite
+ * Provides pluggable backend support for FAISS, Chroma, SQLite, in-memory, and sharded search
  */
 
+import type { MetadataFilter } from './vectorStore/filter.js';
+
+export type { MetadataFilter } from './vectorStore/filter.js';
+
 export interface VectorDocument {
   id: string;
   content: string;
@@ -22,10 +26,87 @@ export interface SearchResult {
   distance: number;
 }
 
+/**
+ * Index structure for the FAISS backend
+ * - flat: exact inner-product search (default)
+ * - ivf: inverted file with `nlist` cells, trained on the first batch added
+ * - hnsw: graph index with `m` neighbours per node
+ *
+ * `quantization` compresses the vectors held by any of these: sq8 stores one
+ * byte per dimension, pq stores `pqM` bytes per vector. Quantized indexes are
+ * trained on the first batch added, and the top candidates are re-scored
+ * against the full-precision embeddings kept with the documents.
+ */
+export interface VectorIndexOptions {
+  type: 'flat' | 'ivf' | 'hnsw';
+  /** IVF: number of clusters (default 100); searches probe one cluster, as faiss-node cannot set nprobe */
+  nlist?: number;
+  /** HNSW: neighbours per graph node (default 32); searches use FAISS's default efSearch */
+  m?: number;
+  /** Vector encoding inside the index (default none: float32) */
+  quantization?: 'none' | 'sq8' | 'pq';
+  /** PQ: sub-quantizers per vector, must divide the dimensions (default 64) */
+  pqM?: number;
+  /** Quantized indexes: multiple of k re-scored at full precision (default 4) */
+  rescore?: number;
+}
+
+/**
+ * Problems verify() can detect
+ * - unreadable: persisted files exist but could not be loaded
+ * - count_mismatch: the index and the document metadata disagree on size
+ * - dimension_mismatch: the index or a stored embedding does not match config.dimensions
+ * - missing_vector: a document has no vector in the index
+ * - orphaned_vector: a vector points at a document that no longer exists
+ */
+export type IntegrityIssueType =
+  | 'unreadable'
+  | 'count_mismatch'
+  | 'dimension_mismatch'
+  | 'missing_vector'
+  | 'orphaned_vector';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  message: string;
+  /** Affected document IDs, for per-document issues */
+  ids?: string[];
+}
+
+export interface IntegrityReport {
+  ok: boolean;
+  documentCount: number;
+  vectorCount: number;
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Produce fresh embeddings for document contents, in the same order
+ */
+export type ReembedFunction = (contents: string[]) => Promise<number[][]>;
+
+/**
+ * Layout for the sharded backend: one store per value of a metadata field,
+ * kept under `indexPath/<shard>/`
+ */
+export interface ShardingOptions {
+  /** Backend each shard uses (default 'faiss') */
+  backend?: 'faiss' | 'sqlite' | 'memory';
+  /** Metadata field that assigns documents to shards (default 'domain') */
+  field?: string;
+  /**
+   * Rescale each shard's scores before merging (default 'none'). Shards share
+   * one embedding space, so this lifts weak shards' best hits to strong ones'.
+   */
+  normalization?: 'none' | 'minmax' | 'zscore';
+}
+
 export interface VectorStoreConfig {
-  backend: 'faiss' | 'chroma' | 'sqlite';
+  backend: 'faiss' | 'chroma' | 'sqlite' | 'memory' | 'sharded';
   dimensions: number;
   indexPath?: string;
+  index?: VectorIndexOptions;
+  sharding?: ShardingOptions;
   connectionString?: string;
   collectionName?: string;
 }
@@ -49,9 +130,22 @@ export abstract class VectorStore {
   abstract addDocuments(documents: VectorDocument[]): Promise<void>;
 
   /**
-   * Search for similar documents
+   * Delete documents by ID, returning how many were removed
+   */
+  abstract deleteDocuments(ids: string[]): Promise<number>;
+
+  /**
+   * Add documents, replacing any stored documents with the same IDs
+   */
+  async upsertDocuments(documents: VectorDocument[]): Promise<void> {
+    await this.deleteDocuments(documents.map(doc => doc.id));
+    await this.addDocuments(documents);
+  }
+
+  /**
+   * Search for similar documents, optionally restricted to matching metadata
    */
-  abstract search(queryEmbedding: number[], k: number): Promise<SearchResult[]>;
+  abstract search(queryEmbedding: number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]>;
 
   /**
    * Get document by ID
@@ -83,6 +177,52 @@ export abstract class VectorStore {
    */
   abstract close(): Promise<void>;
 
+  /**
+   * Check that the persisted index and document metadata agree
+   */
+  abstract verify(): Promise<IntegrityReport>;
+
+  /**
+   * Fix the issues verify() reports: rebuild the index from stored documents,
+   * dropping orphaned vectors, then re-embed documents whose embeddings have the
+   * wrong dimensions (or delete them when no re-embedder is given)
+   */
+  async repair(reembed?: ReembedFunction): Promise<IntegrityReport> {
+    const report = await this.verify();
+    if (report.ok) {
+      return report;
+    }
+
+    await this.rebuild();
+
+    const damagedIds = [
+      ...new Set(
+        report.issues
+          .filter(issue => issue.type === 'dimension_mismatch')
+          .flatMap(issue => issue.ids || [])
+      )
+    ];
+
+    if (damagedIds.length > 0) {
+      if (reembed) {
+        const documents = (await Promise.all(damagedIds.map(id => this.getDocument(id))))
+          .filter((doc): doc is VectorDocument => doc !== null);
+        const embeddings = await reembed(documents.map(doc => doc.content));
+        await this.upsertDocuments(documents.map((doc, i) => ({ ...doc, embedding: embeddings[i] })));
+      } else {
+        await this.deleteDocuments(damagedIds);
+      }
+    }
+
+    return this.verify();
+  }
+
+  /**
+   * Rebuild derived index structures from the stored documents
+   * Backends without a separate index have nothing to rebuild
+   */
+  protected async rebuild(): Promise<void> {}
+
   /**
    * Check if the store is initialized
    */
@@ -113,8 +253,21 @@ export class VectorStoreFactory {
       }
       case 'chroma':
         throw new Error('Chroma vector store not implemented yet');
-      case 'sqlite':
-        throw new Error('SQLite vector store not implemented yet');
+      case 'sqlite': {
+        const { SqliteVectorStore } = await import('./vectorStore/sqliteStore.js');
+        store = new SqliteVectorStore(config);
+        break;
+      }
+      case 'memory': {
+        const { MemoryVectorStore } = await import('./vectorStore/memoryStore.js');
+        store = new MemoryVectorStore(config);
+        break;
+      }
+      case 'sharded': {
+        const { ShardedVectorStore } = await import('./vectorStore/shardedStore.js');
+        store = new ShardedVectorStore(config);
+        break;
+      }
       default:
         throw new Error(`Unsupported vector store backend: ${config.backend}`);
     }
@@ -0,0 +1,70 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { readDocumentSidecar, writeDocumentSidecar } from './documentSidecar.js';
+import { VectorDocument } from '../vectorStore.js';
+
+describe('document sidecar', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  const documents: VectorDocument[] = [
+    {
+      id: 'doc1',
+      content: 'Ünïcödé content survives the round trip.',
+      embedding: [0.25, -0.5, 0.125],
+      metadata: { source: 'a.txt', domain: 'hotel', chunkIndex: 0, tokens: 12 }
+    },
+    {
+      id: 'doc2',
+      content: 'An embedding with the wrong length is kept as is.',
+      embedding: [1],
+      metadata: { source: 'b.txt', domain: 'web-dev', chunkIndex: 1, tokens: 9 }
+    }
+  ];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doc-sidecar-'));
+    filePath = path.join(tempDir, 'faiss.index.docs.bin');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip documents and embeddings', async () => {
+    await writeDocumentSidecar(filePath, documents);
+
+    expect(await readDocumentSidecar(filePath)).toEqual(documents);
+  });
+
+  it('should be smaller than the same documents as JSON', async () => {
+    const large: VectorDocument[] = Array.from({ length: 20 }, (_, i) => ({
+      ...documents[0],
+      id: `doc-${i}`,
+      embedding: Array.from({ length: 256 }, (_, j) => Math.sin(i + j))
+    }));
+
+    await writeDocumentSidecar(filePath, large);
+
+    const { size } = await fs.stat(filePath);
+    expect(size).toBeLessThan(JSON.stringify(large).length / 3);
+  });
+
+  it('should reject files that are not sidecars', async () => {
+    await fs.writeFile(filePath, '{"documents": []}');
+
+    await expect(readDocumentSidecar(filePath)).rejects.toThrow('is not a document sidecar');
+  });
+
+  it('should report truncated files', async () => {
+    await writeDocumentSidecar(filePath, documents);
+    const raw = await fs.readFile(filePath);
+    await fs.writeFile(filePath, raw.subarray(0, raw.length - 2));
+
+    await expect(readDocumentSidecar(filePath)).rejects.toThrow('is truncated: read 1 of 2 documents');
+  });
+});
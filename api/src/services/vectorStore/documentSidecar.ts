@@ -0,0 +1,87 @@
+import * as fs from 'fs/promises';
+
+import { VectorDocument } from '../vectorStore.js';
+
+// File signature and layout version
+const MAGIC = 'VDOC';
+const FORMAT_VERSION = 1;
+const HEADER_BYTES = 12;
+
+/**
+ * Write documents to a compact binary file.
+ *
+ * Layout (little endian): `VDOC`, uint32 version, uint32 count, then per
+ * document a uint32-prefixed UTF-8 JSON record (id, content, metadata) and a
+ * uint32-prefixed run of float32 embedding values. Embeddings take 4 bytes
+ * per value instead of the 10-20 characters JSON needs.
+ */
+export async function writeDocumentSidecar(filePath: string, documents: VectorDocument[]): Promise<void> {
+  const records = documents.map(({ embedding, ...rest }) => ({
+    json: Buffer.from(JSON.stringify(rest), 'utf-8'),
+    embedding
+  }));
+  const size = records.reduce((sum, record) => sum + 8 + record.json.length + record.embedding.length * 4, HEADER_BYTES);
+
+  const buffer = Buffer.alloc(size);
+  buffer.write(MAGIC, 0, 'ascii');
+  buffer.writeUInt32LE(FORMAT_VERSION, 4);
+  buffer.writeUInt32LE(records.length, 8);
+
+  let offset = HEADER_BYTES;
+  for (const record of records) {
+    offset = buffer.writeUInt32LE(record.json.length, offset);
+    offset += record.json.copy(buffer, offset);
+    offset = buffer.writeUInt32LE(record.embedding.length, offset);
+    for (const value of record.embedding) {
+      offset = buffer.writeFloatLE(value, offset);
+    }
+  }
+
+  await fs.writeFile(filePath, buffer);
+}
+
+/**
+ * Read documents written by writeDocumentSidecar()
+ */
+export async function readDocumentSidecar(filePath: string): Promise<VectorDocument[]> {
+  const buffer = await fs.readFile(filePath);
+
+  if (buffer.length < HEADER_BYTES || buffer.toString('ascii', 0, 4) !== MAGIC) {
+    throw new Error(`${filePath} is not a document sidecar`);
+  }
+  const version = buffer.readUInt32LE(4);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`${filePath} has unsupported document sidecar version ${version}`);
+  }
+
+  const count = buffer.readUInt32LE(8);
+  const documents: VectorDocument[] = [];
+  let offset = HEADER_BYTES;
+
+  try {
+    for (let i = 0; i < count; i++) {
+      const jsonLength = buffer.readUInt32LE(offset);
+      offset += 4;
+      const record = JSON.parse(buffer.toString('utf-8', offset, offset + jsonLength));
+      offset += jsonLength;
+
+      const embeddingLength = buffer.readUInt32LE(offset);
+      offset += 4;
+      const embedding: number[] = new Array(embeddingLength);
+      for (let j = 0; j < embeddingLength; j++) {
+        embedding[j] = buffer.readFloatLE(offset + j * 4);
+      }
+      offset += embeddingLength * 4;
+
+      documents.push({ ...record, embedding });
+    }
+  } catch (error) {
+    // Reads past the end of a truncated file raise RangeError
+    if (error instanceof RangeError) {
+      throw new Error(`${filePath} is truncated: read ${documents.length} of ${count} documents`);
+    }
+    throw error;
+  }
+
+  return documents;
+}
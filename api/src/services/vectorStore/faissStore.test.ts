@@ -0,0 +1,415 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { readDocumentSidecar, writeDocumentSidecar } from './documentSidecar.js';
+import { FaissVectorStore } from './faissStore.js';
+import { VectorDocument, VectorIndexOptions } from '../vectorStore.js';
+
+// The shared test setup mocks the VectorStore base class; this suite needs the real one
+vi.unmock('../vectorStore.js');
+
+// Brute-force stand-in for faiss-node so index bookkeeping runs against real search results
+vi.mock('faiss-node', () => {
+  // Indexes "written" to disk, keyed by path
+  const written = new Map<string, Index>();
+
+  class Index {
+    private vectors: number[][] = [];
+    private trained: boolean;
+    // Quantized descriptors keep vectors on a coarse grid, so their scores are approximate
+    private lossy: boolean;
+
+    constructor(private dimensions: number, public descriptor = 'Flat') {
+      this.lossy = /SQ8|PQ/.test(descriptor);
+      this.trained = !descriptor.startsWith('IVF') && !this.lossy;
+    }
+
+    static fromFactory(dimensions: number, descriptor: string): Index {
+      return new Index(dimensions, descriptor);
+    }
+
+    static read(fname: string): Index {
+      const index = written.get(fname);
+      if (!index) {
+        throw new Error('No index on disk');
+      }
+      return index;
+    }
+
+    ntotal(): number {
+      return this.vectors.length;
+    }
+
+    getDimension(): number {
+      return this.dimensions;
+    }
+
+    isTrained(): boolean {
+      return this.trained;
+    }
+
+    train(): void {
+      this.trained = true;
+    }
+
+    add(flat: number[]): void {
+      if (!this.trained) {
+        throw new Error('Index not trained');
+      }
+      for (let i = 0; i < flat.length; i += this.dimensions) {
+        const vector = flat.slice(i, i + this.dimensions);
+        this.vectors.push(this.lossy ? vector.map(val => Math.round(val * 4) / 4) : vector);
+      }
+    }
+
+    search(query: number[], k: number) {
+      const scored = this.vectors
+        .map((vector, label) => ({ label, score: vector.reduce((sum, val, i) => sum + val * query[i], 0) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      return { distances: scored.map(s => s.score), labels: scored.map(s => s.label) };
+    }
+
+    write(fname: string): void {
+      written.set(fname, this);
+    }
+  }
+
+  class IndexFlatIP extends Index {}
+
+  return { default: { Index, IndexFlatIP, MetricType: { METRIC_INNER_PRODUCT: 0 } } };
+});
+
+describe('FaissVectorStore', () => {
+  let vectorStore: FaissVectorStore;
+
+  const documents: VectorDocument[] = [
+    {
+      id: 'doc1',
+      content: 'Climate change is a global issue.',
+      embedding: [1, 0, 0, 0],
+      metadata: { source: 'climate.txt', domain: 'climate', chunkIndex: 0, tokens: 80 }
+    },
+    {
+      id: 'doc2',
+      content: 'Renewable energy is sustainable.',
+      embedding: [0, 1, 0, 0],
+      metadata: { source: 'energy.txt', domain: 'energy', chunkIndex: 1, tokens: 70 }
+    },
+    {
+      id: 'doc3',
+      content: 'Solar panels generate electricity.',
+      embedding: [0, 0.5, 0.5, 0],
+      metadata: { source: 'solar.txt', domain: 'energy', chunkIndex: 2, tokens: 75 }
+    }
+  ];
+
+  beforeEach(async () => {
+    vectorStore = new FaissVectorStore({
+      backend: 'faiss',
+      dimensions: 4,
+      indexPath: '/tmp/faiss-store-test.index'
+    });
+    await vectorStore.initialize();
+    await vectorStore.addDocuments(documents);
+  });
+
+  it('should keep top-k recall under a selective metadata filter', async () => {
+    // Twenty near-duplicates of the query outrank the only matching document
+    await vectorStore.addDocuments(
+      Array.from({ length: 20 }, (_, i) => ({
+        ...documents[0],
+        id: `climate-${i}`,
+        embedding: [1, 0.01 * i, 0, 0]
+      }))
+    );
+
+    const results = await vectorStore.search([1, 0.1, 0, 0], 2, { field: 'domain', equals: 'energy' });
+
+    expect(results.map(r => r.document.id)).toEqual(['doc2', 'doc3']);
+  });
+
+  it('should delete documents and skip their vectors in search', async () => {
+    expect(await vectorStore.deleteDocuments(['doc1', 'missing'])).toBe(1);
+
+    expect(await vectorStore.getDocumentCount()).toBe(2);
+    expect(await vectorStore.getDocument('doc1')).toBeNull();
+
+    const results = await vectorStore.search([1, 0, 0, 0], 2);
+    expect(results.map(r => r.document.id)).toEqual(['doc2', 'doc3']);
+  });
+
+  it('should still return k results when tombstoned vectors rank highest', async () => {
+    await vectorStore.addDocuments([
+      { ...documents[0], id: 'doc4', embedding: [0.9, 0.1, 0, 0] }
+    ]);
+    await vectorStore.deleteDocuments(['doc1']);
+
+    const results = await vectorStore.search([1, 0, 0, 0], 2);
+    expect(results.map(r => r.document.id)).toEqual(['doc4', 'doc2']);
+  });
+
+  it('should not leave stale vectors behind when an id is added again', async () => {
+    await vectorStore.addDocuments([{ ...documents[1], embedding: [0, 0, 0, 1] }]);
+
+    const results = await vectorStore.search([0, 1, 0, 0], 3);
+    expect(results.filter(r => r.document.id === 'doc2')).toHaveLength(1);
+    expect(results[0].document.id).toBe('doc3');
+  });
+
+  it('should upsert documents', async () => {
+    await vectorStore.upsertDocuments([
+      { ...documents[2], content: 'Updated solar content', embedding: [0, 0, 1, 0] }
+    ]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    const results = await vectorStore.search([0, 0, 1, 0], 1);
+    expect(results[0].document.content).toBe('Updated solar content');
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('should keep search consistent after compaction', async () => {
+    // Deleting two of three vectors crosses the compaction threshold
+    await vectorStore.deleteDocuments(['doc1', 'doc2']);
+    await vectorStore.addDocuments([{ ...documents[0], id: 'doc5' }]);
+
+    const results = await vectorStore.search([1, 0, 0, 0], 5);
+    expect(results.map(r => r.document.id)).toEqual(['doc5', 'doc3']);
+  });
+
+  describe('approximate index types', () => {
+    const corpus = (count: number): VectorDocument[] =>
+      Array.from({ length: count }, (_, i) => ({
+        ...documents[0],
+        id: `chunk-${i}`,
+        embedding: [Math.cos(i), Math.sin(i), 0, 0]
+      }));
+
+    it('should train an IVF index on the first batch', async () => {
+      const store = new FaissVectorStore({
+        backend: 'faiss',
+        dimensions: 4,
+        indexPath: '/tmp/faiss-store-ivf-test.index',
+        index: { type: 'ivf', nlist: 4 }
+      });
+      await store.initialize();
+
+      await expect(store.addDocuments(corpus(3))).rejects.toThrow('needs at least 4 vectors to train');
+      expect(await store.getDocumentCount()).toBe(0);
+
+      await store.addDocuments(corpus(8));
+      const results = await store.search([1, 0, 0, 0], 1);
+      expect(results[0].document.id).toBe('chunk-0');
+    });
+
+    it('should persist the index type and rebuild it on load', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'faiss-store-'));
+      const indexPath = path.join(tempDir, 'faiss.index');
+
+      const writer = new FaissVectorStore({
+        backend: 'faiss',
+        dimensions: 4,
+        indexPath,
+        index: { type: 'hnsw', m: 16 }
+      });
+      await writer.initialize();
+      await writer.addDocuments(corpus(5));
+      await writer.save();
+
+      const sidecar = JSON.parse(await fs.readFile(indexPath + '.metadata.json', 'utf-8'));
+      expect(sidecar.index).toEqual({
+        type: 'hnsw', nlist: 100, m: 16, quantization: 'none', pqM: 64, rescore: 4
+      });
+
+      // No index options configured: the sidecar decides
+      const reader = new FaissVectorStore({ backend: 'faiss', dimensions: 4, indexPath });
+      await reader.initialize();
+
+      expect(reader.getIndexOptions().type).toBe('hnsw');
+      expect(await reader.getDocumentCount()).toBe(5);
+
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should reject search parameters faiss-node cannot set', () => {
+      // Options older configs still carry, no longer part of VectorIndexOptions
+      const create = (index: object) => new FaissVectorStore({
+        backend: 'faiss',
+        dimensions: 4,
+        indexPath: '/tmp/faiss-store-params-test.index',
+        index: index as VectorIndexOptions
+      });
+
+      expect(() => create({ type: 'ivf', nprobe: 8 })).toThrow('Unsupported index options: nprobe');
+      expect(() => create({ type: 'hnsw', efSearch: 64 })).toThrow('Unsupported index options: efSearch');
+    });
+  });
+
+  describe('quantized indexes', () => {
+    // Against [1, 1, 0, 0] the first is closer, but the coarse quantized copy ranks the second higher
+    const nearQuery: VectorDocument[] = [
+      { ...documents[0], id: 'exact-best', embedding: [0.62, 0.785, 0, 0] },
+      { ...documents[0], id: 'quantized-best', embedding: [0.9, 0.436, 0, 0] },
+      { ...documents[0], id: 'far', embedding: [0, 0, 1, 0] }
+    ];
+
+    const createQuantized = async (index: VectorIndexOptions, indexPath = '/tmp/faiss-store-sq8-test.index') => {
+      const store = new FaissVectorStore({ backend: 'faiss', dimensions: 4, indexPath, index });
+      await store.initialize();
+      return store;
+    };
+
+    it('should re-score quantized candidates at full precision', async () => {
+      const store = await createQuantized({ type: 'flat', quantization: 'sq8' });
+      await store.addDocuments(nearQuery);
+
+      const results = await store.search([1, 1, 0, 0], 1);
+
+      expect(results[0].document.id).toBe('exact-best');
+      expect(results[0].score).toBeCloseTo(0.9932, 3);
+    });
+
+    it('should keep the quantized order without a rescoring pool', async () => {
+      const store = await createQuantized({ type: 'flat', quantization: 'sq8', rescore: 1 });
+      await store.addDocuments(nearQuery);
+
+      const results = await store.search([1, 1, 0, 0], 1);
+
+      expect(results[0].document.id).toBe('quantized-best');
+    });
+
+    it('should need enough vectors to train product quantization', async () => {
+      const store = await createQuantized({ type: 'flat', quantization: 'pq', pqM: 2 });
+
+      await expect(store.addDocuments(nearQuery)).rejects.toThrow('PQ index needs at least 256 vectors to train');
+    });
+
+    it('should reject sub-quantizers that do not divide the dimensions', async () => {
+      await expect(createQuantized({ type: 'flat', quantization: 'pq', pqM: 3 })).rejects.toThrow(
+        'split evenly into 3 sub-quantizers'
+      );
+    });
+
+    it('should reload full-precision embeddings from the document sidecar', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'faiss-sq8-'));
+      const indexPath = path.join(tempDir, 'faiss.index');
+
+      const writer = await createQuantized({ type: 'hnsw', quantization: 'sq8' }, indexPath);
+      await writer.addDocuments(nearQuery);
+      await writer.save();
+
+      const reader = await createQuantized({ type: 'flat' }, indexPath);
+
+      expect(reader.getIndexOptions()).toMatchObject({ type: 'hnsw', quantization: 'sq8' });
+      const stored = await reader.getDocument('exact-best');
+      expect(stored?.embedding[1]).toBeCloseTo(0.785, 6);
+      expect((await reader.search([1, 1, 0, 0], 1))[0].document.id).toBe('exact-best');
+
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('integrity checks', () => {
+    let tempDir: string;
+    let indexPath: string;
+
+    // Save the shared documents, let the test tamper with the sidecars, then reopen
+    const reopenWith = async (tamper: (sidecar: any, storedDocuments: VectorDocument[]) => VectorDocument[] | void) => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'faiss-verify-'));
+      indexPath = path.join(tempDir, 'faiss.index');
+
+      const writer = new FaissVectorStore({ backend: 'faiss', dimensions: 4, indexPath });
+      await writer.initialize();
+      await writer.addDocuments(documents);
+      await writer.save();
+
+      const sidecarPath = indexPath + '.metadata.json';
+      const sidecar = JSON.parse(await fs.readFile(sidecarPath, 'utf-8'));
+      const storedDocuments = await readDocumentSidecar(indexPath + '.docs.bin');
+      const tampered = tamper(sidecar, storedDocuments) || storedDocuments;
+      await fs.writeFile(sidecarPath, JSON.stringify(sidecar));
+      await writeDocumentSidecar(indexPath + '.docs.bin', tampered);
+
+      const reader = new FaissVectorStore({ backend: 'faiss', dimensions: 4, indexPath });
+      await reader.initialize();
+      return reader;
+    };
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should pass verification for a consistent store', async () => {
+      const reader = await reopenWith(() => {});
+
+      expect(await reader.verify()).toEqual({ ok: true, documentCount: 3, vectorCount: 3, issues: [] });
+    });
+
+    it('should report and drop vectors whose documents are missing', async () => {
+      const reader = await reopenWith((_sidecar, storedDocuments) =>
+        storedDocuments.filter(doc => doc.id !== 'doc1')
+      );
+
+      const report = await reader.verify();
+      expect(report.ok).toBe(false);
+      expect(report.issues).toEqual([
+        expect.objectContaining({ type: 'orphaned_vector', ids: ['doc1'] })
+      ]);
+
+      const repaired = await reader.repair();
+      expect(repaired.ok).toBe(true);
+      expect(repaired.vectorCount).toBe(2);
+      const results = await reader.search([1, 0, 0, 0], 3);
+      expect(results.map(r => r.document.id)).not.toContain('doc1');
+    });
+
+    it('should report count mismatches and documents without vectors', async () => {
+      const reader = await reopenWith(sidecar => {
+        sidecar.nextIndex = 5;
+        sidecar.idToIndex = sidecar.idToIndex.filter(([id]: [string]) => id !== 'doc3');
+      });
+
+      const report = await reader.verify();
+      expect(report.issues.map(issue => issue.type)).toEqual(['count_mismatch', 'missing_vector']);
+      expect(report.issues[1].ids).toEqual(['doc3']);
+
+      expect((await reader.repair()).ok).toBe(true);
+      const results = await reader.search([0, 0.5, 0.5, 0], 1);
+      expect(results[0].document.id).toBe('doc3');
+    });
+
+    it('should re-embed documents with the wrong dimensions', async () => {
+      const reader = await reopenWith((_sidecar, storedDocuments) => {
+        storedDocuments[1].embedding = [1, 0];
+      });
+
+      const report = await reader.verify();
+      expect(report.issues).toEqual([
+        expect.objectContaining({ type: 'dimension_mismatch', ids: ['doc2'] })
+      ]);
+
+      const reembed = vi.fn().mockResolvedValue([[0, 0, 0, 1]]);
+      expect((await reader.repair(reembed)).ok).toBe(true);
+      expect(reembed).toHaveBeenCalledWith(['Renewable energy is sustainable.']);
+
+      const results = await reader.search([0, 0, 0, 1], 1);
+      expect(results[0].document.id).toBe('doc2');
+    });
+
+    it('should flag a sidecar that cannot be read', async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'faiss-verify-'));
+      indexPath = path.join(tempDir, 'faiss.index');
+      await fs.writeFile(indexPath + '.metadata.json', '{ not json');
+
+      const reader = new FaissVectorStore({ backend: 'faiss', dimensions: 4, indexPath });
+      await reader.initialize();
+
+      const report = await reader.verify();
+      expect(report.ok).toBe(false);
+      expect(report.issues[0].type).toBe('unreadable');
+    });
+  });
+});
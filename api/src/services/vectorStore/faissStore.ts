@@ -1,7 +1,20 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-import { SearchResult, VectorDocument, VectorStore, VectorStoreConfig } from '../vectorStore.js';
+import { readDocumentSidecar, writeDocumentSidecar } from './documentSidecar.js';
+import { MetadataFilter, matchesMetadataFilter } from './filter.js';
+import {
+  IntegrityIssue,
+  IntegrityReport,
+  SearchResult,
+  VectorDocument,
+  VectorIndexOptions,
+  VectorStore,
+  VectorStoreConfig
+} from '../vectorStore.js';
+
+// PQ trains 256 centroids per sub-quantizer (8 bits per code)
+const PQ_TRAINING_MINIMUM = 256;
 
 export class FaissVectorStore extends VectorStore {
   private index: any | null = null;
@@ -10,12 +23,23 @@ export class FaissVectorStore extends VectorStore {
   private idToIndex: Map<string, number> = new Map();
   private indexToId: Map<number, string> = new Map();
   private nextIndex = 0;
+  private indexOptions: Required<VectorIndexOptions>;
+  // Index positions whose vectors are still in FAISS but no longer map to a document
+  private tombstones: Set<number> = new Set();
+  // Rebuild the index once this fraction of its vectors are tombstoned
+  private readonly compactionRatio = 0.25;
+  // Initial multiple of k fetched from FAISS when a metadata filter is applied
+  private readonly filterOverfetch = 4;
+  // Why persisted files could not be loaded, reported by verify()
+  private loadError: string | null = null;
 
   constructor(config: VectorStoreConfig) {
     super(config);
     if (!config.indexPath) {
       config.indexPath = path.join(process.cwd(), 'data', 'embeddings', 'faiss.index');
     }
+    this.assertSupportedIndexOptions(config.index);
+    this.indexOptions = this.resolveIndexOptions(config.index);
   }
 
   async initialize(): Promise<void> {
@@ -28,9 +52,13 @@ export class FaissVectorStore extends VectorStore {
       await this.load();
       console.log(`FAISS vector store initialized with ${this.documents.size} documents`);
     } catch (error) {
-      console.log('No existing FAISS index found, starting fresh');
-      // Create new FAISS index for inner product (cosine similarity with normalized vectors)
-      this.index = new this.faiss.IndexFlatIP(this.config.dimensions);
+      if (await this.hasPersistedFiles()) {
+        // Start empty, but let verify() flag the store instead of silently serving nothing
+        this.loadError = error instanceof Error ? error.message : String(error);
+      } else {
+        console.log('No existing FAISS index found, starting fresh');
+      }
+      this.index = this.createIndex();
     }
     
     this.isInitialized = true;
@@ -40,11 +68,15 @@ export class FaissVectorStore extends VectorStore {
     if (!this.index) {
       throw new Error('Vector store not initialized');
     }
+    this.assertTrainable(documents.length);
 
     const embeddings: number[][] = [];
     const ids: string[] = [];
 
     for (const doc of documents) {
+      // Re-adding an ID retires its previous vector
+      this.retireIndex(doc.id);
+
       // Normalize embedding for cosine similarity
       const normalizedEmbedding = this.normalizeVector(doc.embedding);
       
@@ -62,12 +94,35 @@ export class FaissVectorStore extends VectorStore {
     if (embeddings.length > 0) {
       // FAISS expects a flat array of numbers
       const flatEmbeddings = embeddings.flat();
-      this.index.add(flatEmbeddings);
+      this.addVectors(flatEmbeddings, embeddings.length);
       console.log(`Added ${embeddings.length} documents to FAISS index`);
     }
   }
 
-  async search(queryEmbedding: number[], k: number): Promise<SearchResult[]> {
+  async deleteDocuments(ids: string[]): Promise<number> {
+    if (!this.index) {
+      throw new Error('Vector store not initialized');
+    }
+
+    let deleted = 0;
+    for (const id of ids) {
+      if (this.documents.delete(id)) {
+        this.retireIndex(id);
+        deleted++;
+      }
+    }
+
+    if (this.tombstones.size > this.nextIndex * this.compactionRatio) {
+      this.compact();
+    }
+
+    if (deleted > 0) {
+      console.log(`Deleted ${deleted} documents from FAISS index`);
+    }
+    return deleted;
+  }
+
+  async search(queryEmbedding: number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
     if (!this.index) {
       throw new Error('Vector store not initialized');
     }
@@ -78,33 +133,26 @@ export class FaissVectorStore extends VectorStore {
 
     // Normalize query embedding
     const normalizedQuery = this.normalizeVector(queryEmbedding);
+
+    // Quantized scores are approximate; gather a wider pool to re-score exactly
+    const quantized = this.indexOptions.quantization !== 'none';
+    const candidateK = quantized ? k * this.indexOptions.rescore : k;
     
-    // Search FAISS index
-    const searchK = Math.min(k, this.documents.size);
-    const results = this.index.search(normalizedQuery, searchK);
-    
-    const searchResults: SearchResult[] = [];
-    
-    for (let i = 0; i < results.labels.length; i++) {
-      const indexId = results.labels[i];
-      const score = results.distances[i];
-      
-      if (indexId >= 0) { // Valid result
-        const docId = this.indexToId.get(indexId);
-        if (docId) {
-          const document = this.documents.get(docId);
-          if (document) {
-            searchResults.push({
-              document,
-              score: score, // Inner product score (higher is better)
-              distance: 1 - score // Convert to distance (lower is better)
-            });
-          }
-        }
-      }
+    // Over-fetch so tombstoned and filtered-out hits can be skipped, then keep
+    // widening the search until enough hits match or the whole index has been scanned
+    let searchK = candidateK + this.tombstones.size;
+    if (filter) {
+      searchK = Math.max(searchK, candidateK * this.filterOverfetch);
     }
+    searchK = Math.min(searchK, this.nextIndex);
 
-    return searchResults;
+    for (;;) {
+      const searchResults = this.collectResults(normalizedQuery, searchK, candidateK, filter);
+      if (searchResults.length >= candidateK || searchK >= this.nextIndex) {
+        return quantized ? this.rescoreResults(normalizedQuery, searchResults, k) : searchResults;
+      }
+      searchK = Math.min(searchK * 2, this.nextIndex);
+    }
   }
 
   async getDocument(id: string): Promise<VectorDocument | null> {
@@ -118,12 +166,13 @@ export class FaissVectorStore extends VectorStore {
   async clear(): Promise<void> {
     if (this.index && this.faiss) {
       // Create new empty index
-      this.index = new this.faiss.IndexFlatIP(this.config.dimensions);
+      this.index = this.createIndex();
     }
     
     this.documents.clear();
     this.idToIndex.clear();
     this.indexToId.clear();
+    this.tombstones.clear();
     this.nextIndex = 0;
     
     console.log('FAISS vector store cleared');
@@ -134,6 +183,11 @@ export class FaissVectorStore extends VectorStore {
       throw new Error('Cannot save: index or path not configured');
     }
 
+    // Persist only live vectors
+    if (this.tombstones.size > 0) {
+      this.compact();
+    }
+
     try {
       // Ensure directory exists
       const indexDir = path.dirname(this.config.indexPath);
@@ -142,13 +196,15 @@ export class FaissVectorStore extends VectorStore {
       // Save FAISS index
       this.index.write(this.config.indexPath);
 
-      // Save document metadata
+      // Documents go to a binary sidecar; the JSON sidecar only maps them to index positions
+      await writeDocumentSidecar(this.documentsPath(), Array.from(this.documents.values()));
+
       const metadataPath = this.config.indexPath + '.metadata.json';
       const metadata = {
-        documents: Array.from(this.documents.entries()),
         idToIndex: Array.from(this.idToIndex.entries()),
         indexToId: Array.from(this.indexToId.entries()),
         nextIndex: this.nextIndex,
+        index: this.indexOptions,
         config: this.config
       };
       
@@ -167,19 +223,36 @@ export class FaissVectorStore extends VectorStore {
     }
 
     try {
-      // Load FAISS index
-      this.index = this.faiss.IndexFlatIP.read(this.config.indexPath);
-
       // Load document metadata
       const metadataPath = this.config.indexPath + '.metadata.json';
       const metadataContent = await fs.readFile(metadataPath, 'utf-8');
       const metadata = JSON.parse(metadataContent);
 
+      // The sidecar records which kind of index was written; older sidecars are flat
+      const storedOptions = this.resolveIndexOptions(metadata.index);
+      if (this.config.index && this.config.index.type !== storedOptions.type) {
+        console.warn(
+          `Configured ${this.config.index.type} index differs from stored ${storedOptions.type} index; using stored`
+        );
+      }
+      this.indexOptions = storedOptions;
+
+      // Load FAISS index
+      this.index = storedOptions.type === 'flat' && storedOptions.quantization === 'none'
+        ? this.faiss.IndexFlatIP.read(this.config.indexPath)
+        : this.faiss.Index.read(this.config.indexPath);
+
+      // Older sidecars embed the documents in the JSON
+      const documents: VectorDocument[] = metadata.documents
+        ? metadata.documents.map(([, doc]: [string, VectorDocument]) => doc)
+        : await readDocumentSidecar(this.documentsPath());
+
       // Restore maps
-      this.documents = new Map(metadata.documents);
+      this.documents = new Map(documents.map(doc => [doc.id, doc]));
       this.idToIndex = new Map(metadata.idToIndex);
       this.indexToId = new Map(metadata.indexToId.map(([k, v]: [string, string]) => [parseInt(k), v]));
       this.nextIndex = metadata.nextIndex;
+      this.tombstones.clear();
 
       console.log(`FAISS index loaded from ${this.config.indexPath}`);
     } catch (error) {
@@ -188,6 +261,82 @@ export class FaissVectorStore extends VectorStore {
     }
   }
 
+  async verify(): Promise<IntegrityReport> {
+    if (!this.index) {
+      throw new Error('Vector store not initialized');
+    }
+
+    const issues: IntegrityIssue[] = [];
+    const vectorCount: number = this.index.ntotal();
+    const { dimensions } = this.config;
+
+    if (this.loadError) {
+      issues.push({
+        type: 'unreadable',
+        message: `Could not load ${this.config.indexPath}: ${this.loadError}`
+      });
+    }
+
+    if (typeof this.index.getDimension === 'function' && this.index.getDimension() !== dimensions) {
+      issues.push({
+        type: 'dimension_mismatch',
+        message: `FAISS index has ${this.index.getDimension()} dimensions, expected ${dimensions}`
+      });
+    }
+
+    if (vectorCount !== this.nextIndex) {
+      issues.push({
+        type: 'count_mismatch',
+        message: `FAISS index holds ${vectorCount} vectors but the metadata maps ${this.nextIndex}`
+      });
+    }
+
+    const wrongDimensions: string[] = [];
+    const missingVectors: string[] = [];
+    for (const [id, doc] of this.documents) {
+      if (doc.embedding?.length !== dimensions) {
+        wrongDimensions.push(id);
+      }
+      const position = this.idToIndex.get(id);
+      if (position === undefined || position >= vectorCount || this.indexToId.get(position) !== id) {
+        missingVectors.push(id);
+      }
+    }
+
+    const orphanedVectors = Array.from(this.indexToId.values()).filter(id => !this.documents.has(id));
+
+    if (wrongDimensions.length > 0) {
+      issues.push({
+        type: 'dimension_mismatch',
+        message: `${wrongDimensions.length} documents have embeddings without ${dimensions} dimensions`,
+        ids: wrongDimensions
+      });
+    }
+    if (missingVectors.length > 0) {
+      issues.push({
+        type: 'missing_vector',
+        message: `${missingVectors.length} documents have no vector in the FAISS index`,
+        ids: missingVectors
+      });
+    }
+    if (orphanedVectors.length > 0) {
+      issues.push({
+        type: 'orphaned_vector',
+        message: `${orphanedVectors.length} vectors point at documents missing from the metadata`,
+        ids: orphanedVectors
+      });
+    }
+
+    return { ok: issues.length === 0, documentCount: this.documents.size, vectorCount, issues };
+  }
+
+  /**
+   * Get the index structure in use, including defaults
+   */
+  getIndexOptions(): Required<VectorIndexOptions> {
+    return { ...this.indexOptions };
+  }
+
   async close(): Promise<void> {
     // Save before closing
     if (this.isInitialized && this.index) {
@@ -198,11 +347,273 @@ export class FaissVectorStore extends VectorStore {
     this.documents.clear();
     this.idToIndex.clear();
     this.indexToId.clear();
+    this.tombstones.clear();
     this.isInitialized = false;
     
     console.log('FAISS vector store closed');
   }
 
+  /**
+   * Run one FAISS search and keep up to k live hits that match the filter
+   */
+  private collectResults(
+    normalizedQuery: number[],
+    searchK: number,
+    k: number,
+    filter?: MetadataFilter
+  ): SearchResult[] {
+    const results = this.index.search(normalizedQuery, searchK);
+    
+    const searchResults: SearchResult[] = [];
+    
+    for (let i = 0; i < results.labels.length && searchResults.length < k; i++) {
+      const indexId = results.labels[i];
+      const score = results.distances[i];
+      
+      if (indexId >= 0) { // Valid result
+        const docId = this.indexToId.get(indexId);
+        if (docId) {
+          const document = this.documents.get(docId);
+          if (document && (!filter || matchesMetadataFilter(document.metadata, filter))) {
+            searchResults.push({
+              document,
+              score: score, // Inner product score (higher is better)
+              distance: 1 - score // Convert to distance (lower is better)
+            });
+          }
+        }
+      }
+    }
+
+    return searchResults;
+  }
+
+  /**
+   * Replace approximate scores from a quantized index with exact cosine
+   * similarity against the stored embeddings and keep the best k
+   */
+  private rescoreResults(normalizedQuery: number[], candidates: SearchResult[], k: number): SearchResult[] {
+    return candidates
+      .map(({ document }) => {
+        const embedding = this.normalizeVector(document.embedding);
+        const score = embedding.reduce((sum, val, i) => sum + val * normalizedQuery[i], 0);
+        return { document, score, distance: 1 - score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  /**
+   * Tombstone the index position currently mapped to a document ID
+   */
+  private retireIndex(id: string): void {
+    const index = this.idToIndex.get(id);
+    if (index === undefined) {
+      return;
+    }
+
+    this.idToIndex.delete(id);
+    this.indexToId.delete(index);
+    this.tombstones.add(index);
+  }
+
+  /**
+   * Rebuild the FAISS index from live documents, dropping tombstoned vectors
+   */
+  private compact(): void {
+    const liveIds = Array.from(this.indexToId.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, id]) => id);
+
+    // A trained index cannot be retrained on fewer vectors than it needs;
+    // keep the tombstones, search already skips them
+    if (this.requiresTraining() && liveIds.length < this.trainingMinimum()) {
+      return;
+    }
+
+    this.reindex(liveIds);
+    console.log(`Compacted FAISS index to ${this.nextIndex} vectors`);
+  }
+
+  /**
+   * Rebuild the FAISS index from the documents alone, dropping orphaned vectors.
+   * Documents whose embeddings have the wrong dimensions are left without a vector.
+   */
+  protected async rebuild(): Promise<void> {
+    const usableIds = Array.from(this.documents.values())
+      .filter(doc => doc.embedding?.length === this.config.dimensions)
+      .map(doc => doc.id);
+
+    this.reindex(usableIds);
+    this.loadError = null;
+    console.log(`Rebuilt FAISS index with ${this.nextIndex} vectors from ${this.documents.size} documents`);
+  }
+
+  /**
+   * Replace the index with a fresh one holding the given documents, in order
+   */
+  private reindex(ids: string[]): void {
+    this.index = this.createIndex();
+    this.idToIndex.clear();
+    this.indexToId.clear();
+    this.tombstones.clear();
+    this.nextIndex = 0;
+
+    const embeddings: number[][] = [];
+    for (const id of ids) {
+      const doc = this.documents.get(id)!;
+      embeddings.push(this.normalizeVector(doc.embedding));
+      this.idToIndex.set(id, this.nextIndex);
+      this.indexToId.set(this.nextIndex, id);
+      this.nextIndex++;
+    }
+
+    if (embeddings.length > 0) {
+      this.addVectors(embeddings.flat(), embeddings.length);
+    }
+  }
+
+  /**
+   * Binary sidecar holding the documents and their full-precision embeddings
+   */
+  private documentsPath(): string {
+    return this.config.indexPath + '.docs.bin';
+  }
+
+  /**
+   * Whether an index or one of its sidecars exists on disk
+   */
+  private async hasPersistedFiles(): Promise<boolean> {
+    for (const file of [this.config.indexPath!, this.config.indexPath + '.metadata.json', this.documentsPath()]) {
+      try {
+        await fs.access(file);
+        return true;
+      } catch {
+        // Not present
+      }
+    }
+    return false;
+  }
+
+  /**
+   * faiss-node has no ParameterSpace binding and no nprobe/efSearch setters,
+   * so search-time parameters could never take effect; refuse them rather
+   * than search with FAISS defaults while claiming otherwise
+   */
+  private assertSupportedIndexOptions(options?: VectorIndexOptions): void {
+    const unsupported = ['nprobe', 'efSearch'].filter(name => options && name in options);
+    if (unsupported.length > 0) {
+      throw new Error(
+        `Unsupported index options: ${unsupported.join(', ')}. faiss-node cannot set search parameters; ` +
+        'IVF indexes probe one cluster and HNSW indexes use the FAISS default efSearch'
+      );
+    }
+  }
+
+  /**
+   * Fill in defaults for the configured index type. Sidecars written before
+   * nprobe/efSearch were dropped still carry them; they are ignored.
+   */
+  private resolveIndexOptions(options?: VectorIndexOptions): Required<VectorIndexOptions> {
+    return {
+      type: options?.type ?? 'flat',
+      nlist: options?.nlist ?? 100,
+      m: options?.m ?? 32,
+      quantization: options?.quantization ?? 'none',
+      pqM: options?.pqM ?? 64,
+      rescore: options?.rescore ?? 4
+    };
+  }
+
+  /**
+   * Create an empty inner-product index (cosine similarity with normalized vectors)
+   */
+  private createIndex(): any {
+    const { type, nlist, m, quantization, pqM } = this.indexOptions;
+    const { dimensions } = this.config;
+    const innerProduct = this.faiss.MetricType.METRIC_INNER_PRODUCT;
+
+    if (quantization === 'pq' && dimensions % pqM !== 0) {
+      throw new Error(`PQ needs the ${dimensions} dimensions to split evenly into ${pqM} sub-quantizers`);
+    }
+    const encoding = quantization === 'sq8' ? 'SQ8' : quantization === 'pq' ? `PQ${pqM}` : 'Flat';
+
+    let index: any;
+    switch (type) {
+      case 'ivf':
+        index = this.faiss.Index.fromFactory(dimensions, `IVF${nlist},${encoding}`, innerProduct);
+        break;
+      case 'hnsw':
+        index = this.faiss.Index.fromFactory(
+          dimensions,
+          quantization === 'none' ? `HNSW${m}` : `HNSW${m}_${encoding}`,
+          innerProduct
+        );
+        break;
+      default:
+        index = quantization === 'none'
+          ? new this.faiss.IndexFlatIP(dimensions)
+          : this.faiss.Index.fromFactory(dimensions, encoding, innerProduct);
+    }
+
+    return index;
+  }
+
+  /**
+   * IVF clusters and quantizer codebooks are learned from the first batch added
+   */
+  private requiresTraining(): boolean {
+    return this.indexOptions.type === 'ivf' || this.indexOptions.quantization !== 'none';
+  }
+
+  /**
+   * Fewest vectors the index can be trained on: one per IVF cluster and one per PQ centroid
+   */
+  private trainingMinimum(): number {
+    const { type, nlist, quantization } = this.indexOptions;
+    return Math.max(
+      type === 'ivf' ? nlist : 1,
+      quantization === 'pq' ? PQ_TRAINING_MINIMUM : 1
+    );
+  }
+
+  /**
+   * Trained indexes must see enough vectors before anything is added
+   */
+  private assertTrainable(count: number): void {
+    if (!this.requiresTraining() || this.index.isTrained()) {
+      return;
+    }
+
+    const minimum = this.trainingMinimum();
+    if (count < minimum) {
+      const { type, quantization } = this.indexOptions;
+      const kind = [type === 'ivf' ? 'IVF' : null, quantization === 'pq' ? 'PQ' : null].filter(Boolean).join('+');
+      throw new Error(`${kind} index needs at least ${minimum} vectors to train, got ${count}`);
+    }
+  }
+
+  /**
+   * Add normalized vectors, training the index first when it requires it
+   */
+  private addVectors(flatEmbeddings: number[], count: number): void {
+    if (this.requiresTraining() && !this.index.isTrained()) {
+      this.assertTrainable(count);
+      this.index.train(flatEmbeddings);
+      console.log(`Trained ${this.describeIndex()} index on ${count} vectors`);
+    }
+    this.index.add(flatEmbeddings);
+  }
+
+  /**
+   * Short description of the index structure for logs
+   */
+  private describeIndex(): string {
+    const { type, nlist, quantization, pqM } = this.indexOptions;
+    const structure = type === 'ivf' ? `IVF (${nlist} clusters)` : type.toUpperCase();
+    return quantization === 'none' ? structure : `${structure} ${quantization === 'pq' ? `PQ${pqM}` : 'SQ8'}`;
+  }
+
   /**
    * Normalize vector for cosine similarity
    */
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { allowedFieldValues, matchesMetadataFilter, metadataFilterFromQuery } from './filter.js';
+
+describe('matchesMetadataFilter', () => {
+  const metadata = { domain: 'hotel', source: 'hotel-booking-guide.txt', chunkIndex: 4, tokens: 180 };
+
+  it('should match equality clauses', () => {
+    expect(matchesMetadataFilter(metadata, { field: 'domain', equals: 'hotel' })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { field: 'domain', equals: 'web-dev' })).toBe(false);
+  });
+
+  it('should match membership clauses', () => {
+    expect(matchesMetadataFilter(metadata, { field: 'domain', in: ['web-dev', 'hotel'] })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { field: 'domain', in: ['web-dev'] })).toBe(false);
+  });
+
+  it('should match numeric ranges', () => {
+    expect(matchesMetadataFilter(metadata, { field: 'tokens', range: { gte: 100, lt: 200 } })).toBe(true);
+    expect(matchesMetadataFilter(metadata, { field: 'tokens', range: { gt: 180 } })).toBe(false);
+    expect(matchesMetadataFilter(metadata, { field: 'domain', range: { gte: 0 } })).toBe(false);
+  });
+
+  it('should treat missing fields as non-matching', () => {
+    expect(matchesMetadataFilter(metadata, { field: 'author', equals: 'anyone' })).toBe(false);
+  });
+
+  it('should combine clauses with and/or', () => {
+    expect(matchesMetadataFilter(metadata, {
+      and: [
+        { field: 'domain', equals: 'hotel' },
+        { or: [{ field: 'chunkIndex', equals: 0 }, { field: 'tokens', range: { lte: 200 } }] }
+      ]
+    })).toBe(true);
+    expect(matchesMetadataFilter(metadata, {
+      and: [{ field: 'domain', equals: 'hotel' }, { field: 'chunkIndex', equals: 0 }]
+    })).toBe(false);
+  });
+});
+
+describe('metadataFilterFromQuery', () => {
+  it('should return undefined when no filters are given', () => {
+    expect(metadataFilterFromQuery({})).toBeUndefined();
+    expect(metadataFilterFromQuery({ domain: ' , ' })).toBeUndefined();
+  });
+
+  it('should build an equality filter for a single value', () => {
+    expect(metadataFilterFromQuery({ domain: 'hotel' })).toEqual({ field: 'domain', equals: 'hotel' });
+  });
+
+  it('should build a membership filter for comma-separated values', () => {
+    expect(metadataFilterFromQuery({ source: 'a.txt, b.txt' })).toEqual({ field: 'source', in: ['a.txt', 'b.txt'] });
+  });
+
+  it('should combine domain and source filters', () => {
+    expect(metadataFilterFromQuery({ domain: 'hotel', source: 'a.txt' })).toEqual({
+      and: [
+        { field: 'domain', equals: 'hotel' },
+        { field: 'source', equals: 'a.txt' }
+      ]
+    });
+  });
+});
+
+describe('allowedFieldValues', () => {
+  it('should read values from equality and membership clauses', () => {
+    expect(allowedFieldValues({ field: 'domain', equals: 'hotel' }, 'domain')).toEqual(['hotel']);
+    expect(allowedFieldValues({ field: 'domain', in: ['hotel', 'web-dev'] }, 'domain')).toEqual(['hotel', 'web-dev']);
+  });
+
+  it('should return null when the field is not restricted', () => {
+    expect(allowedFieldValues({ field: 'source', equals: 'a.txt' }, 'domain')).toBeNull();
+    expect(allowedFieldValues({ or: [{ field: 'domain', equals: 'hotel' }, { field: 'tokens', range: { gt: 5 } }] }, 'domain')).toBeNull();
+  });
+
+  it('should intersect and-clauses and union or-clauses', () => {
+    expect(allowedFieldValues({
+      and: [
+        { field: 'domain', in: ['hotel', 'web-dev'] },
+        { field: 'source', equals: 'a.txt' },
+        { field: 'domain', equals: 'web-dev' }
+      ]
+    }, 'domain')).toEqual(['web-dev']);
+    expect(allowedFieldValues({
+      or: [{ field: 'domain', equals: 'hotel' }, { field: 'domain', in: ['hotel', 'web-dev'] }]
+    }, 'domain')).toEqual(['hotel', 'web-dev']);
+  });
+});
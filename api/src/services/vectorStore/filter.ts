@@ -0,0 +1,119 @@
+/**
+ * Metadata filter expressions for vector search
+ * Evaluated against VectorDocument.metadata by every backend
+ */
+
+export type MetadataValue = string | number | boolean;
+
+export interface MetadataRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export type MetadataFilter =
+  | { field: string; equals: MetadataValue }
+  | { field: string; in: MetadataValue[] }
+  | { field: string; range: MetadataRange }
+  | { and: MetadataFilter[] }
+  | { or: MetadataFilter[] };
+
+/**
+ * Check whether document metadata satisfies a filter expression
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, unknown>,
+  filter: MetadataFilter
+): boolean {
+  if ('and' in filter) {
+    return filter.and.every(clause => matchesMetadataFilter(metadata, clause));
+  }
+  if ('or' in filter) {
+    return filter.or.some(clause => matchesMetadataFilter(metadata, clause));
+  }
+
+  const value = metadata[filter.field];
+
+  if ('equals' in filter) {
+    return value === filter.equals;
+  }
+  if ('in' in filter) {
+    return filter.in.includes(value as MetadataValue);
+  }
+
+  if (typeof value !== 'number') {
+    return false;
+  }
+  const { gt, gte, lt, lte } = filter.range;
+  return (
+    (gt === undefined || value > gt) &&
+    (gte === undefined || value >= gte) &&
+    (lt === undefined || value < lt) &&
+    (lte === undefined || value <= lte)
+  );
+}
+
+/**
+ * Values a filter allows for one field, or null when it does not restrict that field.
+ * Used to route searches to the shards a filter can match.
+ */
+export function allowedFieldValues(filter: MetadataFilter, field: string): string[] | null {
+  if ('and' in filter) {
+    let allowed: string[] | null = null;
+    for (const clause of filter.and) {
+      const values = allowedFieldValues(clause, field);
+      if (values !== null) {
+        allowed = allowed === null ? values : allowed.filter(value => values.includes(value));
+      }
+    }
+    return allowed;
+  }
+  if ('or' in filter) {
+    const branches = filter.or.map(clause => allowedFieldValues(clause, field));
+    if (branches.some(values => values === null)) {
+      return null;
+    }
+    return [...new Set(branches.flat() as string[])];
+  }
+
+  if (filter.field !== field) {
+    return null;
+  }
+  if ('equals' in filter) {
+    return [String(filter.equals)];
+  }
+  if ('in' in filter) {
+    return filter.in.map(String);
+  }
+  return null;
+}
+
+/**
+ * Build a filter from comma-separated `domain` and `source` query parameters
+ * Returns undefined when neither parameter narrows the search
+ */
+export function metadataFilterFromQuery(params: {
+  domain?: string;
+  source?: string;
+}): MetadataFilter | undefined {
+  const clauses: MetadataFilter[] = [];
+
+  for (const field of ['domain', 'source'] as const) {
+    const values = (params[field] || '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+
+    if (values.length === 1) {
+      clauses.push({ field, equals: values[0] });
+    } else if (values.length > 1) {
+      clauses.push({ field, in: values });
+    }
+  }
+
+  if (clauses.length === 0) {
+    return undefined;
+  }
+  return clauses.length === 1 ? clauses[0] : { and: clauses };
+}
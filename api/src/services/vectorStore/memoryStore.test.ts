@@ -0,0 +1,187 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MemoryVectorStore } from './memoryStore.js';
+import { VectorDocument } from '../vectorStore.js';
+
+// The shared test setup mocks the VectorStore base class; this suite needs the real one
+vi.unmock('../vectorStore.js');
+
+describe('MemoryVectorStore', () => {
+  const testDimensions = 4;
+  let tempDir: string;
+  let vectorStore: MemoryVectorStore;
+
+  const documents: VectorDocument[] = [
+    {
+      id: 'doc1',
+      content: 'Climate change is a global issue.',
+      embedding: [1, 0, 0, 0],
+      metadata: { source: 'climate.txt', domain: 'climate', chunkIndex: 0, tokens: 80 }
+    },
+    {
+      id: 'doc2',
+      content: 'Renewable energy is sustainable.',
+      embedding: [0, 1, 0, 0],
+      metadata: { source: 'energy.txt', domain: 'energy', chunkIndex: 1, tokens: 70 }
+    },
+    {
+      id: 'doc3',
+      content: 'Solar panels generate electricity.',
+      embedding: [0, 0.5, 0.5, 0],
+      metadata: { source: 'solar.txt', domain: 'energy', chunkIndex: 2, tokens: 75 }
+    }
+  ];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-store-'));
+    vectorStore = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions });
+    await vectorStore.initialize();
+  });
+
+  afterEach(async () => {
+    await vectorStore.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should initialize successfully without an index path', () => {
+    expect(vectorStore.isReady()).toBe(true);
+  });
+
+  it('should add and retrieve documents', async () => {
+    await vectorStore.addDocuments(documents);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    expect(await vectorStore.getDocument('doc2')).toEqual(documents[1]);
+    expect(await vectorStore.getDocument('missing')).toBeNull();
+  });
+
+  it('should replace documents that are added again', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.addDocuments([{ ...documents[0], embedding: [0, 0, 0, 1] }]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    const results = await vectorStore.search([0, 0, 0, 1], 1);
+    expect(results[0].document.id).toBe('doc1');
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('should delete documents by id', async () => {
+    await vectorStore.addDocuments(documents);
+
+    expect(await vectorStore.deleteDocuments(['doc1', 'missing'])).toBe(1);
+    expect(await vectorStore.getDocumentCount()).toBe(2);
+    expect(await vectorStore.getDocument('doc1')).toBeNull();
+
+    const results = await vectorStore.search([1, 0, 0, 0], 3);
+    expect(results.map(r => r.document.id)).not.toContain('doc1');
+  });
+
+  it('should upsert documents without leaving stale vectors', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.upsertDocuments([{ ...documents[1], embedding: [0, 0, 0, 1] }]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    const results = await vectorStore.search([0, 1, 0, 0], 3);
+    expect(results.filter(r => r.document.id === 'doc2')).toHaveLength(1);
+    expect(results[0].document.id).toBe('doc3');
+  });
+
+  it('should reject embeddings with the wrong dimensions', async () => {
+    await expect(
+      vectorStore.addDocuments([{ ...documents[0], embedding: [1, 0] }])
+    ).rejects.toThrow('Embedding dimension mismatch');
+  });
+
+  it('should rank search results by exact cosine similarity', async () => {
+    await vectorStore.addDocuments(documents);
+
+    const results = await vectorStore.search([0.1, 1, 0.2, 0], 3);
+
+    expect(results.map(r => r.document.id)).toEqual(['doc2', 'doc3', 'doc1']);
+    expect(results[0].score).toBeCloseTo(1 / Math.sqrt(1.05));
+    expect(results[0].distance).toBeCloseTo(1 - results[0].score);
+  });
+
+  it('should return at most the number of stored documents', async () => {
+    await vectorStore.addDocuments(documents);
+    expect(await vectorStore.search([1, 0, 0, 0], 10)).toHaveLength(3);
+  });
+
+  it('should only return documents matching a metadata filter', async () => {
+    await vectorStore.addDocuments(documents);
+
+    const results = await vectorStore.search([1, 0.1, 0, 0], 3, { field: 'domain', equals: 'energy' });
+
+    expect(results.map(r => r.document.id)).toEqual(['doc2', 'doc3']);
+  });
+
+  it('should handle empty search results', async () => {
+    expect(await vectorStore.search([1, 0, 0, 0], 5)).toHaveLength(0);
+  });
+
+  it('should clear all documents', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.clear();
+
+    expect(await vectorStore.getDocumentCount()).toBe(0);
+    expect(await vectorStore.getDocument('doc1')).toBeNull();
+  });
+
+  it('should refuse to save without an index path', async () => {
+    await expect(vectorStore.save()).rejects.toThrow('index path not configured');
+  });
+
+  it.each([
+    ['binary', 'memory.index'],
+    ['JSON', 'memory.json']
+  ])('should round-trip a %s snapshot', async (_format, filename) => {
+    const indexPath = path.join(tempDir, filename);
+    const writer = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions, indexPath });
+    await writer.initialize();
+    await writer.addDocuments(documents);
+    await writer.save();
+    await writer.close();
+
+    const reader = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions, indexPath });
+    await reader.initialize();
+
+    expect(await reader.getDocumentCount()).toBe(3);
+    expect(await reader.getDocument('doc3')).toEqual(documents[2]);
+    const results = await reader.search([1, 0, 0, 0], 1);
+    expect(results[0].document.id).toBe('doc1');
+    await reader.close();
+  });
+
+  it('should refuse to load a snapshot with other dimensions', async () => {
+    const indexPath = path.join(tempDir, 'memory.index');
+    const writer = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions, indexPath });
+    await writer.addDocuments(documents);
+    await writer.save();
+
+    const reader = new MemoryVectorStore({ backend: 'memory', dimensions: 8, indexPath });
+    await expect(reader.load()).rejects.toThrow('has 4 dimensions, expected 8');
+  });
+
+  it('should flag a snapshot that cannot be loaded until repaired', async () => {
+    const indexPath = path.join(tempDir, 'memory.index');
+    const writer = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions, indexPath });
+    await writer.addDocuments(documents);
+    await writer.save();
+
+    // Truncate the vector file so it no longer covers every document
+    await fs.truncate(indexPath, testDimensions * 4);
+
+    const reader = new MemoryVectorStore({ backend: 'memory', dimensions: testDimensions, indexPath });
+    await reader.initialize();
+
+    const report = await reader.verify();
+    expect(report.ok).toBe(false);
+    expect(report.issues[0].type).toBe('unreadable');
+
+    expect((await reader.repair()).ok).toBe(true);
+  });
+});
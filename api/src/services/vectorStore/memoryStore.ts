@@ -0,0 +1,293 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { MetadataFilter, matchesMetadataFilter } from './filter.js';
+import { IntegrityIssue, IntegrityReport, SearchResult, VectorDocument, VectorStore } from '../vectorStore.js';
+
+type StoredDocument = Omit<VectorDocument, 'embedding'>;
+
+interface MemorySnapshot {
+  dimensions: number;
+  documents: StoredDocument[];
+  embeddings?: number[][];
+}
+
+/**
+ * Dependency-free vector store doing exact brute-force cosine search.
+ *
+ * Snapshots are written to `indexPath`: a single JSON file when the path ends
+ * in `.json`, otherwise raw float32 rows plus a `.metadata.json` sidecar.
+ */
+export class MemoryVectorStore extends VectorStore {
+  private documents: StoredDocument[] = [];
+  private embeddings: Float32Array[] = [];
+  private norms: number[] = [];
+  private idToIndex: Map<string, number> = new Map();
+  // Why an existing snapshot could not be loaded, reported by verify()
+  private loadError: string | null = null;
+
+  async initialize(): Promise<void> {
+    if (this.config.indexPath) {
+      try {
+        await this.load();
+        console.log(`Memory vector store initialized with ${this.documents.length} documents`);
+      } catch (error) {
+        if (await this.hasSnapshot()) {
+          this.loadError = error instanceof Error ? error.message : String(error);
+          console.error('Could not load memory snapshot:', error);
+        } else {
+          console.log('No existing memory snapshot found, starting fresh');
+        }
+      }
+    }
+
+    this.isInitialized = true;
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    for (const doc of documents) {
+      if (doc.embedding.length !== this.config.dimensions) {
+        throw new Error(
+          `Embedding dimension mismatch for ${doc.id}: expected ${this.config.dimensions}, got ${doc.embedding.length}`
+        );
+      }
+    }
+
+    for (const doc of documents) {
+      const { embedding, ...stored } = doc;
+      this.setRow(stored, Float32Array.from(embedding));
+    }
+
+    if (documents.length > 0) {
+      console.log(`Added ${documents.length} documents to memory vector store`);
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<number> {
+    const doomed = new Set(ids.filter(id => this.idToIndex.has(id)));
+    if (doomed.size === 0) {
+      return 0;
+    }
+
+    const keep = this.documents
+      .map((doc, index) => ({ doc, embedding: this.embeddings[index] }))
+      .filter(({ doc }) => !doomed.has(doc.id));
+
+    this.documents = [];
+    this.embeddings = [];
+    this.norms = [];
+    this.idToIndex.clear();
+    keep.forEach(({ doc, embedding }) => this.setRow(doc, embedding));
+
+    console.log(`Deleted ${doomed.size} documents from memory vector store`);
+    return doomed.size;
+  }
+
+  async search(queryEmbedding: number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    if (this.documents.length === 0 || k <= 0) {
+      return [];
+    }
+
+    const queryNorm = Math.sqrt(queryEmbedding.reduce((sum, val) => sum + val * val, 0));
+
+    // Filtering before scoring keeps the search exact for any filter
+    const candidates = this.documents
+      .map((doc, index) => ({ doc, index }))
+      .filter(({ doc }) => !filter || matchesMetadataFilter(doc.metadata, filter));
+
+    const scored = candidates.map(({ index }) => {
+      const norm = queryNorm * this.norms[index];
+      return { index, score: norm === 0 ? 0 : this.dot(queryEmbedding, this.embeddings[index]) / norm };
+    });
+    scored.sort((a, b) => b.score - a.score);
+
+    return scored.slice(0, k).map(({ index, score }) => ({
+      document: this.toVectorDocument(index),
+      score: score, // Cosine similarity (higher is better)
+      distance: 1 - score // Convert to distance (lower is better)
+    }));
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    const index = this.idToIndex.get(id);
+    return index === undefined ? null : this.toVectorDocument(index);
+  }
+
+  async getDocumentCount(): Promise<number> {
+    return this.documents.length;
+  }
+
+  async clear(): Promise<void> {
+    this.documents = [];
+    this.embeddings = [];
+    this.norms = [];
+    this.idToIndex.clear();
+
+    console.log('Memory vector store cleared');
+  }
+
+  async save(): Promise<void> {
+    if (!this.config.indexPath) {
+      throw new Error('Cannot save: index path not configured');
+    }
+
+    const indexPath = this.config.indexPath;
+    await fs.mkdir(path.dirname(indexPath), { recursive: true });
+
+    if (this.isJsonSnapshot()) {
+      const snapshot: MemorySnapshot = {
+        dimensions: this.config.dimensions,
+        documents: this.documents,
+        embeddings: this.embeddings.map(embedding => Array.from(embedding))
+      };
+      await fs.writeFile(indexPath, JSON.stringify(snapshot));
+    } else {
+      // Rows are written back to back in document order
+      const vectors = new Float32Array(this.documents.length * this.config.dimensions);
+      this.embeddings.forEach((embedding, index) => vectors.set(embedding, index * this.config.dimensions));
+      await fs.writeFile(indexPath, Buffer.from(vectors.buffer));
+
+      const snapshot: MemorySnapshot = {
+        dimensions: this.config.dimensions,
+        documents: this.documents
+      };
+      await fs.writeFile(indexPath + '.metadata.json', JSON.stringify(snapshot, null, 2));
+    }
+
+    console.log(`Memory vector store saved to ${indexPath}`);
+  }
+
+  async load(): Promise<void> {
+    if (!this.config.indexPath) {
+      throw new Error('Index path not configured');
+    }
+
+    const indexPath = this.config.indexPath;
+    let snapshot: MemorySnapshot;
+    let embeddings: Float32Array[];
+
+    if (this.isJsonSnapshot()) {
+      snapshot = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      embeddings = (snapshot.embeddings || []).map(embedding => Float32Array.from(embedding));
+    } else {
+      snapshot = JSON.parse(await fs.readFile(indexPath + '.metadata.json', 'utf-8'));
+      const raw = await fs.readFile(indexPath);
+      // Copy into an aligned buffer before viewing it as float32
+      const vectors = new Float32Array(new Uint8Array(raw).buffer);
+      // Count rows from the file itself so a truncated file is caught below
+      embeddings = Array.from({ length: Math.floor(vectors.length / snapshot.dimensions) }, (_, index) =>
+        vectors.slice(index * snapshot.dimensions, (index + 1) * snapshot.dimensions)
+      );
+    }
+
+    if (snapshot.dimensions !== this.config.dimensions) {
+      throw new Error(
+        `Memory snapshot at ${indexPath} has ${snapshot.dimensions} dimensions, expected ${this.config.dimensions}`
+      );
+    }
+    if (embeddings.length !== snapshot.documents.length) {
+      throw new Error(
+        `Memory snapshot at ${indexPath} has ${embeddings.length} embeddings for ${snapshot.documents.length} documents`
+      );
+    }
+
+    await this.clear();
+    snapshot.documents.forEach((doc, index) => this.setRow(doc, embeddings[index]));
+
+    console.log(`Memory vector store loaded from ${indexPath}`);
+  }
+
+  async close(): Promise<void> {
+    this.documents = [];
+    this.embeddings = [];
+    this.norms = [];
+    this.idToIndex.clear();
+    this.isInitialized = false;
+
+    console.log('Memory vector store closed');
+  }
+
+  async verify(): Promise<IntegrityReport> {
+    const issues: IntegrityIssue[] = [];
+
+    if (this.loadError) {
+      issues.push({
+        type: 'unreadable',
+        message: `Could not load ${this.config.indexPath}: ${this.loadError}`
+      });
+    }
+
+    const wrongDimensions = this.documents
+      .filter((_, index) => this.embeddings[index]?.length !== this.config.dimensions)
+      .map(doc => doc.id);
+    if (wrongDimensions.length > 0) {
+      issues.push({
+        type: 'dimension_mismatch',
+        message: `${wrongDimensions.length} documents have embeddings without ${this.config.dimensions} dimensions`,
+        ids: wrongDimensions
+      });
+    }
+
+    return {
+      ok: issues.length === 0,
+      documentCount: this.documents.length,
+      vectorCount: this.embeddings.length,
+      issues
+    };
+  }
+
+  /**
+   * Nothing is derived from the rows; accept the current (possibly empty) state
+   */
+  protected async rebuild(): Promise<void> {
+    this.loadError = null;
+  }
+
+  /**
+   * Insert a row, replacing any existing row with the same id
+   */
+  private setRow(document: StoredDocument, embedding: Float32Array): void {
+    const existing = this.idToIndex.get(document.id);
+    const index = existing ?? this.documents.length;
+
+    this.documents[index] = document;
+    this.embeddings[index] = embedding;
+    this.norms[index] = Math.sqrt(this.dot(embedding, embedding));
+    this.idToIndex.set(document.id, index);
+  }
+
+  private toVectorDocument(index: number): VectorDocument {
+    return {
+      ...this.documents[index],
+      embedding: Array.from(this.embeddings[index])
+    };
+  }
+
+  private dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < b.length; i++) {
+      sum += a[i] * b[i];
+    }
+    return sum;
+  }
+
+  private async hasSnapshot(): Promise<boolean> {
+    const files = this.isJsonSnapshot()
+      ? [this.config.indexPath!]
+      : [this.config.indexPath!, this.config.indexPath + '.metadata.json'];
+
+    for (const file of files) {
+      try {
+        await fs.access(file);
+        return true;
+      } catch {
+        // Not present
+      }
+    }
+    return false;
+  }
+
+  private isJsonSnapshot(): boolean {
+    return this.config.indexPath?.endsWith('.json') ?? false;
+  }
+}
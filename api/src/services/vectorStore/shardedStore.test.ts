@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ShardedVectorStore } from './shardedStore.js';
+import { VectorDocument, VectorStoreConfig } from '../vectorStore.js';
+
+// The shared test setup mocks the VectorStore base class and factory; this suite needs the real ones
+vi.unmock('../vectorStore.js');
+
+describe('ShardedVectorStore', () => {
+  let tempDir: string;
+  let vectorStore: ShardedVectorStore;
+
+  const doc = (id: string, domain: string, embedding: number[]): VectorDocument => ({
+    id,
+    content: `Content of ${id}`,
+    embedding,
+    metadata: { source: `${domain}.txt`, domain, chunkIndex: 0, tokens: 50 }
+  });
+
+  const documents: VectorDocument[] = [
+    doc('hotel-1', 'hotel', [1, 0, 0, 0]),
+    doc('hotel-2', 'hotel', [0.9, 0.1, 0, 0]),
+    doc('hotel-3', 'hotel', [0.8, 0.2, 0, 0]),
+    doc('web-1', 'web-dev', [0.3, 0, 1, 0]),
+    doc('web-2', 'web-dev', [0, 0, 1, 0]),
+    doc('null-1', 'null-not-null', [0, 0, 0, 1])
+  ];
+
+  const createStore = async (sharding: VectorStoreConfig['sharding'] = { backend: 'memory' }) => {
+    const store = new ShardedVectorStore({
+      backend: 'sharded',
+      dimensions: 4,
+      indexPath: tempDir,
+      sharding
+    });
+    await store.initialize();
+    return store;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sharded-store-'));
+    vectorStore = await createStore();
+    await vectorStore.addDocuments(documents);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should route documents into one shard per domain', async () => {
+    expect(vectorStore.getShardNames().sort()).toEqual(['hotel', 'null-not-null', 'web-dev']);
+    expect(await vectorStore.getShard('hotel')!.getDocumentCount()).toBe(3);
+    expect(await vectorStore.getDocumentCount()).toBe(6);
+    expect((await vectorStore.getDocument('web-2'))?.metadata.domain).toBe('web-dev');
+  });
+
+  it('should only search the shards a domain filter can match', async () => {
+    const webSearch = vi.spyOn(vectorStore.getShard('web-dev')!, 'search');
+
+    const results = await vectorStore.search([1, 0, 0, 0], 5, { field: 'domain', equals: 'hotel' });
+
+    expect(results.map(r => r.document.id)).toEqual(['hotel-1', 'hotel-2', 'hotel-3']);
+    expect(webSearch).not.toHaveBeenCalled();
+  });
+
+  it('should search only the named shards', async () => {
+    const results = await vectorStore.searchShards([1, 0, 0, 0], 5, ['web-dev', 'missing']);
+
+    expect(results.map(r => r.document.id)).toEqual(['web-1', 'web-2']);
+  });
+
+  it('should merge raw scores by default', async () => {
+    const results = await vectorStore.search([1, 0, 0.2, 0], 3);
+
+    expect(results.map(r => r.document.id)).toEqual(['hotel-1', 'hotel-2', 'hotel-3']);
+  });
+
+  it('should rank a shard of low-cosine documents below the relevant shard', async () => {
+    const results = await vectorStore.search([1, 0, 0, 0], 4);
+
+    // null-1 is its shard's best hit, but its cosine is 0
+    expect(results.map(r => r.document.id)).toEqual(['hotel-1', 'hotel-2', 'hotel-3', 'web-1']);
+  });
+
+  it('should let each shard compete after normalizing scores', async () => {
+    const store = await createStore({ backend: 'memory', normalization: 'minmax' });
+    await store.addDocuments(documents);
+
+    const results = await store.search([1, 0, 0.2, 0], 2);
+
+    // Each shard's best hit normalizes to 1; raw cosine breaks the tie
+    expect(results.map(r => r.document.id)).toEqual(['hotel-1', 'web-1']);
+    expect(results[1].score).toBeLessThan(0.9);
+  });
+
+  it('should move documents between shards on upsert', async () => {
+    await vectorStore.upsertDocuments([doc('web-2', 'hotel', [0, 0, 1, 0])]);
+
+    expect(await vectorStore.getShard('web-dev')!.getDocumentCount()).toBe(1);
+    expect(await vectorStore.getShard('hotel')!.getDocumentCount()).toBe(4);
+    expect(await vectorStore.getDocumentCount()).toBe(6);
+  });
+
+  it('should rebuild one shard without touching the others', async () => {
+    await vectorStore.rebuildShard('hotel', [doc('hotel-9', 'hotel', [1, 0, 0, 0])]);
+
+    expect(await vectorStore.getShard('hotel')!.getDocumentCount()).toBe(1);
+    expect(await vectorStore.getShard('web-dev')!.getDocumentCount()).toBe(2);
+    await expect(
+      vectorStore.rebuildShard('hotel', [doc('web-9', 'web-dev', [0, 0, 1, 0])])
+    ).rejects.toThrow('do not belong to shard hotel');
+  });
+
+  it('should persist shards and reload them', async () => {
+    await vectorStore.save();
+
+    const reloaded = await createStore();
+
+    expect(reloaded.getShardNames().sort()).toEqual(['hotel', 'null-not-null', 'web-dev']);
+    expect(await reloaded.getDocumentCount()).toBe(6);
+    const results = await reloaded.search([0, 0, 0, 1], 1);
+    expect(results[0].document.id).toBe('null-1');
+  });
+
+  it('should refuse a layout written for another shard backend', async () => {
+    await vectorStore.save();
+
+    const mismatched = new ShardedVectorStore({
+      backend: 'sharded',
+      dimensions: 4,
+      indexPath: tempDir,
+      sharding: { backend: 'sqlite' }
+    });
+
+    await expect(mismatched.load()).rejects.toThrow('expected sqlite stores by domain');
+  });
+
+  it('should combine integrity reports across shards', async () => {
+    const report = await vectorStore.verify();
+
+    expect(report).toEqual({ ok: true, documentCount: 6, vectorCount: 6, issues: [] });
+  });
+});
@@ -0,0 +1,298 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import { MetadataFilter, allowedFieldValues } from './filter.js';
+import {
+  IntegrityReport,
+  ReembedFunction,
+  SearchResult,
+  ShardingOptions,
+  VectorDocument,
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreFactory
+} from '../vectorStore.js';
+
+interface ShardLayout {
+  field: string;
+  backend: Required<ShardingOptions>['backend'];
+  shards: string[];
+}
+
+const LAYOUT_FILE = 'shards.json';
+// Documents without a value for the shard field
+const UNASSIGNED_SHARD = 'unassigned';
+// Minimum hits fetched per shard so normalization has a score distribution to work with
+const MIN_SHARD_SAMPLE = 10;
+
+/**
+ * One vector store per value of a metadata field (the corpus domain by default).
+ *
+ * Searches fan out to every shard a filter can match and are merged by score.
+ * Shards share one embedding space, so raw cosine scores already compare;
+ * per-shard normalization is opt-in. Each shard lives in `indexPath/<shard>/`
+ * and can be rebuilt on its own with rebuildShard().
+ */
+export class ShardedVectorStore extends VectorStore {
+  private shards: Map<string, VectorStore> = new Map();
+  private options: Required<ShardingOptions>;
+  private rootDir: string;
+
+  constructor(config: VectorStoreConfig) {
+    super(config);
+    this.rootDir = config.indexPath || path.join(process.cwd(), 'data', 'embeddings', 'shards');
+    this.options = {
+      backend: config.sharding?.backend ?? 'faiss',
+      field: config.sharding?.field ?? 'domain',
+      normalization: config.sharding?.normalization ?? 'none'
+    };
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.load();
+      console.log(`Sharded vector store initialized with ${this.shards.size} shards`);
+    } catch (error) {
+      console.log('No existing shard layout found, starting fresh');
+    }
+
+    this.isInitialized = true;
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    const groups = new Map<string, VectorDocument[]>();
+    for (const doc of documents) {
+      const shard = this.shardFor(doc);
+      groups.set(shard, [...(groups.get(shard) || []), doc]);
+    }
+
+    for (const [name, docs] of groups) {
+      const shard = await this.getOrCreateShard(name);
+      await shard.addDocuments(docs);
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<number> {
+    let deleted = 0;
+    for (const shard of this.shards.values()) {
+      deleted += await shard.deleteDocuments(ids);
+    }
+    return deleted;
+  }
+
+  /**
+   * Search the shards the filter can match
+   */
+  async search(queryEmbedding: number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    const allowed = filter ? allowedFieldValues(filter, this.options.field) : null;
+    const names = Array.from(this.shards.keys()).filter(name => !allowed || allowed.includes(name));
+    return this.searchShards(queryEmbedding, k, names, filter);
+  }
+
+  /**
+   * Search only the named shards and merge their results.
+   * `score` stays the backend similarity; ordering uses the normalized score.
+   */
+  async searchShards(
+    queryEmbedding: number[],
+    k: number,
+    shardNames: string[],
+    filter?: MetadataFilter
+  ): Promise<SearchResult[]> {
+    const perShardK = this.options.normalization === 'none' ? k : Math.max(k, MIN_SHARD_SAMPLE);
+    const shardResults = await Promise.all(
+      shardNames
+        .filter(name => this.shards.has(name))
+        .map(name => this.shards.get(name)!.search(queryEmbedding, perShardK, filter))
+    );
+
+    const merged = shardResults.flatMap(results => {
+      const normalized = this.normalizeScores(results.map(result => result.score));
+      return results.map((result, i) => ({ result, normalized: normalized[i] }));
+    });
+
+    merged.sort((a, b) => b.normalized - a.normalized || b.result.score - a.result.score);
+    return merged.slice(0, k).map(({ result }) => result);
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    for (const shard of this.shards.values()) {
+      const document = await shard.getDocument(id);
+      if (document) {
+        return document;
+      }
+    }
+    return null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    let count = 0;
+    for (const shard of this.shards.values()) {
+      count += await shard.getDocumentCount();
+    }
+    return count;
+  }
+
+  async clear(): Promise<void> {
+    for (const shard of this.shards.values()) {
+      await shard.clear();
+    }
+
+    console.log('Sharded vector store cleared');
+  }
+
+  async save(): Promise<void> {
+    for (const shard of this.shards.values()) {
+      await shard.save();
+    }
+    await this.writeLayout();
+
+    console.log(`Sharded vector store saved to ${this.rootDir}`);
+  }
+
+  async load(): Promise<void> {
+    const layout: ShardLayout = JSON.parse(await fs.readFile(path.join(this.rootDir, LAYOUT_FILE), 'utf-8'));
+
+    if (layout.field !== this.options.field || layout.backend !== this.options.backend) {
+      throw new Error(
+        `Shard layout at ${this.rootDir} splits ${layout.backend} stores by ${layout.field}, ` +
+        `expected ${this.options.backend} stores by ${this.options.field}`
+      );
+    }
+
+    this.shards.clear();
+    for (const name of layout.shards) {
+      await this.getOrCreateShard(name);
+    }
+
+    console.log(`Sharded vector store loaded from ${this.rootDir}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.shards.size > 0) {
+      await this.writeLayout();
+    }
+    for (const shard of this.shards.values()) {
+      await shard.close();
+    }
+
+    this.shards.clear();
+    this.isInitialized = false;
+
+    console.log('Sharded vector store closed');
+  }
+
+  async verify(): Promise<IntegrityReport> {
+    return this.combineReports(
+      await Promise.all(Array.from(this.shards.values()).map(shard => shard.verify()))
+    );
+  }
+
+  /**
+   * Repair each shard on its own; a corrupt shard never touches the others
+   */
+  async repair(reembed?: ReembedFunction): Promise<IntegrityReport> {
+    const reports: IntegrityReport[] = [];
+    for (const shard of this.shards.values()) {
+      reports.push(await shard.repair(reembed));
+    }
+    return this.combineReports(reports);
+  }
+
+  getShardNames(): string[] {
+    return Array.from(this.shards.keys());
+  }
+
+  getShard(name: string): VectorStore | undefined {
+    return this.shards.get(name);
+  }
+
+  /**
+   * Replace one shard's contents and persist it, leaving other shards untouched
+   */
+  async rebuildShard(name: string, documents: VectorDocument[]): Promise<void> {
+    const misplaced = documents.filter(doc => this.shardFor(doc) !== name);
+    if (misplaced.length > 0) {
+      throw new Error(`${misplaced.length} documents do not belong to shard ${name} (first: ${misplaced[0].id})`);
+    }
+
+    const shard = await this.getOrCreateShard(name);
+    await shard.clear();
+    await shard.addDocuments(documents);
+    await shard.save();
+    await this.writeLayout();
+
+    console.log(`Rebuilt shard ${name} with ${documents.length} documents`);
+  }
+
+  private shardFor(doc: VectorDocument): string {
+    const value = doc.metadata[this.options.field];
+    return value === undefined || value === '' ? UNASSIGNED_SHARD : String(value);
+  }
+
+  private async getOrCreateShard(name: string): Promise<VectorStore> {
+    const existing = this.shards.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    // Shard names become directory names
+    if (!/^[\w.-]+$/.test(name) || name === '.' || name === '..') {
+      throw new Error(`Invalid shard name: ${name}`);
+    }
+
+    const shardDir = path.join(this.rootDir, name);
+    const shard = await VectorStoreFactory.create({
+      backend: this.options.backend,
+      dimensions: this.config.dimensions,
+      index: this.config.index,
+      indexPath: path.join(shardDir, this.options.backend === 'memory' ? 'memory.index' : 'faiss.index'),
+      connectionString: path.join(shardDir, 'vectors.sqlite')
+    });
+
+    this.shards.set(name, shard);
+    return shard;
+  }
+
+  /**
+   * Put one shard's scores on a scale comparable with the other shards
+   */
+  private normalizeScores(scores: number[]): number[] {
+    if (scores.length === 0 || this.options.normalization === 'none') {
+      return scores;
+    }
+
+    if (this.options.normalization === 'minmax') {
+      const min = Math.min(...scores);
+      const range = Math.max(...scores) - min;
+      return scores.map(score => (range > 0 ? (score - min) / range : 1));
+    }
+
+    const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+    return scores.map(score => (std > 0 ? (score - mean) / std : 0));
+  }
+
+  private combineReports(reports: IntegrityReport[]): IntegrityReport {
+    const names = Array.from(this.shards.keys());
+    return {
+      ok: reports.every(report => report.ok),
+      documentCount: reports.reduce((sum, report) => sum + report.documentCount, 0),
+      vectorCount: reports.reduce((sum, report) => sum + report.vectorCount, 0),
+      issues: reports.flatMap((report, i) =>
+        report.issues.map(issue => ({ ...issue, message: `[${names[i]}] ${issue.message}` }))
+      )
+    };
+  }
+
+  private async writeLayout(): Promise<void> {
+    const layout: ShardLayout = {
+      field: this.options.field,
+      backend: this.options.backend,
+      shards: Array.from(this.shards.keys())
+    };
+
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(path.join(this.rootDir, LAYOUT_FILE), JSON.stringify(layout, null, 2));
+  }
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { SnapshotManager, SnapshotManifestInput, computeCorpusHash } from './snapshots.js';
+
+describe('SnapshotManager', () => {
+  let rootDir: string;
+  let snapshots: SnapshotManager;
+
+  const manifest: SnapshotManifestInput = {
+    embeddingModel: 'text-embedding-3-small',
+    dimensions: 1536,
+    corpusHash: 'abc123',
+    chunker: { minTokens: 100, maxTokens: 300, overlapTokens: 50 },
+    documentCount: 2,
+    files: { index: 'faiss.index', lexicalIndex: 'bm25.json' }
+  };
+
+  // Write a version with one file in it and publish it
+  const publishVersion = async (documentCount: number) => {
+    const { version, dir } = await snapshots.createVersion();
+    await fs.writeFile(path.join(dir, 'faiss.index'), `index with ${documentCount} docs`);
+    await snapshots.publish(version, { ...manifest, documentCount });
+    return version;
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    snapshots = new SnapshotManager(rootDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should have no current snapshot before the first publish', async () => {
+    expect(await snapshots.getCurrent()).toBeNull();
+    expect(await snapshots.listVersions()).toEqual([]);
+  });
+
+  it('should only switch current once a version is published', async () => {
+    const first = await publishVersion(1);
+    const { version: pending } = await snapshots.createVersion();
+
+    const current = await snapshots.getCurrent();
+    expect(current?.version).toBe(first);
+    expect(current?.manifest).toMatchObject({ version: first, documentCount: 1, dimensions: 1536 });
+    expect(await snapshots.listVersions()).toEqual([first]);
+    expect(pending).not.toBe(first);
+  });
+
+  it('should roll back to the previous snapshot', async () => {
+    const first = await publishVersion(1);
+    const second = await publishVersion(2);
+    expect((await snapshots.getCurrent())?.version).toBe(second);
+
+    const rolledBack = await snapshots.rollback();
+
+    expect(rolledBack.version).toBe(first);
+    expect((await snapshots.getCurrent())?.manifest.documentCount).toBe(1);
+    await expect(snapshots.rollback()).rejects.toThrow('No earlier snapshot');
+  });
+
+  it('should prune versions beyond the newest ones kept', async () => {
+    const versions: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      versions.push(await publishVersion(i));
+    }
+
+    const { version } = await snapshots.createVersion();
+    await snapshots.publish(version, manifest, 2);
+
+    expect(await snapshots.listVersions()).toEqual([versions[2], version]);
+    await expect(fs.access(snapshots.versionDir(versions[0]))).rejects.toThrow();
+  });
+
+  it('should publish without activating when asked', async () => {
+    const live = await publishVersion(1);
+
+    const { version } = await snapshots.createVersion();
+    await snapshots.publish(version, { ...manifest, embeddingModel: 'text-embedding-3-large' }, 5, false);
+
+    expect((await snapshots.getCurrent())?.version).toBe(live);
+    expect(await snapshots.listVersions()).toEqual([live, version]);
+    expect((await snapshots.getVersion(version)).manifest.embeddingModel).toBe('text-embedding-3-large');
+  });
+
+  it('should leave no temporary pointer files behind', async () => {
+    await publishVersion(1);
+
+    const entries = await fs.readdir(rootDir);
+    expect(entries.filter(entry => entry.endsWith('.tmp'))).toEqual([]);
+    expect(entries).toContain('current.json');
+  });
+});
+
+describe('computeCorpusHash', () => {
+  it('should not depend on document order', () => {
+    const a = { id: 'a', content: 'first' };
+    const b = { id: 'b', content: 'second' };
+
+    expect(computeCorpusHash([a, b])).toBe(computeCorpusHash([b, a]));
+    expect(computeCorpusHash([a, b])).not.toBe(computeCorpusHash([a, { ...b, content: 'changed' }]));
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Versioned index snapshots
+ *
+ * Each seed writes a fresh directory under `snapshots/<version>` with a
+ * manifest, then repoints `current.json` with an atomic rename so readers
+ * never see a half-written index.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { VectorStoreConfig } from '../vectorStore.js';
+
+export interface SnapshotManifest {
+  version: string;
+  createdAt: string;
+  /** Model and dimensions every vector in the index was embedded with; queries must match */
+  embeddingModel: string;
+  dimensions: number;
+  /** Absent in manifests written before providers were recorded */
+  embeddingProvider?: string;
+  /** Vector store backend `files.index` was written with; absent means faiss */
+  backend?: VectorStoreConfig['backend'];
+  /** SHA-256 over chunk IDs and contents */
+  corpusHash: string;
+  chunker: Record<string, unknown>;
+  documentCount: number;
+  /** File names inside the snapshot directory */
+  files: {
+    /** FAISS index file, or the shard directory of a sharded snapshot */
+    index: string;
+    lexicalIndex?: string;
+    /** PCA reducer fitted on the corpus; queries are reduced with it before search */
+    reducer?: string;
+  };
+}
+
+export type SnapshotManifestInput = Omit<SnapshotManifest, 'version' | 'createdAt'>;
+
+export interface SnapshotInfo {
+  version: string;
+  dir: string;
+  manifest: SnapshotManifest;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const POINTER_FILE = 'current.json';
+
+/**
+ * Hash chunk IDs and contents so manifests show whether two snapshots index the same corpus
+ */
+export function computeCorpusHash(documents: Array<{ id: string; content: string }>): string {
+  const hash = createHash('sha256');
+  for (const doc of [...documents].sort((a, b) => a.id.localeCompare(b.id))) {
+    hash.update(doc.id).update('\0').update(doc.content).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+export class SnapshotManager {
+  constructor(
+    private rootDir: string = path.join(process.cwd(), 'data', 'embeddings', 'snapshots')
+  ) {}
+
+  /**
+   * Reserve a new, empty version directory to write a snapshot into
+   */
+  async createVersion(): Promise<{ version: string; dir: string }> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+
+    const base = new Date().toISOString().replace(/[:.]/g, '-');
+    for (let attempt = 0; ; attempt++) {
+      const version = attempt === 0 ? base : `${base}-${attempt}`;
+      const dir = this.versionDir(version);
+      try {
+        await fs.mkdir(dir);
+        return { version, dir };
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Record the manifest for a fully written version and, unless `activate` is
+   * false, make it current. Versions beyond the newest `keep` are removed (the
+   * current one never is).
+   */
+  async publish(
+    version: string,
+    input: SnapshotManifestInput,
+    keep: number = 5,
+    activate: boolean = true
+  ): Promise<SnapshotManifest> {
+    const manifest: SnapshotManifest = {
+      version,
+      createdAt: new Date().toISOString(),
+      ...input
+    };
+
+    await this.writeAtomic(path.join(this.versionDir(version), MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    if (activate) {
+      await this.activate(version);
+    }
+    await this.prune(keep);
+
+    return manifest;
+  }
+
+  /**
+   * Point `current` at an existing published version
+   */
+  async activate(version: string): Promise<SnapshotInfo> {
+    const manifest = await this.readManifest(version);
+    await this.writeAtomic(
+      path.join(this.rootDir, POINTER_FILE),
+      JSON.stringify({ version, activatedAt: new Date().toISOString() }, null, 2)
+    );
+    return { version, dir: this.versionDir(version), manifest };
+  }
+
+  /**
+   * The snapshot `current` points at, or null before the first publish
+   */
+  async getCurrent(): Promise<SnapshotInfo | null> {
+    let pointer: { version: string };
+    try {
+      pointer = JSON.parse(await fs.readFile(path.join(this.rootDir, POINTER_FILE), 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    return this.getVersion(pointer.version);
+  }
+
+  /**
+   * A published version, whether or not it is current
+   */
+  async getVersion(version: string): Promise<SnapshotInfo> {
+    return { version, dir: this.versionDir(version), manifest: await this.readManifest(version) };
+  }
+
+  /**
+   * Published versions, oldest first
+   */
+  async listVersions(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.rootDir);
+    } catch {
+      return [];
+    }
+
+    const published: string[] = [];
+    for (const entry of entries) {
+      try {
+        await fs.access(path.join(this.versionDir(entry), MANIFEST_FILE));
+        published.push(entry);
+      } catch {
+        // Unpublished (or in-progress) version directory
+      }
+    }
+    return published.sort();
+  }
+
+  /**
+   * Make the published version before the current one current again
+   */
+  async rollback(): Promise<SnapshotInfo> {
+    const current = await this.getCurrent();
+    const versions = await this.listVersions();
+    const position = current ? versions.indexOf(current.version) : versions.length;
+
+    if (position <= 0) {
+      throw new Error('No earlier snapshot to roll back to');
+    }
+    return this.activate(versions[position - 1]);
+  }
+
+  versionDir(version: string): string {
+    return path.join(this.rootDir, version);
+  }
+
+  private async readManifest(version: string): Promise<SnapshotManifest> {
+    return JSON.parse(await fs.readFile(path.join(this.versionDir(version), MANIFEST_FILE), 'utf-8'));
+  }
+
+  /**
+   * Remove old published versions, keeping the newest `keep` and the current one
+   */
+  private async prune(keep: number): Promise<void> {
+    const current = await this.getCurrent();
+    const versions = await this.listVersions();
+
+    for (const version of versions.slice(0, Math.max(0, versions.length - keep))) {
+      if (version !== current?.version) {
+        await fs.rm(this.versionDir(version), { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Write to a temporary file and rename it over the target; rename is atomic
+   */
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,206 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { SqliteVectorStore } from './sqliteStore.js';
+import { VectorDocument } from '../vectorStore.js';
+
+// The shared test setup mocks the VectorStore base class; this suite needs the real one
+vi.unmock('../vectorStore.js');
+
+describe('SqliteVectorStore', () => {
+  const testDimensions = 4;
+  let tempDir: string;
+  let dbPath: string;
+  let vectorStore: SqliteVectorStore;
+
+  const documents: VectorDocument[] = [
+    {
+      id: 'doc1',
+      content: 'Climate change is a global issue.',
+      embedding: [1, 0, 0, 0],
+      metadata: { source: 'climate.txt', domain: 'climate', chunkIndex: 0, tokens: 80 }
+    },
+    {
+      id: 'doc2',
+      content: 'Renewable energy is sustainable.',
+      embedding: [0, 1, 0, 0],
+      metadata: { source: 'energy.txt', domain: 'energy', chunkIndex: 1, tokens: 70 }
+    },
+    {
+      id: 'doc3',
+      content: 'Solar panels generate electricity.',
+      embedding: [0, 0.5, 0.5, 0],
+      metadata: { source: 'solar.txt', domain: 'energy', chunkIndex: 2, tokens: 75 }
+    }
+  ];
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-store-'));
+    dbPath = path.join(tempDir, 'vectors.sqlite');
+    vectorStore = new SqliteVectorStore({
+      backend: 'sqlite',
+      dimensions: testDimensions,
+      connectionString: dbPath
+    });
+    await vectorStore.initialize();
+  });
+
+  afterEach(async () => {
+    await vectorStore.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should initialize successfully', () => {
+    expect(vectorStore.isReady()).toBe(true);
+  });
+
+  it('should add and retrieve documents', async () => {
+    await vectorStore.addDocuments(documents);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+
+    const doc1 = await vectorStore.getDocument('doc1');
+    expect(doc1?.content).toBe('Climate change is a global issue.');
+    expect(doc1?.metadata).toEqual(documents[0].metadata);
+    expect(doc1?.embedding).toEqual([1, 0, 0, 0]);
+
+    expect(await vectorStore.getDocument('missing')).toBeNull();
+  });
+
+  it('should replace documents that are added again', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.addDocuments([{ ...documents[0], content: 'Updated content' }]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    expect((await vectorStore.getDocument('doc1'))?.content).toBe('Updated content');
+  });
+
+  it('should delete documents by id', async () => {
+    await vectorStore.addDocuments(documents);
+
+    expect(await vectorStore.deleteDocuments(['doc1', 'missing'])).toBe(1);
+    expect(await vectorStore.getDocumentCount()).toBe(2);
+    expect(await vectorStore.getDocument('doc1')).toBeNull();
+
+    const results = await vectorStore.search([1, 0, 0, 0], 3);
+    expect(results.map(r => r.document.id)).not.toContain('doc1');
+  });
+
+  it('should upsert documents without leaving stale vectors', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.upsertDocuments([{ ...documents[1], embedding: [0, 0, 0, 1] }]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    const results = await vectorStore.search([0, 1, 0, 0], 3);
+    expect(results.filter(r => r.document.id === 'doc2')).toHaveLength(1);
+    expect(results[0].document.id).toBe('doc3');
+  });
+
+  it('should run concurrent writes one transaction at a time', async () => {
+    await Promise.all([
+      vectorStore.addDocuments(documents.slice(0, 2)),
+      vectorStore.addDocuments(documents.slice(2)),
+      vectorStore.upsertDocuments([{ ...documents[0], content: 'Updated content' }])
+    ]);
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    expect((await vectorStore.getDocument('doc1'))?.content).toBe('Updated content');
+  });
+
+  it('should reject embeddings with the wrong dimensions', async () => {
+    await expect(
+      vectorStore.addDocuments([{ ...documents[0], embedding: [1, 0] }])
+    ).rejects.toThrow('Embedding dimension mismatch');
+    expect(await vectorStore.getDocumentCount()).toBe(0);
+  });
+
+  it('should rank search results by cosine similarity', async () => {
+    await vectorStore.addDocuments(documents);
+
+    const results = await vectorStore.search([0.1, 1, 0.2, 0], 2);
+
+    expect(results).toHaveLength(2);
+    expect(results[0].document.id).toBe('doc2');
+    expect(results[1].document.id).toBe('doc3');
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].distance).toBeCloseTo(1 - results[0].score);
+  });
+
+  it('should only return documents matching a metadata filter', async () => {
+    await vectorStore.addDocuments(documents);
+
+    const results = await vectorStore.search([1, 0.1, 0, 0], 3, { field: 'domain', equals: 'energy' });
+
+    expect(results.map(r => r.document.id)).toEqual(['doc2', 'doc3']);
+  });
+
+  it('should handle empty search results', async () => {
+    const results = await vectorStore.search([1, 0, 0, 0], 5);
+    expect(results).toHaveLength(0);
+  });
+
+  it('should clear all documents', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.clear();
+
+    expect(await vectorStore.getDocumentCount()).toBe(0);
+  });
+
+  it('should persist documents across reopen', async () => {
+    await vectorStore.addDocuments(documents);
+    await vectorStore.save();
+    await vectorStore.close();
+
+    vectorStore = new SqliteVectorStore({
+      backend: 'sqlite',
+      dimensions: testDimensions,
+      connectionString: dbPath
+    });
+    await vectorStore.initialize();
+
+    expect(await vectorStore.getDocumentCount()).toBe(3);
+    const results = await vectorStore.search([1, 0, 0, 0], 1);
+    expect(results[0].document.id).toBe('doc1');
+  });
+
+  it('should refuse to open a database written with other dimensions', async () => {
+    await vectorStore.close();
+
+    const mismatched = new SqliteVectorStore({
+      backend: 'sqlite',
+      dimensions: 8,
+      connectionString: dbPath
+    });
+
+    await expect(mismatched.initialize()).rejects.toThrow('has 4 dimensions, expected 8');
+  });
+
+  it('should report and drop rows whose embeddings have the wrong dimensions', async () => {
+    await vectorStore.addDocuments(documents);
+    expect((await vectorStore.verify()).ok).toBe(true);
+
+    // Corrupt one row through a second connection
+    const sqlite3 = (await import('sqlite3')).default;
+    const db = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => {
+      db.run(
+        'UPDATE documents SET embedding = ? WHERE id = ?',
+        [Buffer.from(Float32Array.from([1, 0]).buffer), 'doc2'],
+        (error: Error | null) => (error ? reject(error) : resolve())
+      );
+    });
+    await new Promise<void>(resolve => db.close(() => resolve()));
+
+    const report = await vectorStore.verify();
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'dimension_mismatch', ids: ['doc2'] })
+    ]);
+
+    const repaired = await vectorStore.repair();
+    expect(repaired.ok).toBe(true);
+    expect(repaired.documentCount).toBe(2);
+  });
+});
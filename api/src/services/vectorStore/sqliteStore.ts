@@ -0,0 +1,377 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+import type { Database } from 'sqlite3';
+
+import { MetadataFilter, matchesMetadataFilter } from './filter.js';
+import {
+  IntegrityIssue,
+  IntegrityReport,
+  SearchResult,
+  VectorDocument,
+  VectorStore,
+  VectorStoreConfig
+} from '../vectorStore.js';
+
+interface DocumentRow {
+  id: string;
+  content: string;
+  metadata: string;
+  embedding: Buffer;
+}
+
+export class SqliteVectorStore extends VectorStore {
+  private db: Database | null = null;
+  private sqlite: typeof import('sqlite3') | null = null;
+  // Last queued write; statements share one connection, so transactions must not overlap
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(config: VectorStoreConfig) {
+    super(config);
+    if (!config.connectionString) {
+      config.connectionString = path.join(process.cwd(), 'data', 'embeddings', 'vectors.sqlite');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    // Load sqlite3 module dynamically
+    const sqliteModule = await import('sqlite3');
+    this.sqlite = sqliteModule.default;
+
+    await this.load();
+    console.log(`SQLite vector store initialized with ${await this.getDocumentCount()} documents`);
+
+    this.isInitialized = true;
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    for (const doc of documents) {
+      if (doc.embedding.length !== this.config.dimensions) {
+        throw new Error(
+          `Embedding dimension mismatch for ${doc.id}: expected ${this.config.dimensions}, got ${doc.embedding.length}`
+        );
+      }
+    }
+
+    await this.queueWrite(async () => {
+      await this.run('BEGIN TRANSACTION');
+      try {
+        for (const doc of documents) {
+          await this.run(
+            'INSERT OR REPLACE INTO documents (id, content, metadata, embedding) VALUES (?, ?, ?, ?)',
+            [doc.id, doc.content, JSON.stringify(doc.metadata), this.encodeEmbedding(doc.embedding)]
+          );
+        }
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    });
+
+    if (documents.length > 0) {
+      console.log(`Added ${documents.length} documents to SQLite vector store`);
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<number> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    const deleted = await this.queueWrite(async () => {
+      let count = 0;
+      await this.run('BEGIN TRANSACTION');
+      try {
+        for (const id of ids) {
+          count += await this.run('DELETE FROM documents WHERE id = ?', [id]);
+        }
+        await this.run('COMMIT');
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+      return count;
+    });
+
+    if (deleted > 0) {
+      console.log(`Deleted ${deleted} documents from SQLite vector store`);
+    }
+    return deleted;
+  }
+
+  async search(queryEmbedding: number[], k: number, filter?: MetadataFilter): Promise<SearchResult[]> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    // Normalize query embedding
+    const normalizedQuery = this.normalizeVector(queryEmbedding);
+
+    // Exact scan: score every matching embedding, then hydrate only the top k rows
+    let rows = await this.all<{ id: string; metadata: string; embedding: Buffer }>(
+      'SELECT id, metadata, embedding FROM documents'
+    );
+    if (filter) {
+      rows = rows.filter(row => matchesMetadataFilter(JSON.parse(row.metadata), filter));
+    }
+    const scored = rows.map(row => ({
+      id: row.id,
+      score: this.cosineSimilarity(normalizedQuery, this.decodeEmbedding(row.embedding))
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    const searchResults: SearchResult[] = [];
+
+    for (const { id, score } of scored.slice(0, k)) {
+      const document = await this.getDocument(id);
+      if (document) {
+        searchResults.push({
+          document,
+          score: score, // Cosine similarity (higher is better)
+          distance: 1 - score // Convert to distance (lower is better)
+        });
+      }
+    }
+
+    return searchResults;
+  }
+
+  async getDocument(id: string): Promise<VectorDocument | null> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    const row = await this.get<DocumentRow>(
+      'SELECT id, content, metadata, embedding FROM documents WHERE id = ?',
+      [id]
+    );
+
+    return row ? this.rowToDocument(row) : null;
+  }
+
+  async getDocumentCount(): Promise<number> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    const row = await this.get<{ count: number }>('SELECT COUNT(*) AS count FROM documents');
+    return row!.count;
+  }
+
+  async clear(): Promise<void> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    await this.run('DELETE FROM documents');
+
+    console.log('SQLite vector store cleared');
+  }
+
+  async save(): Promise<void> {
+    if (!this.db || !this.config.connectionString) {
+      throw new Error('Cannot save: database or connection string not configured');
+    }
+
+    // Rows are written through on every insert; saving records the store settings
+    await this.run(
+      'INSERT OR REPLACE INTO store_info (key, value) VALUES (?, ?)',
+      ['savedAt', new Date().toISOString()]
+    );
+
+    console.log(`SQLite vector store saved to ${this.config.connectionString}`);
+  }
+
+  async load(): Promise<void> {
+    if (!this.config.connectionString) {
+      throw new Error('Connection string not configured');
+    }
+
+    if (this.db) {
+      await this.closeDatabase();
+    }
+
+    const dbPath = this.config.connectionString;
+    if (dbPath !== ':memory:') {
+      await fs.mkdir(path.dirname(dbPath), { recursive: true });
+    }
+
+    const sqlite = this.sqlite!;
+    this.db = await new Promise<Database>((resolve, reject) => {
+      const db = new sqlite.Database(dbPath, (error: Error | null) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(db);
+        }
+      });
+    });
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS documents (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        embedding BLOB NOT NULL
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS store_info (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
+    // A database written with other dimensions cannot be searched with this config
+    const row = await this.get<{ value: string }>(
+      'SELECT value FROM store_info WHERE key = ?',
+      ['dimensions']
+    );
+    if (row && parseInt(row.value) !== this.config.dimensions) {
+      await this.closeDatabase();
+      throw new Error(
+        `SQLite vector store at ${dbPath} has ${row.value} dimensions, expected ${this.config.dimensions}`
+      );
+    }
+    if (!row) {
+      await this.run(
+        'INSERT INTO store_info (key, value) VALUES (?, ?)',
+        ['dimensions', String(this.config.dimensions)]
+      );
+    }
+
+    console.log(`SQLite vector store loaded from ${dbPath}`);
+  }
+
+  async verify(): Promise<IntegrityReport> {
+    if (!this.db) {
+      throw new Error('Vector store not initialized');
+    }
+
+    const issues: IntegrityIssue[] = [];
+    const documentCount = await this.getDocumentCount();
+
+    // Each row carries its own float32 embedding blob
+    const rows = await this.all<{ id: string }>(
+      'SELECT id FROM documents WHERE length(embedding) != ?',
+      [this.config.dimensions * Float32Array.BYTES_PER_ELEMENT]
+    );
+    if (rows.length > 0) {
+      issues.push({
+        type: 'dimension_mismatch',
+        message: `${rows.length} documents have embeddings without ${this.config.dimensions} dimensions`,
+        ids: rows.map(row => row.id)
+      });
+    }
+
+    return { ok: issues.length === 0, documentCount, vectorCount: documentCount, issues };
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.closeDatabase();
+    }
+
+    this.isInitialized = false;
+
+    console.log('SQLite vector store closed');
+  }
+
+  private async closeDatabase(): Promise<void> {
+    // Let queued writes commit first
+    await this.writes;
+    const db = this.db!;
+    await new Promise<void>((resolve, reject) => {
+      db.close((error: Error | null) => (error ? reject(error) : resolve()));
+    });
+    this.db = null;
+  }
+
+  /**
+   * Queue a write behind the ones already running; only one may hold the connection's transaction
+   */
+  private queueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const queued = this.writes.then(write);
+    // A failed write must not block the ones queued behind it
+    this.writes = queued.catch(() => {});
+    return queued;
+  }
+
+  /**
+   * Run a statement, resolving with the number of rows it changed
+   */
+  private run(sql: string, params: unknown[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db!.run(sql, params, function (this: { changes: number }, error: Error | null) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this.db!.get<T | undefined>(sql, params, (error, row) => (error ? reject(error) : resolve(row)));
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db!.all<T>(sql, params, (error, rows) => (error ? reject(error) : resolve(rows)));
+    });
+  }
+
+  private rowToDocument(row: DocumentRow): VectorDocument {
+    return {
+      id: row.id,
+      content: row.content,
+      embedding: this.decodeEmbedding(row.embedding),
+      metadata: JSON.parse(row.metadata)
+    };
+  }
+
+  /**
+   * Store embeddings as little-endian float32 blobs
+   */
+  private encodeEmbedding(embedding: number[]): Buffer {
+    const floats = Float32Array.from(embedding);
+    return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+  }
+
+  private decodeEmbedding(blob: Buffer): number[] {
+    // Copy first: Buffers handed back by sqlite3 are not guaranteed to be 4-byte aligned
+    return Array.from(new Float32Array(new Uint8Array(blob).buffer));
+  }
+
+  /**
+   * Cosine similarity against an already normalized query
+   */
+  private cosineSimilarity(normalizedQuery: number[], embedding: number[]): number {
+    let dot = 0;
+    let magnitude = 0;
+    for (let i = 0; i < embedding.length; i++) {
+      dot += normalizedQuery[i] * embedding[i];
+      magnitude += embedding[i] * embedding[i];
+    }
+    return magnitude === 0 ? 0 : dot / Math.sqrt(magnitude);
+  }
+
+  /**
+   * Normalize vector for cosine similarity
+   */
+  private normalizeVector(vector: number[]): number[] {
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    if (magnitude === 0) {
+      return vector; // Avoid division by zero
+    }
+    return vector.map(val => val / magnitude);
+  }
+}
@@ -8,6 +8,10 @@ config({ path: 'api/.env' });
 process.env.OPENAI_API_KEY = 'mock-api-key-for-testing';
 // Set NODE_ENV to test to skip real service initialization
 process.env.NODE_ENV = 'test';
+// Keep tests from writing the embedding cache under data/
+process.env.EMBEDDING_CACHE = 'off';
+// Count tokens by estimate rather than whichever vocab happens to be on disk
+process.env.TOKENIZER_VOCAB_PATH = 'none';
 
 console.log('Setting up test mocks for API tests');
 
@@ -50,7 +54,11 @@ vi.mock('../services/embedding.js', () => ({
       embedding: new Array(1536).fill(0.1), // Mock 1536-dimensional embedding
       model: 'text-embedding-3-small',
       usage: { prompt_tokens: 10, total_tokens: 10 }
-    })
+    }),
+    getModel: vi.fn().mockReturnValue('text-embedding-3-small'),
+    getDimensions: vi.fn().mockReturnValue(1536),
+    getProviderDimensions: vi.fn().mockReturnValue(1536),
+    setReducer: vi.fn()
   }))
 }));
 
@@ -60,6 +68,9 @@ vi.mock('../services/vectorStore.js', () => ({
     initialize: vi.fn().mockResolvedValue(undefined),
     isReady: vi.fn().mockReturnValue(true),
     addDocuments: vi.fn().mockResolvedValue(undefined),
+    deleteDocuments: vi.fn().mockResolvedValue(0),
+    upsertDocuments: vi.fn().mockResolvedValue(undefined),
+    verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 0, vectorCount: 0, issues: [] }),
     getDocumentCount: vi.fn().mockResolvedValue(0),
     getDocument: vi.fn().mockResolvedValue(null),
     search: vi.fn().mockResolvedValue([]),
@@ -71,6 +82,9 @@ vi.mock('../services/vectorStore.js', () => ({
       initialize: vi.fn().mockResolvedValue(undefined),
       isReady: vi.fn().mockReturnValue(true),
       addDocuments: vi.fn().mockResolvedValue(undefined),
+      deleteDocuments: vi.fn().mockResolvedValue(0),
+      upsertDocuments: vi.fn().mockResolvedValue(undefined),
+      verify: vi.fn().mockResolvedValue({ ok: true, documentCount: 0, vectorCount: 0, issues: [] }),
       getDocumentCount: vi.fn().mockResolvedValue(0),
       getDocument: vi.fn().mockResolvedValue(null),
       search: vi.fn().mockResolvedValue([
@@ -125,6 +139,7 @@ vi.mock('../services/nullness.js', () => ({
   NullnessService: vi.fn().mockImplementation(() => ({
     updateNullness: vi.fn().mockResolvedValue(undefined),
     getCurrentNullness: vi.fn().mockResolvedValue(0.3), // Mock moderate nullness
+    getTrackedConcepts: vi.fn().mockResolvedValue([]),
     getNullnessHistory: vi.fn().mockImplementation(async (concept) => {
       // Return empty array for non-existent concepts
       if (concept === 'non-existent-concept') {
@@ -413,6 +428,59 @@ vi.mock('../services/ranking.js', () => {
         parameters: { alpha, beta, gamma },
         empathyProfile: empathyProfile
       });
+    }),
+    explainVOLaM: vi.fn().mockImplementation((query, k = 3, alpha = 0.6, beta = 0.3, gamma = 0.1, empathyProfile = 'default') => {
+      const empathyFit = empathyProfile === 'climate_focused' ? 0.8 : 0.7;
+      const contributions = (cosine: number, nullness: number) => ({
+        cosine: { value: cosine, weight: alpha, contribution: alpha * cosine },
+        certainty: { value: 1 - nullness, weight: beta, contribution: beta * (1 - nullness) },
+        empathy: { value: empathyFit, weight: gamma, contribution: gamma * empathyFit }
+      });
+
+      // Create explanations limited by k parameter
+      const allEvidence = [
+        {
+          id: 'mock-doc-1',
+          content: 'This is mock evidence about nullness in VOLaM theory.',
+          score: alpha * 0.85 + beta * (1 - 0.15) + gamma * empathyFit,
+          source: 'mock-source-1.txt',
+          volamRank: 1,
+          baselineRank: 1,
+          contributions: contributions(0.85, 0.15),
+          empathyTags: { stakeholders: ['researchers'], topics: ['theory'] },
+          counterfactuals: { cosine: { rank: 1, change: 0 }, certainty: { rank: 1, change: 0 }, empathy: { rank: 1, change: 0 } }
+        },
+        {
+          id: 'mock-doc-2',
+          content: 'Additional mock evidence explaining theoretical foundations.',
+          score: alpha * 0.78 + beta * (1 - 0.22) + gamma * empathyFit,
+          source: 'mock-source-2.txt',
+          volamRank: 2,
+          baselineRank: 2,
+          contributions: contributions(0.78, 0.22),
+          empathyTags: { stakeholders: ['researchers'], topics: ['theory'] },
+          counterfactuals: { cosine: { rank: 2, change: 0 }, certainty: { rank: 2, change: 0 }, empathy: { rank: 2, change: 0 } }
+        },
+        {
+          id: 'mock-doc-3',
+          content: 'Third piece of mock evidence for comprehensive answers.',
+          score: alpha * 0.72 + beta * (1 - 0.28) + gamma * empathyFit,
+          source: 'mock-source-3.txt',
+          volamRank: 3,
+          baselineRank: 3,
+          contributions: contributions(0.72, 0.28),
+          empathyTags: { stakeholders: [], topics: [] },
+          counterfactuals: { cosine: { rank: 3, change: 0 }, certainty: { rank: 3, change: 0 }, empathy: { rank: 3, change: 0 } }
+        }
+      ];
+
+      return Promise.resolve({
+        query,
+        parameters: { alpha, beta, gamma },
+        empathyProfile,
+        candidates: allEvidence.length,
+        evidence: allEvidence.slice(0, k) // Respect k parameter
+      });
     })
   };
 
@@ -178,6 +178,9 @@ export interface VOLaMParameters {
   
   /** Weight for empathy fit component [0, 1] */
   gamma: number;
+
+  /** Weights for further scoring components, e.g. recency or source authority */
+  weights?: Record<string, number>;
 }
 
 /**
@@ -208,6 +211,50 @@ export interface RankingResult {
   empathyProfile?: string; // Profile ID
 }
 
+/**
+ * Why one piece of evidence ranks where it does under VOLaM
+ */
+export interface EvidenceExplanation {
+  id: string;
+  source: string;
+  content: string;
+  
+  /** VOLaM score: sum of the contributions */
+  score: number;
+  
+  /** Position under VOLaM (1 = top) */
+  volamRank: number;
+  
+  /** Position in baseline mode, i.e. retrieval order */
+  baselineRank: number;
+  
+  /** Value, weight and weight × value of each weighted scoring component, e.g. α·cosine */
+  contributions: Record<string, { value: number; weight: number; contribution: number }>;
+  
+  /** Stakeholders and topics the empathy fit was computed from */
+  empathyTags: { stakeholders: string[]; topics: string[] };
+  
+  /**
+   * Position if a component's weight were zero; `change` is that rank minus
+   * volamRank, so positive means the component lifts this evidence
+   */
+  counterfactuals: Record<string, { rank: number; change: number }>;
+}
+
+/**
+ * Explanation of a VOLaM ranking, for the top k evidence pieces
+ */
+export interface RankingExplanation {
+  query: string;
+  parameters: VOLaMParameters;
+  empathyProfile?: string;
+  
+  /** Candidates the ranks are relative to */
+  candidates: number;
+  
+  evidence: EvidenceExplanation[];
+}
+
 /**
  * Type guard to check if an object is a valid Evidence
  */
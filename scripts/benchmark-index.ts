@@ -0,0 +1,293 @@
+#!/usr/bin/env tsx
+
+/**
+ * Index benchmark script: Compare approximate FAISS indexes against the flat index
+ * Usage: npm run benchmark:index [--k=10] [--queries=50] [--seed=42] [--nlist=<n>] [--m=<n>]
+ *
+ * faiss-node cannot set search parameters: IVF searches probe one cluster and
+ * HNSW searches use the FAISS default efSearch.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+interface BenchmarkOptions {
+  k: number;
+  queries: number;
+  seed: number;
+  nlist?: number;
+  m?: number;
+}
+
+// API shapes this script uses; the scripts build cannot import api/ types (its rootDir is scripts/)
+interface IndexOptions {
+  type: 'flat' | 'ivf' | 'hnsw';
+  nlist?: number;
+  m?: number;
+}
+
+interface BenchmarkDocument {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: { domain: string; source: string; chunkIndex: number; tokens: number };
+}
+
+interface BenchmarkStore {
+  addDocuments(documents: BenchmarkDocument[]): Promise<void>;
+  search(queryEmbedding: number[], k: number): Promise<Array<{ document: { id: string } }>>;
+  getIndexOptions(): IndexOptions;
+}
+
+// embeddings.json as the seed writes it
+interface EmbeddingsFile {
+  dimensions: number;
+  chunks: Array<{ id: string; content: string; embedding: number[]; domain: string; source: string; tokens: number }>;
+}
+
+interface BenchmarkCorpus {
+  source: string;
+  dimensions: number;
+  documents: BenchmarkDocument[];
+}
+
+interface BenchmarkRow {
+  name: string;
+  index: IndexOptions;
+  buildMs: number;
+  recall: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+}
+
+class IndexBenchmark {
+  private dataDir = path.join(process.cwd(), 'data');
+  private resultsDir = path.join(process.cwd(), 'reports');
+  private random: () => number;
+
+  constructor(private options: BenchmarkOptions) {
+    this.random = this.createRandom(options.seed);
+    console.log(`🎲 Using seed: ${options.seed}`);
+  }
+
+  async run(): Promise<void> {
+    console.log('⏱️  Starting index benchmark...');
+
+    try {
+      const corpus = await this.loadCorpus();
+      const queries = this.sampleQueries(corpus);
+      const nlist = this.options.nlist ?? Math.max(1, Math.round(Math.sqrt(corpus.documents.length)));
+
+      const configs: Array<{ name: string; index: IndexOptions }> = [
+        { name: 'flat', index: { type: 'flat' } },
+        { name: 'ivf', index: { type: 'ivf', nlist } },
+        { name: 'hnsw', index: { type: 'hnsw', m: this.options.m } }
+      ];
+
+      const rows: BenchmarkRow[] = [];
+      let groundTruth: string[][] = [];
+
+      for (const config of configs) {
+        console.log(`🔍 Benchmarking ${config.name} index...`);
+        const { row, results } = await this.benchmarkIndex(config.name, config.index, corpus, queries, groundTruth);
+        if (config.name === 'flat') {
+          // The exact index is the reference every other index is scored against
+          groundTruth = results;
+          row.recall = 1;
+        }
+        rows.push(row);
+      }
+
+      await this.saveReport(corpus, rows);
+
+      console.log('✅ Index benchmark completed!');
+      for (const row of rows) {
+        console.log(`  ${row.name}: recall@${this.options.k}=${row.recall.toFixed(3)}, avg=${row.avgLatencyMs.toFixed(3)}ms, p95=${row.p95LatencyMs.toFixed(3)}ms`);
+      }
+    } catch (error) {
+      console.error('❌ Index benchmark failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private async loadCorpus(): Promise<BenchmarkCorpus> {
+    const embeddingsPath = path.join(this.dataDir, 'embeddings', 'embeddings.json');
+
+    try {
+      const data: EmbeddingsFile = JSON.parse(await fs.readFile(embeddingsPath, 'utf-8'));
+      console.log(`📚 Loaded ${data.chunks.length} embedded chunks from ${embeddingsPath}`);
+      return {
+        source: embeddingsPath,
+        dimensions: data.dimensions,
+        documents: data.chunks.map((chunk, chunkIndex) => ({
+          id: chunk.id,
+          content: chunk.content,
+          embedding: chunk.embedding,
+          metadata: { domain: chunk.domain, source: chunk.source, chunkIndex, tokens: chunk.tokens }
+        }))
+      };
+    } catch {
+      console.log('⚠️  No embeddings found (run make seed). Using a synthetic clustered corpus...');
+      return this.createSyntheticCorpus(1000, 128, 20);
+    }
+  }
+
+  private createSyntheticCorpus(count: number, dimensions: number, clusters: number): BenchmarkCorpus {
+    const centroids = Array.from({ length: clusters }, () => this.randomVector(dimensions, 1));
+
+    return {
+      source: `synthetic (${count} vectors, ${dimensions} dims, ${clusters} clusters)`,
+      dimensions,
+      documents: Array.from({ length: count }, (_, i) => {
+        const centroid = centroids[i % clusters];
+        const noise = this.randomVector(dimensions, 0.3);
+        return {
+          id: `synthetic-${i}`,
+          content: `Synthetic document ${i}`,
+          embedding: centroid.map((val, d) => val + noise[d]),
+          metadata: { domain: `cluster-${i % clusters}`, source: 'synthetic', chunkIndex: i, tokens: 0 }
+        };
+      })
+    };
+  }
+
+  /**
+   * Queries are perturbed copies of randomly chosen corpus embeddings
+   */
+  private sampleQueries(corpus: BenchmarkCorpus): number[][] {
+    return Array.from({ length: this.options.queries }, () => {
+      const doc = corpus.documents[Math.floor(this.random() * corpus.documents.length)];
+      const noise = this.randomVector(corpus.dimensions, 0.05);
+      return doc.embedding.map((val, d) => val + noise[d]);
+    });
+  }
+
+  private async benchmarkIndex(
+    name: string,
+    index: IndexOptions,
+    corpus: BenchmarkCorpus,
+    queries: number[][],
+    groundTruth: string[][]
+  ): Promise<{ row: BenchmarkRow; results: string[][] }> {
+    // Import vector store (using file:// URL for Windows compatibility)
+    const vectorStorePath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore.js').replace(/\\/g, '/'));
+    const { VectorStoreFactory } = await import(vectorStorePath.href);
+
+    // Build in a scratch directory so the real index is never touched
+    const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), `volam-benchmark-${name}-`));
+    const vectorStore: BenchmarkStore = await VectorStoreFactory.create({
+      backend: 'faiss',
+      dimensions: corpus.dimensions,
+      indexPath: path.join(scratchDir, 'faiss.index'),
+      index
+    });
+
+    const buildStart = performance.now();
+    await vectorStore.addDocuments(corpus.documents);
+    const buildMs = performance.now() - buildStart;
+
+    const latencies: number[] = [];
+    const results: string[][] = [];
+    for (const query of queries) {
+      const start = performance.now();
+      const hits = await vectorStore.search(query, this.options.k);
+      latencies.push(performance.now() - start);
+      results.push(hits.map(hit => hit.document.id));
+    }
+
+    await fs.rm(scratchDir, { recursive: true, force: true });
+
+    const recall = groundTruth.length > 0
+      ? results.reduce((sum, ids, i) => {
+          const expected = new Set(groundTruth[i]);
+          return sum + ids.filter(id => expected.has(id)).length / Math.max(expected.size, 1);
+        }, 0) / results.length
+      : 1;
+
+    latencies.sort((a, b) => a - b);
+    const row: BenchmarkRow = {
+      name,
+      index: vectorStore.getIndexOptions(),
+      buildMs,
+      recall,
+      avgLatencyMs: latencies.reduce((sum, l) => sum + l, 0) / latencies.length,
+      p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))]
+    };
+
+    return { row, results };
+  }
+
+  private async saveReport(corpus: BenchmarkCorpus, rows: BenchmarkRow[]): Promise<void> {
+    await fs.mkdir(this.resultsDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const lines = [
+      '# Index Benchmark: Recall vs Latency',
+      `Generated: ${new Date().toISOString()}`,
+      `Seed: ${this.options.seed}`,
+      `Corpus: ${corpus.source}`,
+      `Documents: ${corpus.documents.length}, Queries: ${this.options.queries}, k: ${this.options.k}`,
+      'Search parameters: FAISS defaults (faiss-node cannot set nprobe or efSearch)',
+      '',
+      `| Index | Parameters | Build (ms) | Recall@${this.options.k} | Avg Latency (ms) | P95 Latency (ms) |`,
+      '|-------|------------|------------|-----------|------------------|------------------|'
+    ];
+
+    for (const row of rows) {
+      const params = row.index.type === 'ivf'
+        ? `nlist=${row.index.nlist}`
+        : row.index.type === 'hnsw'
+          ? `m=${row.index.m ?? 32}`
+          : 'exact';
+      lines.push(`| ${row.name} | ${params} | ${row.buildMs.toFixed(1)} | ${row.recall.toFixed(3)} | ${row.avgLatencyMs.toFixed(3)} | ${row.p95LatencyMs.toFixed(3)} |`);
+    }
+
+    const reportFilename = `index-benchmark-${timestamp}.md`;
+    await fs.writeFile(path.join(this.resultsDir, reportFilename), lines.join('\n'));
+    console.log(`💾 Benchmark report saved to: ${reportFilename}`);
+  }
+
+  private randomVector(dimensions: number, scale: number): number[] {
+    return Array.from({ length: dimensions }, () => (this.random() * 2 - 1) * scale);
+  }
+
+  /**
+   * Mulberry32 PRNG so runs with the same seed pick the same queries
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): BenchmarkOptions {
+  const options: BenchmarkOptions = { k: 10, queries: 50, seed: 42 };
+
+  for (const arg of process.argv.slice(2)) {
+    const match = arg.match(/^--(k|queries|seed|nlist|m)=(.+)$/);
+    if (!match) {
+      continue;
+    }
+
+    const value = parseInt(match[2], 10);
+    if (isNaN(value) || value <= 0) {
+      console.error(`❌ Invalid value for --${match[1]}. Must be a positive number.`);
+      process.exit(1);
+    }
+    options[match[1] as keyof BenchmarkOptions] = value;
+  }
+
+  return options;
+}
+
+// Run the index benchmark
+const benchmark = new IndexBenchmark(parseArgs());
+benchmark.run();
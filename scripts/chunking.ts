@@ -15,16 +15,29 @@ export interface Chunk {
   };
 }
 
+/**
+ * Token counting used for chunk sizes; the API's shared tokenizer satisfies this
+ */
+export interface TokenCounter {
+  readonly name: string;
+  count(text: string): number;
+}
+
+// Used when no tokenizer is supplied: 1 token ≈ 4 characters
+const ESTIMATING_COUNTER: TokenCounter = {
+  name: 'estimate-4-chars',
+  count: (text: string) => Math.ceil(text.length / 4)
+};
+
 export class ChunkingService {
   private readonly minTokens = 100;
   private readonly maxTokens = 300;
   private readonly overlapTokens = 50;
 
-  /**
-   * Estimate token count (rough approximation: 1 token ≈ 4 characters)
-   */
+  constructor(private tokenizer: TokenCounter = ESTIMATING_COUNTER) {}
+
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return this.tokenizer.count(text);
   }
 
   /**
@@ -99,12 +112,15 @@ export class ChunkingService {
   }
 
   /**
-   * Get overlap text from the end of current chunk
+   * Get overlap text from the end of current chunk: trailing words up to overlapTokens
    */
   private getOverlapText(text: string, overlapTokens: number): string {
     const words = text.split(' ');
-    const overlapWords = Math.min(overlapTokens / 4, words.length); // Rough estimate
-    return words.slice(-overlapWords).join(' ');
+    let start = words.length;
+    while (start > 0 && this.estimateTokens(words.slice(start - 1).join(' ')) <= overlapTokens) {
+      start--;
+    }
+    return words.slice(start).join(' ');
   }
 
   /**
@@ -192,6 +208,18 @@ export class ChunkingService {
   /**
    * Get chunking statistics
    */
+  /**
+   * Chunker parameters, recorded in index snapshot manifests
+   */
+  public getSettings(): { minTokens: number; maxTokens: number; overlapTokens: number; tokenizer: string } {
+    return {
+      minTokens: this.minTokens,
+      maxTokens: this.maxTokens,
+      overlapTokens: this.overlapTokens,
+      tokenizer: this.tokenizer.name
+    };
+  }
+
   public getChunkingStats(chunks: Chunk[]): {
     totalChunks: number;
     domainStats: Record<string, { count: number; avgTokens: number }>;
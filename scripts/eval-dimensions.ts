@@ -0,0 +1,293 @@
+#!/usr/bin/env tsx
+
+/**
+ * Dimension evaluation script: Compare retrieval quality and index size across embedding dimensions
+ * Usage: npm run eval:dimensions [--dims=256,512,1536] [--k=10] [--reducer=none|pca]
+ *
+ * Every corpus chunk and Q/A question is embedded at each dimension count and
+ * searched exactly, so differences come from the embeddings alone. A question
+ * is answered when a chunk from one of its cited source files is retrieved.
+ *
+ * OpenAI v3 models shorten embeddings natively. The local provider embeds once
+ * at the largest count and a PCA fitted on the corpus reduces to the others
+ * (the default for local); --reducer=none hashes into fewer buckets instead.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from 'dotenv';
+
+import { Chunk, ChunkingService } from './chunking.js';
+
+// Load environment variables
+config();
+
+interface DimensionOptions {
+  dims: number[];
+  k: number;
+  reducer?: 'none' | 'pca';
+}
+
+interface EvalQuestion {
+  id: string;
+  query: string;
+  /** `<domain>/<source>` of each cited file present in the corpus */
+  sources: string[];
+}
+
+// API shapes this script reads; the scripts build cannot import api/ types (its rootDir is scripts/)
+interface EmbeddingFailure {
+  error: string;
+}
+type EmbeddingBatchItem = { embedding: number[]; tokens: number } | EmbeddingFailure;
+
+interface EvalEmbeddingService {
+  embedBatch(texts: string[]): Promise<EmbeddingBatchItem[]>;
+  getProviderName(): string;
+  getModel(): string;
+  close(): Promise<void>;
+}
+
+interface QaDataset {
+  questions: Array<{ id: string; question: string; citations: Array<{ sourceFile: string }> }>;
+}
+
+interface DimensionRow {
+  dimensions: number;
+  method: string;
+  hitAt1: number;
+  hitAtK: number;
+  mrr: number;
+  /** Mean share of the largest dimension's top k also retrieved here */
+  overlap: number;
+  indexBytes: number;
+  retainedVariance?: number;
+  embedMs: number;
+}
+
+class DimensionEvaluator {
+  private dataDir = path.join(process.cwd(), 'data');
+  private resultsDir = path.join(process.cwd(), 'reports');
+
+  constructor(private options: DimensionOptions) {}
+
+  async run(): Promise<void> {
+    console.log('📐 Starting embedding dimension evaluation...');
+
+    try {
+      // Import services (using file:// URL for Windows compatibility)
+      const embeddingPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding.js').replace(/\\/g, '/'));
+      const tokenizerPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/tokenizer.js').replace(/\\/g, '/'));
+      const pcaPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding/pca.js').replace(/\\/g, '/'));
+      const { EmbeddingService } = await import(embeddingPath.href);
+      const { getTokenizer } = await import(tokenizerPath.href);
+      const { PcaReducer } = await import(pcaPath.href);
+
+      const chunks = await new ChunkingService(getTokenizer()).chunkCorpus(path.join(this.dataDir, 'corpus'));
+      const questions = await this.loadQuestions(chunks);
+      if (chunks.length === 0 || questions.length === 0) {
+        throw new Error('Need corpus chunks and Q/A questions citing them. Check data/corpus and data/evaluation.');
+      }
+      console.log(`📚 ${chunks.length} chunks, ${questions.length} questions with a cited source in the corpus`);
+
+      const dims = [...this.options.dims].sort((a, b) => b - a);
+      const texts = [...chunks.map(chunk => chunk.content), ...questions.map(question => question.query)];
+      const probe = new EmbeddingService({ dimensions: dims[0] });
+      const reducer = this.options.reducer ?? (probe.getProviderName() === 'local' ? 'pca' : 'none');
+      console.log(`🧠 Provider: ${probe.getProviderName()} (${probe.getModel()}), smaller dimensions by ${reducer === 'pca' ? 'PCA' : 'the provider'}`);
+
+      const rows: DimensionRow[] = [];
+      let reference: string[][] = [];
+      let full: number[][] = [];
+
+      for (const dimensions of dims) {
+        console.log(`🔢 Evaluating ${dimensions} dimensions...`);
+        const start = performance.now();
+        let embeddings: number[][];
+        let retainedVariance: number | undefined;
+
+        if (reducer === 'pca' && dimensions < dims[0]) {
+          // Fit on the corpus only, as seeding does, then project chunks and questions alike
+          const fitted = PcaReducer.fit(full.slice(0, chunks.length), dimensions);
+          embeddings = full.map(embedding => fitted.transform(embedding));
+          retainedVariance = fitted.getRetainedVariance();
+        } else {
+          const service = dimensions === dims[0] ? probe : new EmbeddingService({ dimensions });
+          embeddings = await this.embedAll(service, texts);
+          await service.close();
+          if (dimensions === dims[0]) {
+            full = embeddings;
+          }
+        }
+        const embedMs = performance.now() - start;
+
+        const rankings = this.search(embeddings.slice(0, chunks.length), embeddings.slice(chunks.length), chunks);
+        if (dimensions === dims[0]) {
+          reference = rankings;
+        }
+
+        rows.push({
+          dimensions,
+          method: dimensions === dims[0] ? 'full' : reducer,
+          ...this.score(rankings, questions, chunks),
+          overlap: this.overlap(rankings, reference),
+          indexBytes: chunks.length * dimensions * 4,
+          retainedVariance,
+          embedMs
+        });
+      }
+
+      await this.saveReport(probe, chunks, questions, rows);
+
+      console.log('✅ Dimension evaluation completed!');
+      for (const row of rows) {
+        console.log(
+          `  ${row.dimensions} dims (${row.method}): hit@1=${row.hitAt1.toFixed(3)}, hit@${this.options.k}=${row.hitAtK.toFixed(3)}, ` +
+          `MRR=${row.mrr.toFixed(3)}, overlap=${row.overlap.toFixed(3)}, index=${(row.indexBytes / 1024).toFixed(1)} KB`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Dimension evaluation failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Q/A questions, keeping only cited sources that exist in the chunked corpus
+   */
+  private async loadQuestions(chunks: Chunk[]): Promise<EvalQuestion[]> {
+    const datasetPath = path.join(this.dataDir, 'evaluation', 'qa-dataset.json');
+    const dataset: QaDataset = JSON.parse(await fs.readFile(datasetPath, 'utf-8'));
+    const corpusSources = new Set(chunks.map(chunk => `${chunk.domain}/${chunk.source}`));
+
+    return dataset.questions
+      .map(q => ({
+        id: q.id,
+        query: q.question,
+        sources: q.citations
+          .map(c => c.sourceFile.replace(/\.txt$/, ''))
+          .filter(source => corpusSources.has(source))
+      }))
+      .filter(question => question.sources.length > 0);
+  }
+
+  private async embedAll(service: EvalEmbeddingService, texts: string[]): Promise<number[][]> {
+    const results = await service.embedBatch(texts);
+    const failed = results.find((result): result is EmbeddingFailure => 'error' in result);
+    if (failed) {
+      throw new Error(`Embedding failed: ${failed.error}`);
+    }
+    return results.flatMap(result => ('error' in result ? [] : [result.embedding]));
+  }
+
+  /**
+   * Exact cosine search: chunk IDs of the top k for each query
+   */
+  private search(documents: number[][], queries: number[][], chunks: Chunk[]): string[][] {
+    const normalize = (vector: number[]) => {
+      const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0)) || 1;
+      return vector.map(val => val / magnitude);
+    };
+    const normalized = documents.map(normalize);
+
+    return queries.map(query => {
+      const q = normalize(query);
+      return normalized
+        .map((vector, i) => ({ id: chunks[i].id, score: vector.reduce((sum, val, j) => sum + val * q[j], 0) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, this.options.k)
+        .map(({ id }) => id);
+    });
+  }
+
+  private score(rankings: string[][], questions: EvalQuestion[], chunks: Chunk[]): Pick<DimensionRow, 'hitAt1' | 'hitAtK' | 'mrr'> {
+    const sourceOf = new Map(chunks.map(chunk => [chunk.id, `${chunk.domain}/${chunk.source}`]));
+    let hitAt1 = 0;
+    let hitAtK = 0;
+    let mrr = 0;
+
+    rankings.forEach((ids, i) => {
+      const rank = ids.findIndex(id => questions[i].sources.includes(sourceOf.get(id)!));
+      if (rank === 0) {
+        hitAt1++;
+      }
+      if (rank >= 0) {
+        hitAtK++;
+        mrr += 1 / (rank + 1);
+      }
+    });
+
+    return { hitAt1: hitAt1 / rankings.length, hitAtK: hitAtK / rankings.length, mrr: mrr / rankings.length };
+  }
+
+  private overlap(rankings: string[][], reference: string[][]): number {
+    return rankings.reduce((sum, ids, i) => {
+      const expected = new Set(reference[i]);
+      return sum + ids.filter(id => expected.has(id)).length / Math.max(expected.size, 1);
+    }, 0) / rankings.length;
+  }
+
+  private async saveReport(service: EvalEmbeddingService, chunks: Chunk[], questions: EvalQuestion[], rows: DimensionRow[]): Promise<void> {
+    await fs.mkdir(this.resultsDir, { recursive: true });
+
+    const k = this.options.k;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const lines = [
+      '# Embedding Dimensions: Retrieval Quality vs Index Size',
+      `Generated: ${new Date().toISOString()}`,
+      `Provider: ${service.getProviderName()} (${service.getModel()})`,
+      `Chunks: ${chunks.length}, Questions: ${questions.length}, k: ${k}`,
+      '',
+      `| Dimensions | Method | Hit@1 | Hit@${k} | MRR@${k} | Top-${k} overlap | Index (KB) | PCA variance kept | Embed (ms) |`,
+      '|------------|--------|-------|--------|--------|----------------|------------|-------------------|------------|'
+    ];
+
+    for (const row of rows) {
+      const variance = row.retainedVariance === undefined ? '-' : `${(row.retainedVariance * 100).toFixed(1)}%`;
+      lines.push(
+        `| ${row.dimensions} | ${row.method} | ${row.hitAt1.toFixed(3)} | ${row.hitAtK.toFixed(3)} | ${row.mrr.toFixed(3)} | ` +
+        `${row.overlap.toFixed(3)} | ${(row.indexBytes / 1024).toFixed(1)} | ${variance} | ${row.embedMs.toFixed(0)} |`
+      );
+    }
+
+    const reportFilename = `dimension-evaluation-${timestamp}.md`;
+    await fs.writeFile(path.join(this.resultsDir, reportFilename), lines.join('\n'));
+    console.log(`💾 Dimension report saved to: ${reportFilename}`);
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): DimensionOptions {
+  const options: DimensionOptions = { dims: [256, 512, 1536], k: 10 };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--dims=')) {
+      const dims = arg.split('=')[1].split(',').map(value => parseInt(value, 10));
+      if (dims.length === 0 || dims.some(value => isNaN(value) || value <= 0)) {
+        console.error('❌ Invalid --dims. Use a comma-separated list of positive numbers.');
+        process.exit(1);
+      }
+      options.dims = [...new Set(dims)];
+    } else if (arg.startsWith('--k=')) {
+      const k = parseInt(arg.split('=')[1], 10);
+      if (isNaN(k) || k <= 0) {
+        console.error('❌ Invalid value for --k. Must be a positive number.');
+        process.exit(1);
+      }
+      options.k = k;
+    } else if (arg.startsWith('--reducer=')) {
+      const reducer = arg.split('=')[1];
+      if (reducer !== 'none' && reducer !== 'pca') {
+        console.error('❌ Invalid reducer. Must be one of: none, pca.');
+        process.exit(1);
+      }
+      options.reducer = reducer;
+    }
+  }
+
+  return options;
+}
+
+// Run the dimension evaluation
+const evaluator = new DimensionEvaluator(parseArgs());
+evaluator.run();
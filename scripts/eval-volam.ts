@@ -2,7 +2,8 @@
 
 /**
  * VOLaM evaluation script: Test VOLaM ranking algorithm
- * Usage: npm run eval-volam [--seed=<number>] [--mode=volam]
+ * Usage: npm run eval-volam [--seed=<number>] [--mode=volam] [--preset=<name>]
+ * Without --preset the API picks each question's preset from its domain
  */
 
 import axios from 'axios';
@@ -47,12 +48,15 @@ class VOLaMEvaluator {
   private resultsDir = path.join(process.cwd(), 'reports');
   private seed: number;
   private mode: string;
+  private preset?: string;
 
-  constructor(seed?: number, mode: string = 'volam') {
+  constructor(seed?: number, mode: string = 'volam', preset?: string) {
     this.seed = seed || Math.floor(Math.random() * 10000);
     this.mode = mode;
+    this.preset = preset;
     console.log(`🎲 Using seed: ${this.seed}`);
     console.log(`🔧 Using mode: ${this.mode}`);
+    console.log(`⚖️  Using preset: ${this.preset || 'per query domain'}`);
   }
 
   async run(): Promise<void> {
@@ -126,9 +130,7 @@ class VOLaMEvaluator {
             query: question.query,
             mode: 'volam',
             k: 3,
-            alpha: 0.6,
-            beta: 0.3,
-            gamma: 0.1
+            ...(this.preset ? { preset: this.preset } : {})
           }
         });
 
@@ -258,6 +260,7 @@ class VOLaMEvaluator {
       metrics,
       results,
       seed: this.seed,
+      preset: this.preset,
       generatedAt: new Date().toISOString()
     };
     await fs.writeFile(jsonFilepath, JSON.stringify(report, null, 2));
@@ -426,10 +429,11 @@ class VOLaMEvaluator {
 }
 
 // Parse command line arguments
-function parseArgs(): { seed?: number; mode: string } {
+function parseArgs(): { seed?: number; mode: string; preset?: string } {
   const args = process.argv.slice(2);
   let seed: number | undefined;
   let mode = 'volam';
+  let preset: string | undefined;
 
   for (const arg of args) {
     if (arg.startsWith('--seed=')) {
@@ -440,13 +444,15 @@ function parseArgs(): { seed?: number; mode: string } {
       }
     } else if (arg.startsWith('--mode=')) {
       mode = arg.split('=')[1];
+    } else if (arg.startsWith('--preset=')) {
+      preset = arg.split('=')[1];
     }
   }
 
-  return { seed, mode };
+  return { seed, mode, preset };
 }
 
 // Run the VOLaM evaluation
-const { seed, mode } = parseArgs();
-const evaluator = new VOLaMEvaluator(seed, mode);
+const { seed, mode, preset } = parseArgs();
+const evaluator = new VOLaMEvaluator(seed, mode, preset);
 evaluator.run();
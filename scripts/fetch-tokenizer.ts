@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+
+/**
+ * Fetch tokenizer script: Download the cl100k_base vocab used for exact token counts
+ * Usage: npm run tokenizer:fetch [--force]
+ *
+ * The file is checked against its published sha256 before it is written to
+ * data/tokenizers/, where chunking and the embedding service pick it up.
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+interface FetchOptions {
+  force: boolean;
+}
+
+const VOCAB_URL = 'https://openaipublic.blob.core.windows.net/encodings/cl100k_base.tiktoken';
+const VOCAB_SHA256 = '223921b76ee99bde995b7ff738513eef100fb51d18c93597a113bcffe865b2a7';
+
+class TokenizerFetcher {
+  private vocabPath = path.join(process.cwd(), 'data', 'tokenizers', 'cl100k_base.tiktoken');
+
+  constructor(private options: FetchOptions) {}
+
+  async run(): Promise<void> {
+    try {
+      if (!this.options.force && await this.isValid()) {
+        console.log(`✅ Tokenizer vocab already present at ${this.vocabPath}`);
+        return;
+      }
+
+      console.log(`📥 Downloading ${VOCAB_URL}...`);
+      const response = await fetch(VOCAB_URL);
+      if (!response.ok) {
+        throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+      }
+
+      const contents = Buffer.from(await response.arrayBuffer());
+      const digest = this.sha256(contents);
+      if (digest !== VOCAB_SHA256) {
+        throw new Error(`Checksum mismatch: expected ${VOCAB_SHA256}, got ${digest}`);
+      }
+
+      await fs.mkdir(path.dirname(this.vocabPath), { recursive: true });
+      await fs.writeFile(this.vocabPath, contents);
+
+      console.log(`  Saved ${(contents.length / 1024 / 1024).toFixed(1)} MB to ${this.vocabPath}`);
+      console.log('✅ Tokenizer vocab ready');
+    } catch (error) {
+      console.error('❌ Tokenizer fetch failed:', error);
+      process.exit(1);
+    }
+  }
+
+  private async isValid(): Promise<boolean> {
+    try {
+      return this.sha256(await fs.readFile(this.vocabPath)) === VOCAB_SHA256;
+    } catch {
+      return false;
+    }
+  }
+
+  private sha256(contents: Buffer): string {
+    return createHash('sha256').update(contents).digest('hex');
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): FetchOptions {
+  return { force: process.argv.slice(2).includes('--force') };
+}
+
+// Run the fetch
+const fetcher = new TokenizerFetcher(parseArgs());
+fetcher.run();
@@ -0,0 +1,323 @@
+#!/usr/bin/env tsx
+
+/**
+ * Weight fitting script: Learn VOLaM weights from the Q/A dataset's citations
+ * Usage: npm run fit:weights [--features=cosine,certainty,empathy] [--pool=20] [--step=0.05] [--profile=default] [--output=<file>]
+ *
+ * Each question's nearest chunks by embedding form its candidates; a candidate
+ * is relevant when it comes from a source file the question cites. Every
+ * candidate gets the feature values of the requested scoring components, and
+ * coordinate ascent searches weights summing to 1 for the best MRR of the
+ * first relevant candidate. Cross-validation holds out one domain at a time,
+ * so the report shows whether fitted weights beat the default preset on a
+ * domain they were not fitted on. The weights fitted on every question are
+ * written as the `default` of a preset file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from 'dotenv';
+
+import { Chunk, ChunkingService } from './chunking.js';
+import {
+  CoordinateAscentFitter,
+  EvalQuestion,
+  FittedPreset,
+  FoldResult,
+  QuestionExamples,
+  WEIGHT_DECIMALS,
+  Weights,
+  meanFoldMrr,
+  toFittedPreset
+} from './weightFitting.js';
+
+// Load environment variables
+config();
+
+interface FitOptions {
+  features: string[];
+  pool: number;
+  step: number;
+  profile: string;
+  output: string;
+}
+
+// Embedding batch results as api/src/services/embedding.ts returns them; the scripts build cannot import its types
+interface EmbeddingFailure {
+  error: string;
+}
+type EmbeddingBatchItem = { embedding: number[]; tokens: number } | EmbeddingFailure;
+
+interface BatchEmbedder {
+  embedBatch(texts: string[]): Promise<EmbeddingBatchItem[]>;
+}
+
+interface QaDataset {
+  questions: Array<{ id: string; domain: string; question: string; citations: Array<{ sourceFile: string }> }>;
+}
+
+class WeightFitter {
+  private dataDir = path.join(process.cwd(), 'data');
+  private resultsDir = path.join(process.cwd(), 'reports');
+
+  private fitter: CoordinateAscentFitter;
+
+  constructor(private options: FitOptions) {
+    this.fitter = new CoordinateAscentFitter(options.features, options.step);
+  }
+
+  async run(): Promise<void> {
+    console.log('⚖️  Starting VOLaM weight fitting...');
+
+    try {
+      // Import services (using file:// URL for Windows compatibility)
+      const servicePath = (file: string) => new URL('file://' + path.join(process.cwd(), 'api/src/services', file).replace(/\\/g, '/')).href;
+      const { EmbeddingService, isEmbeddingFailure } = await import(servicePath('embedding.js'));
+      const { getTokenizer } = await import(servicePath('tokenizer.js'));
+      const { EmpathyService } = await import(servicePath('empathy.js'));
+      const { createReranker } = await import(servicePath('reranker.js'));
+      const { createDefaultScoringRegistry, createScoringContext } = await import(servicePath('scoring.js'));
+      const { estimateChunkNullness } = await import(servicePath('nullness/chunk.js'));
+      const { PresetStore, validatePreset } = await import(servicePath('presets.js'));
+
+      const registry = createDefaultScoringRegistry();
+      const unknown = this.options.features.filter(feature => !registry.get(feature));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown features: ${unknown.join(', ')}. Registered: ${registry.list().map(({ name }: { name: string }) => name).join(', ')}`);
+      }
+
+      const chunks = await new ChunkingService(getTokenizer()).chunkCorpus(path.join(this.dataDir, 'corpus'));
+      const questions = await this.loadQuestions(chunks);
+      if (chunks.length === 0 || questions.length === 0) {
+        throw new Error('Need corpus chunks and Q/A questions citing them. Check data/corpus and data/evaluation.');
+      }
+      console.log(`📚 ${chunks.length} chunks, ${questions.length} questions with a cited source in the corpus`);
+
+      const embeddingService = new EmbeddingService();
+      console.log(`🧠 Embedding with ${embeddingService.getProviderName()} (${embeddingService.getModel()})...`);
+      const embeddings = await this.embedAll(embeddingService, isEmbeddingFailure, [...chunks.map(chunk => chunk.content), ...questions.map(q => q.query)]);
+      await embeddingService.close();
+
+      const empathyService = new EmpathyService();
+      const reranker = this.options.features.includes('rerank') ? createReranker() : null;
+      const chunkEmbeddings = embeddings.slice(0, chunks.length);
+      const data: QuestionExamples[] = [];
+
+      for (const [i, question] of questions.entries()) {
+        const queryEmbedding = embeddings[chunks.length + i];
+        const candidates = chunks
+          .map((chunk, index) => ({ chunk, cosine: this.cosineSimilarity(queryEmbedding, chunkEmbeddings[index]) }))
+          .sort((a, b) => b.cosine - a.cosine)
+          .slice(0, this.options.pool);
+        const rerankScores: number[] = reranker
+          ? await reranker.score(question.query, candidates.map(({ chunk }) => chunk.content))
+          : [];
+
+        const context = createScoringContext(question.query);
+        const unitWeights = Object.fromEntries(this.options.features.map(feature => [feature, 1]));
+        const examples = candidates.map(({ chunk, cosine }, index) => {
+          const metadata = { domain: chunk.domain, source: chunk.source, chunkIndex: chunk.metadata.chunkIndex, tokens: chunk.tokens, rerankScore: rerankScores[index] };
+          const evidence = {
+            id: chunk.id,
+            content: chunk.content,
+            score: cosine,
+            cosineScore: cosine,
+            nullness: estimateChunkNullness(chunk),
+            empathyFit: empathyService.calculateEmpathyFit(empathyService.extractContentTags(chunk.content, metadata), this.options.profile),
+            source: chunk.source,
+            metadata
+          };
+          // Unit weights make each contribution the component's clamped feature value
+          const { contributions } = registry.score(evidence, context, unitWeights);
+          return {
+            chunkId: chunk.id,
+            features: this.options.features.map(feature => contributions[feature].value),
+            cosine,
+            relevant: question.sources.includes(`${chunk.domain}/${chunk.source}`)
+          };
+        });
+
+        data.push({ question, examples });
+      }
+
+      const answerable = data.filter(({ examples }) => examples.some(example => example.relevant)).length;
+      console.log(`🏷️  ${data.length * this.options.pool} labeled examples; ${answerable}/${data.length} questions have a relevant chunk in their top ${this.options.pool}`);
+
+      const defaultPreset: FittedPreset = PresetStore.load().get('default');
+      const initial = this.fitter.fromPreset(defaultPreset);
+
+      console.log('🔁 Cross-validating by domain...');
+      const folds = this.fitter.crossValidate(data, initial);
+      if (folds.length === 0) {
+        console.warn('⚠️  Cross-validation needs questions from at least two domains; skipping');
+      }
+      for (const fold of folds) {
+        console.log(`  held out ${fold.domain}: MRR ${fold.defaultMrr.toFixed(3)} (default) → ${fold.fittedMrr.toFixed(3)} (fitted)`);
+      }
+
+      console.log('📈 Fitting on all questions...');
+      const weights = this.fitter.fit(data, initial);
+      const fittedMrr = this.fitter.mrr(data, weights);
+      const defaultMrr = this.fitter.mrr(data, initial);
+
+      const preset = toFittedPreset(weights, data.length, fittedMrr, folds);
+      validatePreset('default', preset);
+      await this.savePresets(preset);
+      await this.saveReport(data, folds, initial, weights, defaultMrr, fittedMrr);
+
+      console.log('✅ Weight fitting completed!');
+      console.log(`  Weights: ${this.formatWeights(weights)}`);
+      console.log(`  MRR on all questions: ${defaultMrr.toFixed(3)} (default) → ${fittedMrr.toFixed(3)} (fitted)`);
+    } catch (error) {
+      console.error('❌ Weight fitting failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Q/A questions, keeping only cited sources that exist in the chunked corpus
+   */
+  private async loadQuestions(chunks: Chunk[]): Promise<EvalQuestion[]> {
+    const datasetPath = path.join(this.dataDir, 'evaluation', 'qa-dataset.json');
+    const dataset: QaDataset = JSON.parse(await fs.readFile(datasetPath, 'utf-8'));
+    const corpusSources = new Set(chunks.map(chunk => `${chunk.domain}/${chunk.source}`));
+
+    return dataset.questions
+      .map(q => ({
+        id: q.id,
+        domain: q.domain,
+        query: q.question,
+        sources: q.citations
+          .map(c => c.sourceFile.replace(/\.txt$/, ''))
+          .filter(source => corpusSources.has(source))
+      }))
+      .filter((question: EvalQuestion) => question.sources.length > 0);
+  }
+
+  private async embedAll(
+    service: BatchEmbedder,
+    isEmbeddingFailure: (item: EmbeddingBatchItem) => item is EmbeddingFailure,
+    texts: string[]
+  ): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const result of await service.embedBatch(texts)) {
+      if (isEmbeddingFailure(result)) {
+        throw new Error(`Embedding failed: ${result.error}`);
+      }
+      embeddings.push(result.embedding);
+    }
+    return embeddings;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  private formatWeights(weights: Weights): string {
+    return Object.entries(weights).map(([feature, weight]) => `${feature}=${weight.toFixed(WEIGHT_DECIMALS)}`).join(', ');
+  }
+
+  private async savePresets(preset: FittedPreset): Promise<void> {
+    await fs.mkdir(path.dirname(this.options.output), { recursive: true });
+    await fs.writeFile(this.options.output, JSON.stringify({ default: preset }, null, 2) + '\n');
+    console.log(`💾 Presets saved to: ${path.relative(process.cwd(), this.options.output)} (serve with VOLAM_PRESETS_PATH)`);
+  }
+
+  private async saveReport(
+    data: QuestionExamples[],
+    folds: FoldResult[],
+    initial: Weights,
+    weights: Weights,
+    defaultMrr: number,
+    fittedMrr: number
+  ): Promise<void> {
+    await fs.mkdir(this.resultsDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const lines = [
+      '# VOLaM Weight Fitting',
+      `Generated: ${new Date().toISOString()}`,
+      `Questions: ${data.length}, candidates per question: ${this.options.pool}, grid step: ${this.options.step}, empathy profile: ${this.options.profile}`,
+      '',
+      '## Cross-Validation (leave one domain out)',
+      '',
+      `| Held-out domain | Questions | MRR default | MRR fitted | Weights fitted on the other domains |`,
+      '|-----------------|-----------|-------------|------------|-------------------------------------|'
+    ];
+
+    for (const fold of folds) {
+      lines.push(`| ${fold.domain} | ${fold.questions} | ${fold.defaultMrr.toFixed(3)} | ${fold.fittedMrr.toFixed(3)} | ${this.formatWeights(fold.weights)} |`);
+    }
+    if (folds.length > 0) {
+      lines.push(`| **Mean** | ${data.length} | ${meanFoldMrr(folds, 'defaultMrr').toFixed(3)} | ${meanFoldMrr(folds, 'fittedMrr').toFixed(3)} | |`);
+    }
+
+    lines.push(
+      '',
+      '## Fitted on All Questions',
+      '',
+      '| Weights | MRR |',
+      '|---------|-----|',
+      `| default: ${this.formatWeights(initial)} | ${defaultMrr.toFixed(3)} |`,
+      `| fitted: ${this.formatWeights(weights)} | ${fittedMrr.toFixed(3)} |`
+    );
+
+    const reportFilename = `weight-fitting-${timestamp}.md`;
+    await fs.writeFile(path.join(this.resultsDir, reportFilename), lines.join('\n'));
+    console.log(`💾 Fitting report saved to: ${reportFilename}`);
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): FitOptions {
+  const options: FitOptions = {
+    features: ['cosine', 'certainty', 'empathy'],
+    pool: 20,
+    step: 0.05,
+    profile: 'default',
+    output: path.join(process.cwd(), 'data/presets/fitted-presets.json')
+  };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--features=')) {
+      const features = arg.split('=')[1].split(',').map(feature => feature.trim()).filter(Boolean);
+      if (features.length < 2) {
+        console.error('❌ Invalid --features. Use a comma-separated list of at least two scoring components.');
+        process.exit(1);
+      }
+      options.features = [...new Set(features)];
+    } else if (arg.startsWith('--pool=')) {
+      const pool = parseInt(arg.split('=')[1], 10);
+      if (isNaN(pool) || pool < 2) {
+        console.error('❌ Invalid value for --pool. Must be a number of at least 2.');
+        process.exit(1);
+      }
+      options.pool = pool;
+    } else if (arg.startsWith('--step=')) {
+      const step = parseFloat(arg.split('=')[1]);
+      if (isNaN(step) || step <= 0 || step > 0.5) {
+        console.error('❌ Invalid value for --step. Must be a number in (0, 0.5].');
+        process.exit(1);
+      }
+      options.step = step;
+    } else if (arg.startsWith('--profile=')) {
+      options.profile = arg.split('=')[1];
+    } else if (arg.startsWith('--output=')) {
+      options.output = path.resolve(arg.split('=')[1]);
+    }
+  }
+
+  return options;
+}
+
+// Run the weight fitting
+const fitter = new WeightFitter(parseArgs());
+fitter.run();
@@ -0,0 +1,233 @@
+#!/usr/bin/env tsx
+
+/**
+ * Migrate embeddings script: Re-embed the indexed corpus with another model into a new snapshot
+ * Usage: npm run embeddings:migrate -- --model=<name> [--provider=openai|local] [--dimensions=1536] [--reducer=none|pca] [--from=<version>] [--activate]
+ *
+ * The chunks of the source snapshot (current by default) are re-embedded and
+ * written to a new snapshot next to it. Without --activate the old snapshot
+ * keeps serving; serve the new one alongside it for an A/B comparison with
+ * INDEX_SNAPSHOT=<version> EMBEDDING_MODEL=<name> EMBEDDING_DIMENSIONS=<n>,
+ * then switch with npm run index:rollback -- --to=<version>.
+ *
+ * With --reducer=pca the new model embeds at its usual dimensions and a PCA
+ * fitted on the chunks reduces them to --dimensions, as in npm run seed.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from 'dotenv';
+
+// Load environment variables
+config();
+
+interface MigrateOptions {
+  provider?: 'openai' | 'local';
+  model?: string;
+  dimensions?: number;
+  reducer: 'none' | 'pca';
+  from?: string;
+  activate: boolean;
+}
+
+// API shapes this script reads; the scripts build cannot import api/ types (its rootDir is scripts/)
+interface VectorDocument {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: { domain: string; source: string; chunkIndex: number; tokens: number; [key: string]: string | number | boolean };
+}
+
+type EmbeddingBatchItem = { embedding: number[]; tokens: number } | { error: string };
+
+interface CorpusReducer {
+  transform(embedding: number[]): number[];
+  getRetainedVariance(): number;
+  save(filePath: string): Promise<void>;
+}
+
+interface IntegrityReport {
+  ok: boolean;
+  issues: Array<{ message: string }>;
+}
+
+class EmbeddingMigrator {
+  private snapshotsDir = path.join(process.cwd(), 'data', 'embeddings', 'snapshots');
+
+  constructor(private options: MigrateOptions) {}
+
+  async run(): Promise<void> {
+    try {
+      // Import services (using file:// URL for Windows compatibility)
+      const embeddingPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding.js').replace(/\\/g, '/'));
+      const vectorStorePath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore.js').replace(/\\/g, '/'));
+      const bm25Path = new URL('file://' + path.join(process.cwd(), 'api/src/services/bm25.js').replace(/\\/g, '/'));
+      const snapshotsPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore/snapshots.js').replace(/\\/g, '/'));
+
+      const { EmbeddingService } = await import(embeddingPath.href);
+      const { VectorStoreFactory } = await import(vectorStorePath.href);
+      const { BM25Index } = await import(bm25Path.href);
+      const { SnapshotManager, computeCorpusHash } = await import(snapshotsPath.href);
+      const pcaPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding/pca.js').replace(/\\/g, '/'));
+      const { PcaReducer } = await import(pcaPath.href);
+
+      const snapshots = new SnapshotManager(this.snapshotsDir);
+      const source = this.options.from ? await snapshots.getVersion(this.options.from) : await snapshots.getCurrent();
+      if (!source) {
+        throw new Error('No index snapshot to migrate from. Run make seed first.');
+      }
+      if (!source.manifest.files.lexicalIndex) {
+        throw new Error(`Snapshot ${source.version} has no BM25 index to read its chunks from. Re-seed instead.`);
+      }
+      if (source.manifest.backend === 'sharded') {
+        throw new Error(`Snapshot ${source.version} is sharded; migrate re-embeds FAISS snapshots only. Re-seed with --backend=sharded instead.`);
+      }
+
+      // A PCA reducer needs the provider's full dimensions to reduce from
+      const usePca = this.options.reducer === 'pca';
+      const embeddingService = new EmbeddingService({
+        provider: this.options.provider,
+        model: this.options.model,
+        dimensions: usePca ? undefined : this.options.dimensions
+      });
+      const model: string = embeddingService.getModel();
+      const dimensions: number = usePca ? this.options.dimensions! : embeddingService.getDimensions();
+
+      console.log(`🔀 Migrating snapshot ${source.version}`);
+      console.log(`  From: ${source.manifest.embeddingModel} (${source.manifest.dimensions} dims${source.manifest.files.reducer ? ', PCA' : ''})`);
+      console.log(`  To:   ${model} (${dimensions} dims${usePca ? `, PCA from ${embeddingService.getDimensions()}` : ''}) via ${embeddingService.getProviderName()}`);
+      if (model === source.manifest.embeddingModel && dimensions === source.manifest.dimensions && !usePca) {
+        console.log('⚠️  Source snapshot already uses this model; re-embedding anyway');
+      }
+
+      // The BM25 index holds every chunk's text and metadata and is model-independent
+      const lexicalIndexPath = path.join(source.dir, source.manifest.files.lexicalIndex);
+      const lexicalIndex = await BM25Index.load(lexicalIndexPath);
+      const documents: VectorDocument[] = lexicalIndex.getDocuments();
+      console.log(`📚 ${documents.length} chunks to re-embed`);
+
+      const results: EmbeddingBatchItem[] = await embeddingService.embedBatch(documents.map(doc => doc.content));
+      const failures = results.flatMap((result, i) => ('error' in result ? [`${documents[i].id}: ${result.error}`] : []));
+      if (failures.length > 0) {
+        failures.slice(0, 10).forEach(failure => console.error(`❌ Failed to embed ${failure}`));
+        throw new Error(`Failed to embed ${failures.length} of ${documents.length} chunks`);
+      }
+      const embedded = results.flatMap(result => ('error' in result ? [] : [result.embedding]));
+
+      const reducer: CorpusReducer | null = usePca ? PcaReducer.fit(embedded, dimensions) : null;
+      if (reducer) {
+        console.log(`📉 PCA keeps ${(reducer.getRetainedVariance() * 100).toFixed(1)}% of the corpus variance`);
+      }
+      const embeddings = embedded.map(embedding => (reducer ? reducer.transform(embedding) : embedding));
+
+      const cacheStats = embeddingService.getCacheStats();
+      if (cacheStats) {
+        console.log(`💾 Embedding cache: ${cacheStats.hits} reused, ${cacheStats.misses} embedded`);
+      }
+      await embeddingService.close();
+
+      const { version, dir } = await snapshots.createVersion();
+      console.log(`📦 Writing index snapshot ${version}...`);
+
+      // Keep the source index type so only the embeddings differ between the two
+      const sourceStore = await VectorStoreFactory.create({
+        backend: 'faiss',
+        dimensions: source.manifest.dimensions,
+        indexPath: path.join(source.dir, source.manifest.files.index)
+      });
+      const indexOptions = sourceStore.getIndexOptions();
+
+      const vectorStore = await VectorStoreFactory.create({
+        backend: 'faiss',
+        dimensions,
+        indexPath: path.join(dir, 'faiss.index'),
+        index: indexOptions
+      });
+      await vectorStore.upsertDocuments(documents.map((doc, i) => ({ ...doc, embedding: embeddings[i] })));
+      await vectorStore.save();
+
+      const integrity: IntegrityReport = await vectorStore.verify();
+      if (!integrity.ok) {
+        throw new Error(`New index failed integrity check: ${integrity.issues.map(issue => issue.message).join('; ')}`);
+      }
+      await vectorStore.close();
+
+      await fs.copyFile(lexicalIndexPath, path.join(dir, 'bm25.json'));
+      if (reducer) {
+        await reducer.save(path.join(dir, 'pca.bin'));
+      }
+
+      await snapshots.publish(version, {
+        embeddingModel: model,
+        dimensions,
+        embeddingProvider: embeddingService.getProviderName(),
+        corpusHash: computeCorpusHash(documents),
+        chunker: source.manifest.chunker,
+        documentCount: documents.length,
+        files: { index: 'faiss.index', lexicalIndex: 'bm25.json', ...(reducer ? { reducer: 'pca.bin' } : {}) }
+      }, undefined, this.options.activate);
+
+      // Queries embed at the provider's dimensions; a PCA snapshot reduces them itself
+      const serveEnv = `EMBEDDING_PROVIDER=${embeddingService.getProviderName()} EMBEDDING_MODEL=${model} EMBEDDING_DIMENSIONS=${embeddingService.getDimensions()}`;
+      console.log(`✨ Re-embedded ${documents.length} chunks into snapshot ${version}`);
+      if (this.options.activate) {
+        console.log(`🔁 Current index snapshot is now ${version}; serve it with ${serveEnv}`);
+      } else {
+        console.log(`🧪 ${source.version} keeps serving. Try the new index side by side with:`);
+        console.log(`  INDEX_SNAPSHOT=${version} ${serveEnv} npm run dev --prefix api`);
+        console.log(`  Switch over with: npm run index:rollback -- --to=${version}`);
+      }
+      console.log('✅ Migration completed');
+    } catch (error) {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): MigrateOptions {
+  const options: MigrateOptions = { reducer: 'none', activate: false };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg === '--activate') {
+      options.activate = true;
+    } else if (arg.startsWith('--reducer=')) {
+      const reducer = arg.split('=')[1];
+      if (reducer !== 'none' && reducer !== 'pca') {
+        console.error('❌ Invalid reducer. Must be one of: none, pca.');
+        process.exit(1);
+      }
+      options.reducer = reducer;
+    } else if (arg.startsWith('--model=')) {
+      options.model = arg.split('=')[1];
+    } else if (arg.startsWith('--from=')) {
+      options.from = arg.split('=')[1];
+    } else if (arg.startsWith('--provider=')) {
+      const provider = arg.split('=')[1];
+      if (provider !== 'openai' && provider !== 'local') {
+        console.error('❌ Invalid provider. Must be openai or local.');
+        process.exit(1);
+      }
+      options.provider = provider;
+    } else if (arg.startsWith('--dimensions=')) {
+      const dimensions = parseInt(arg.split('=')[1], 10);
+      if (isNaN(dimensions) || dimensions <= 0) {
+        console.error('❌ Invalid dimensions value. Must be a positive number.');
+        process.exit(1);
+      }
+      options.dimensions = dimensions;
+    }
+  }
+
+  if (options.reducer === 'pca' && !options.dimensions) {
+    console.error('❌ --reducer=pca needs --dimensions=<n> for the reduced index.');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// Run the migration
+const migrator = new EmbeddingMigrator(parseArgs());
+migrator.run();
@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rollback index script: List index snapshots and switch the current pointer
+ * Usage: npm run index:rollback [--list] [--to=<version>]
+ *
+ * Without options the snapshot published before the current one becomes current.
+ * A running API picks the change up on its next snapshot poll.
+ */
+
+import path from 'path';
+
+interface RollbackOptions {
+  list: boolean;
+  to?: string;
+}
+
+class IndexRollback {
+  constructor(private options: RollbackOptions) {}
+
+  async run(): Promise<void> {
+    try {
+      // Import snapshot manager (using file:// URL for Windows compatibility)
+      const snapshotsPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore/snapshots.js').replace(/\\/g, '/'));
+      const { SnapshotManager } = await import(snapshotsPath.href);
+
+      const snapshots = new SnapshotManager(path.join(process.cwd(), 'data', 'embeddings', 'snapshots'));
+      const current = await snapshots.getCurrent();
+
+      if (this.options.list) {
+        const versions: string[] = await snapshots.listVersions();
+        if (versions.length === 0) {
+          console.log('⚠️  No index snapshots found. Run make seed first.');
+          return;
+        }
+
+        console.log('📦 Index snapshots (oldest first):');
+        for (const version of versions) {
+          console.log(`  ${version === current?.version ? '→' : ' '} ${version}`);
+        }
+        return;
+      }
+
+      const target = this.options.to
+        ? await snapshots.activate(this.options.to)
+        : await snapshots.rollback();
+
+      console.log(`🔁 Current index snapshot: ${current?.version ?? 'none'} → ${target.version}`);
+      console.log(`  Model: ${target.manifest.embeddingModel} (${target.manifest.dimensions} dims)`);
+      console.log(`  Documents: ${target.manifest.documentCount}`);
+      console.log(`  Corpus hash: ${target.manifest.corpusHash.slice(0, 12)}`);
+      console.log('✅ Rollback completed');
+    } catch (error) {
+      console.error('❌ Rollback failed:', error);
+      process.exit(1);
+    }
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): RollbackOptions {
+  const options: RollbackOptions = { list: false };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg === '--list') {
+      options.list = true;
+    } else if (arg.startsWith('--to=')) {
+      options.to = arg.split('=')[1];
+    }
+  }
+
+  return options;
+}
+
+// Run the rollback
+const rollback = new IndexRollback(parseArgs());
+rollback.run();
@@ -2,7 +2,20 @@
 
 /**
  * Seed script: Chunk documents and generate embeddings
- * Usage: npm run seed
+ * Usage: npm run seed [--dimensions=<n>] [--reducer=none|pca] [--quantization=none|sq8|pq] [--pq-m=64] [--rescore=4]
+ *                     [--backend=faiss|sharded] [--domain=<domain>]
+ *
+ * --dimensions sets the index dimensions (default EMBEDDING_DIMENSIONS, then 1536).
+ * With --reducer=pca the provider embeds at its usual dimensions and a PCA fitted
+ * on the corpus reduces them; the reducer is saved with the snapshot. Prefer it
+ * for the local provider, whose hashed features lose more by using fewer buckets.
+ *
+ * --quantization stores int8 (sq8) or product-quantized (pq) vectors in the FAISS
+ * index; the summary reports the index size and recall against exact search.
+ *
+ * --backend=sharded (default VECTOR_STORE_BACKEND, then faiss) writes one FAISS
+ * index per corpus domain. --domain then re-embeds a single domain into a copy
+ * of the current sharded snapshot, rebuilding only that domain's shard.
  */
 
 import { Chunk, ChunkingService } from './chunking.js';
@@ -15,21 +28,80 @@ import path from 'path';
 
 config();
 
+interface SeedOptions {
+  dimensions?: number;
+  reducer: 'none' | 'pca';
+  quantization: 'none' | 'sq8' | 'pq';
+  pqM: number;
+  rescore: number;
+  backend: 'faiss' | 'sharded';
+  /** Rebuild only this domain's shard of the current snapshot */
+  domain?: string;
+}
+
+// API shapes the seed reads; the scripts build cannot import api/ types (its rootDir is scripts/)
+interface VectorDocument {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: { domain: string; source: string; chunkIndex: number; tokens: number; [key: string]: string | number | boolean };
+}
+
+interface IntegrityReport {
+  ok: boolean;
+  issues: Array<{ message: string }>;
+}
+
+interface EmbeddingResult {
+  embedding: number[];
+  tokens: number;
+}
+type EmbeddingBatchItem = EmbeddingResult | { error: string };
+
+interface CorpusReducer {
+  readonly inputDimensions: number;
+  transform(embedding: number[]): number[];
+  getRetainedVariance(): number;
+  save(filePath: string): Promise<void>;
+}
+
+interface SearchableStore {
+  search(queryEmbedding: number[], k: number): Promise<Array<{ document: VectorDocument; score: number }>>;
+}
+
+interface SeedEmbeddingService {
+  embedBatch(texts: string[]): Promise<EmbeddingBatchItem[]>;
+  getCacheStats(): { hits: number; misses: number; evictions: number } | null;
+  close(): Promise<void>;
+}
+
+// Neighbours compared when measuring recall of the seeded index
+const RECALL_K = 10;
+// Documents used as queries when measuring recall
+const RECALL_QUERIES = 50;
+
 class SeedService {
   private dataDir = path.join(process.cwd(), 'data');
   private corpusDir = path.join(this.dataDir, 'corpus');
   private embeddingsDir = path.join(this.dataDir, 'embeddings');
+  // Replaced in loadCorpus() by one counting with the API's shared tokenizer
   private chunkingService = new ChunkingService();
 
+  constructor(private options: SeedOptions) {}
+
   async run(): Promise<void> {
     console.log('🌱 Starting VOLaM-RAG seeding process...');
 
     try {
       await this.ensureDirectories();
       const chunks = await this.loadCorpus();
-      await this.generateEmbeddings(chunks);
-      await this.initializeNullnessTracking();
-      await this.setupEmpathyProfiles();
+      if (this.options.domain) {
+        await this.reseedDomain(chunks, this.options.domain);
+      } else {
+        await this.generateEmbeddings(chunks);
+        await this.initializeNullnessTracking();
+        await this.setupEmpathyProfiles();
+      }
 
       console.log('✅ Seeding completed successfully!');
     } catch (error) {
@@ -68,6 +140,12 @@ class SeedService {
       await this.createSampleCorpus();
     }
 
+    // Count chunk tokens with the same tokenizer the embedding service uses
+    const tokenizerPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/tokenizer.js').replace(/\\/g, '/'));
+    const { getTokenizer } = await import(tokenizerPath.href);
+    this.chunkingService = new ChunkingService(getTokenizer());
+    console.log(`  Tokenizer: ${this.chunkingService.getSettings().tokenizer}`);
+
     // Chunk all documents in the corpus
     const chunks = await this.chunkingService.chunkCorpus(this.corpusDir);
     
@@ -132,45 +210,57 @@ class SeedService {
     // Import embedding service (using file:// URL for Windows compatibility)
     const embeddingPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding.js').replace(/\\/g, '/'));
     const vectorStorePath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore.js').replace(/\\/g, '/'));
+    const bm25Path = new URL('file://' + path.join(process.cwd(), 'api/src/services/bm25.js').replace(/\\/g, '/'));
+    const snapshotsPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore/snapshots.js').replace(/\\/g, '/'));
+    const pcaPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding/pca.js').replace(/\\/g, '/'));
+    const chunkNullnessPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/nullness/chunk.js').replace(/\\/g, '/'));
     
     const { EmbeddingService } = await import(embeddingPath.href);
     const { VectorStoreFactory } = await import(vectorStorePath.href);
+    const { BM25Index } = await import(bm25Path.href);
+    const { SnapshotManager, computeCorpusHash } = await import(snapshotsPath.href);
+    const { PcaReducer } = await import(pcaPath.href);
+    const { estimateChunkNullness } = await import(chunkNullnessPath.href);
     
     // Initialize embedding service
-    const embeddingService = new EmbeddingService({
-      model: 'text-embedding-3-small',
-      dimensions: 1536
-    });
-
-    // Generate real embeddings using OpenAI
-    const embeddedChunks = [];
-    console.log(`📊 Processing ${chunks.length} chunks...`);
-    
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`  Processing chunk ${i + 1}/${chunks.length}: ${chunk.id}`);
-      
-      try {
-        const result = await embeddingService.embed(chunk.content);
-        embeddedChunks.push({
-          id: chunk.id,
-          domain: chunk.domain,
-          source: chunk.source,
-          content: chunk.content,
-          tokens: chunk.tokens,
-          metadata: chunk.metadata,
-          embedding: result.embedding
-        });
-      } catch (error) {
-        console.error(`❌ Failed to generate embedding for chunk ${chunk.id}:`, error);
-        throw error;
+    // Model and dimensions come from EMBEDDING_MODEL / EMBEDDING_DIMENSIONS and are recorded in the manifest;
+    // a PCA reducer needs the provider's full dimensions to reduce from
+    const usePca = this.options.reducer === 'pca';
+    const embeddingService = new EmbeddingService({ dimensions: usePca ? undefined : this.options.dimensions });
+    const dimensions: number = usePca ? this.options.dimensions! : embeddingService.getDimensions();
+
+    // Generate embeddings with the configured provider (EMBEDDING_PROVIDER=openai|local)
+    console.log(`🧠 Embedding provider: ${embeddingService.getProviderName()} (${embeddingService.getModel()}, ${embeddingService.getDimensions()} dims)`);
+    if (usePca && embeddingService.getProviderName() !== 'local') {
+      console.log('⚠️  OpenAI v3 models shorten embeddings natively; --dimensions without --reducer=pca is usually better');
+    }
+    const results = await this.embedChunks(embeddingService, chunks);
+
+    // Fit the reducer on this corpus; queries are reduced with the same projection
+    const reducer: CorpusReducer | null = usePca ? PcaReducer.fit(results.map(result => result.embedding), dimensions) : null;
+    if (reducer) {
+      console.log(`📉 PCA ${reducer.inputDimensions} → ${dimensions} dims keeps ${(reducer.getRetainedVariance() * 100).toFixed(1)}% of the corpus variance`);
+      if (chunks.length <= dimensions) {
+        console.log(`⚠️  Only ${chunks.length} chunks: components beyond ${chunks.length - 1} carry no variance`);
       }
     }
 
+    const embeddedChunks = chunks.map((chunk, i) => ({
+      id: chunk.id,
+      domain: chunk.domain,
+      source: chunk.source,
+      content: chunk.content,
+      tokens: chunk.tokens,
+      metadata: chunk.metadata,
+      embedding: (reducer ? reducer.transform(results[i].embedding) : results[i].embedding) as number[]
+    }));
+
+    await this.closeEmbeddingService(embeddingService);
+
     // Create embedding data structure
     const embeddingData = {
-      model: 'text-embedding-3-small',
-      dimensions: 1536,
+      model: embeddingService.getModel(),
+      dimensions,
       generated: new Date().toISOString(),
       chunks: embeddedChunks
     };
@@ -183,37 +273,276 @@ class SeedService {
     const chunksPath = path.join(this.embeddingsDir, 'chunks.json');
     await fs.writeFile(chunksPath, JSON.stringify(chunks, null, 2));
 
-    // Create and populate FAISS vector store
-    console.log('🔍 Creating FAISS vector store...');
+    // Write into a new snapshot directory so a running API keeps reading the current one
+    const snapshots = new SnapshotManager(path.join(this.embeddingsDir, 'snapshots'));
+    const { version, dir: snapshotDir } = await snapshots.createVersion();
+    console.log(`📦 Writing index snapshot ${version}...`);
+
+    // Create and populate the vector store; a sharded one holds a FAISS index per domain
+    const sharded = this.options.backend === 'sharded';
+    console.log(`🔍 Creating ${this.options.backend} vector store${sharded ? ' (one FAISS index per domain)' : ''}...`);
+    const indexFile = sharded ? 'shards' : 'faiss.index';
+    const indexPath = path.join(snapshotDir, indexFile);
+    const vectorStore = await VectorStoreFactory.create({
+      backend: this.options.backend,
+      dimensions,
+      indexPath,
+      index: {
+        type: 'flat',
+        quantization: this.options.quantization,
+        pqM: this.options.pqM,
+        rescore: this.options.rescore
+      }
+    });
+
+    const vectorDocuments = this.toVectorDocuments(embeddedChunks, chunks, estimateChunkNullness);
+
+    // Upsert so a chunk ID that appears twice is stored once
+    await vectorStore.upsertDocuments(vectorDocuments);
+    
+    // Save the vector store
+    await vectorStore.save();
+    const indexFiles = sharded
+      ? vectorStore.getShardNames().map((name: string) => path.join(indexPath, name, 'faiss.index'))
+      : [indexPath];
+    await this.reportIndexFootprint(vectorStore, vectorDocuments, indexFiles, dimensions);
+    await vectorStore.close();
+
+    // Build the BM25 index from the same chunks for lexical and hybrid retrieval
+    const lexicalIndex = new BM25Index();
+    lexicalIndex.addDocuments(vectorDocuments);
+    const lexicalIndexPath = path.join(snapshotDir, 'bm25.json');
+    await lexicalIndex.save(lexicalIndexPath);
+
+    if (reducer) {
+      await reducer.save(path.join(snapshotDir, 'pca.bin'));
+    }
+
+    // Switch the current pointer only once every file in the snapshot is written
+    await snapshots.publish(version, {
+      embeddingModel: embeddingService.getModel(),
+      dimensions,
+      embeddingProvider: embeddingService.getProviderName(),
+      backend: this.options.backend,
+      corpusHash: computeCorpusHash(vectorDocuments),
+      chunker: this.chunkingService.getSettings(),
+      documentCount: vectorDocuments.length,
+      files: { index: indexFile, lexicalIndex: 'bm25.json', ...(reducer ? { reducer: 'pca.bin' } : {}) }
+    });
+
+    console.log(`✨ Generated embeddings for ${chunks.length} chunks`);
+    console.log(`📁 Saved embeddings to: ${embeddingsPath}`);
+    console.log(`🔍 Created ${sharded ? `${indexFiles.length} FAISS shards` : 'FAISS index'} with ${vectorDocuments.length} documents`);
+    console.log(`🔤 Created BM25 index at: ${lexicalIndexPath}`);
+    console.log(`🔁 Current index snapshot is now ${version}`);
+  }
+
+  /**
+   * Re-embed one domain into a copy of the current sharded snapshot and rebuild
+   * only its shard and BM25 entries. The other shards, the PCA reducer and each
+   * shard's index settings carry over from the current snapshot.
+   */
+  private async reseedDomain(allChunks: Chunk[], domain: string): Promise<void> {
+    const chunks = allChunks.filter(chunk => chunk.domain === domain);
+    if (chunks.length === 0) {
+      const domains = Array.from(new Set(allChunks.map(chunk => chunk.domain)));
+      throw new Error(`No corpus chunks for domain ${domain}. Domains: ${domains.join(', ')}`);
+    }
+    console.log(`🔢 Re-seeding domain ${domain} (${chunks.length} chunks)...`);
+
+    // Import API modules (using file:// URL for Windows compatibility)
+    const embeddingPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding.js').replace(/\\/g, '/'));
+    const vectorStorePath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore.js').replace(/\\/g, '/'));
+    const bm25Path = new URL('file://' + path.join(process.cwd(), 'api/src/services/bm25.js').replace(/\\/g, '/'));
+    const snapshotsPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore/snapshots.js').replace(/\\/g, '/'));
+    const pcaPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding/pca.js').replace(/\\/g, '/'));
+    const chunkNullnessPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/nullness/chunk.js').replace(/\\/g, '/'));
+
+    const { EmbeddingService } = await import(embeddingPath.href);
+    const { VectorStoreFactory } = await import(vectorStorePath.href);
+    const { BM25Index } = await import(bm25Path.href);
+    const { SnapshotManager, computeCorpusHash } = await import(snapshotsPath.href);
+    const { PcaReducer } = await import(pcaPath.href);
+    const { estimateChunkNullness } = await import(chunkNullnessPath.href);
+
+    const snapshots = new SnapshotManager(path.join(this.embeddingsDir, 'snapshots'));
+    const current = await snapshots.getCurrent();
+    if (current?.manifest.backend !== 'sharded') {
+      throw new Error('--domain rebuilds one shard of the current snapshot; seed it with --backend=sharded first');
+    }
+    const { manifest } = current;
+
+    // Embed exactly as the other shards were, through the snapshot's reducer if it has one
+    const reducer = manifest.files.reducer ? await PcaReducer.load(path.join(current.dir, manifest.files.reducer)) : null;
+    const embeddingService = new EmbeddingService({ dimensions: reducer ? undefined : manifest.dimensions });
+    const expectedDimensions = reducer ? reducer.inputDimensions : manifest.dimensions;
+    if (embeddingService.getModel() !== manifest.embeddingModel || embeddingService.getDimensions() !== expectedDimensions) {
+      throw new Error(
+        `Snapshot ${current.version} was embedded with ${manifest.embeddingModel} (${expectedDimensions} dims) ` +
+        `but the provider embeds with ${embeddingService.getModel()} (${embeddingService.getDimensions()} dims); run a full seed instead`
+      );
+    }
+
+    const results = await this.embedChunks(embeddingService, chunks);
+    await this.closeEmbeddingService(embeddingService);
+    const embeddedChunks = chunks.map((chunk, i) => ({
+      ...chunk,
+      embedding: (reducer ? reducer.transform(results[i].embedding) : results[i].embedding) as number[]
+    }));
+    const documents = this.toVectorDocuments(embeddedChunks, allChunks, estimateChunkNullness);
+
+    // Copy everything but the manifest, so the copy stays unpublished until the shard is rebuilt
+    const { version, dir: snapshotDir } = await snapshots.createVersion();
+    console.log(`📦 Copying snapshot ${current.version} into ${version}...`);
+    await fs.cp(current.dir, snapshotDir, { recursive: true, filter: source => path.basename(source) !== 'manifest.json' });
+
     const vectorStore = await VectorStoreFactory.create({
-      backend: 'faiss',
-      dimensions: 1536,
-      indexPath: path.join(this.embeddingsDir, 'faiss.index')
+      backend: 'sharded',
+      dimensions: manifest.dimensions,
+      indexPath: path.join(snapshotDir, manifest.files.index)
+    });
+    await vectorStore.rebuildShard(domain, documents);
+    const integrity: IntegrityReport = await vectorStore.verify();
+    if (!integrity.ok) {
+      throw new Error(`Rebuilt index failed integrity check: ${integrity.issues.map(issue => issue.message).join('; ')}`);
+    }
+    await vectorStore.close();
+
+    const lexicalIndexPath = path.join(snapshotDir, manifest.files.lexicalIndex ?? 'bm25.json');
+    const lexicalIndex = await BM25Index.load(lexicalIndexPath);
+    const indexed: VectorDocument[] = lexicalIndex.getDocuments();
+    lexicalIndex.deleteDocuments(indexed.filter(doc => doc.metadata.domain === domain).map(doc => doc.id));
+    lexicalIndex.addDocuments(documents);
+    await lexicalIndex.save(lexicalIndexPath);
+
+    const corpus = lexicalIndex.getDocuments();
+    await snapshots.publish(version, {
+      embeddingModel: manifest.embeddingModel,
+      dimensions: manifest.dimensions,
+      embeddingProvider: embeddingService.getProviderName(),
+      backend: 'sharded',
+      corpusHash: computeCorpusHash(corpus),
+      chunker: this.chunkingService.getSettings(),
+      documentCount: corpus.length,
+      files: { ...manifest.files, lexicalIndex: path.basename(lexicalIndexPath) }
     });
+    await this.replaceDomainExports(domain, chunks, embeddedChunks);
+
+    console.log(`✨ Rebuilt shard ${domain} with ${documents.length} documents; other shards unchanged`);
+    console.log(`🔁 Current index snapshot is now ${version}`);
+  }
+
+  /**
+   * Embed chunk contents in one call; the service batches requests, retries
+   * rate limits and keeps results aligned with chunks
+   */
+  private async embedChunks(embeddingService: SeedEmbeddingService, chunks: Chunk[]): Promise<EmbeddingResult[]> {
+    console.log(`📊 Processing ${chunks.length} chunks...`);
 
-    // Convert chunks to VectorDocument format
-    const vectorDocuments = embeddedChunks.map(chunk => ({
+    const results = await embeddingService.embedBatch(chunks.map(chunk => chunk.content));
+    const failures = results.flatMap((result, i) => ('error' in result ? [`${chunks[i].id}: ${result.error}`] : []));
+    if (failures.length > 0) {
+      failures.slice(0, 10).forEach(failure => console.error(`❌ Failed to generate embedding for ${failure}`));
+      throw new Error(`Failed to embed ${failures.length} of ${chunks.length} chunks`);
+    }
+    return results.filter((result): result is EmbeddingResult => !('error' in result));
+  }
+
+  private async closeEmbeddingService(embeddingService: SeedEmbeddingService): Promise<void> {
+    // Unchanged chunks come from the embedding cache instead of the provider
+    const cacheStats = embeddingService.getCacheStats();
+    if (cacheStats) {
+      console.log(`💾 Embedding cache: ${cacheStats.hits} reused, ${cacheStats.misses} embedded, ${cacheStats.evictions} evicted`);
+    }
+    await embeddingService.close();
+  }
+
+  /**
+   * Convert embedded chunks to VectorDocument format
+   */
+  private toVectorDocuments(
+    embeddedChunks: Array<Chunk & { embedding: number[] }>,
+    allChunks: Chunk[],
+    estimateChunkNullness: (chunk: Chunk) => number
+  ): VectorDocument[] {
+    return embeddedChunks.map(chunk => ({
       id: chunk.id,
       content: chunk.content,
       embedding: chunk.embedding,
       metadata: {
         domain: chunk.domain,
         source: chunk.source,
-        chunkIndex: chunks.findIndex(c => c.id === chunk.id),
-        tokens: chunk.tokens
+        chunkIndex: allChunks.findIndex(c => c.id === chunk.id),
+        tokens: chunk.tokens,
+        // Certainty signal from the chunk's own text, independent of query similarity
+        nullness: estimateChunkNullness(chunk)
       }
     }));
+  }
 
-    // Add documents to vector store
-    await vectorStore.addDocuments(vectorDocuments);
-    
-    // Save the vector store
-    await vectorStore.save();
-    await vectorStore.close();
+  /**
+   * Swap one domain's entries in embeddings.json and chunks.json, which a full seed writes
+   */
+  private async replaceDomainExports(domain: string, chunks: Chunk[], embeddedChunks: Array<Chunk & { embedding: number[] }>): Promise<void> {
+    const embeddingsPath = path.join(this.embeddingsDir, 'embeddings.json');
+    const chunksPath = path.join(this.embeddingsDir, 'chunks.json');
 
-    console.log(`✨ Generated embeddings for ${chunks.length} chunks`);
-    console.log(`📁 Saved embeddings to: ${embeddingsPath}`);
-    console.log(`🔍 Created FAISS index with ${vectorDocuments.length} documents`);
+    try {
+      const embeddingData = JSON.parse(await fs.readFile(embeddingsPath, 'utf-8'));
+      const exportedChunks: Chunk[] = JSON.parse(await fs.readFile(chunksPath, 'utf-8'));
+
+      embeddingData.generated = new Date().toISOString();
+      embeddingData.chunks = [...embeddingData.chunks.filter((chunk: Chunk) => chunk.domain !== domain), ...embeddedChunks];
+      await fs.writeFile(embeddingsPath, JSON.stringify(embeddingData, null, 2));
+      await fs.writeFile(chunksPath, JSON.stringify([...exportedChunks.filter(chunk => chunk.domain !== domain), ...chunks], null, 2));
+    } catch {
+      console.log(`⚠️  No ${embeddingsPath} to update; run a full seed to write it`);
+    }
+  }
+
+  /**
+   * Print the on-disk size of the index (every shard's, when sharded) and its
+   * sidecars and the recall of the saved index against exact cosine search
+   * over the same embeddings
+   */
+  private async reportIndexFootprint(vectorStore: SearchableStore, documents: VectorDocument[], indexFiles: string[], dimensions: number): Promise<void> {
+    const sizeOf = async (suffix: string) => {
+      let bytes = 0;
+      for (const file of indexFiles) {
+        bytes += (await fs.stat(file + suffix)).size;
+      }
+      return bytes;
+    };
+    const indexBytes = await sizeOf('');
+    const documentBytes = await sizeOf('.docs.bin');
+    const mappingBytes = await sizeOf('.metadata.json');
+    const float32Bytes = documents.length * dimensions * 4;
+
+    const normalize = (vector: number[]) => {
+      const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0)) || 1;
+      return vector.map(val => val / magnitude);
+    };
+    const normalized = documents.map(doc => normalize(doc.embedding));
+
+    // Use evenly spaced documents as queries and exact cosine as ground truth
+    const k = Math.min(RECALL_K, documents.length);
+    const step = Math.max(1, Math.floor(documents.length / RECALL_QUERIES));
+    let hits = 0;
+    let queries = 0;
+    for (let q = 0; q < documents.length && queries < RECALL_QUERIES; q += step, queries++) {
+      const exact = normalized
+        .map((vector, i) => ({ id: documents[i].id, score: vector.reduce((sum, val, j) => sum + val * normalized[q][j], 0) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+      const found = new Set((await vectorStore.search(documents[q].embedding, k)).map(result => result.document.id));
+      hits += exact.filter(({ id }) => found.has(id)).length;
+    }
+
+    const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+    console.log(`📐 Index footprint (${this.options.quantization === 'none' ? 'float32' : this.options.quantization}):`);
+    console.log(`  FAISS ${indexFiles.length > 1 ? `indexes (${indexFiles.length} shards)` : 'index'}: ${kb(indexBytes)} (${(indexBytes / float32Bytes * 100).toFixed(1)}% of float32 vectors)`);
+    console.log(`  Document sidecar: ${kb(documentBytes)}, position map: ${kb(mappingBytes)}`);
+    console.log(`  Recall@${k} vs exact search: ${(queries > 0 ? hits / (queries * k) : 1).toFixed(3)} over ${queries} queries`);
   }
 
   private async initializeNullnessTracking(): Promise<void> {
@@ -266,6 +595,78 @@ class SeedService {
   }
 }
 
+// Parse command line arguments
+function parseArgs(): SeedOptions {
+  const options: SeedOptions = {
+    reducer: 'none',
+    quantization: 'none',
+    pqM: 64,
+    rescore: 4,
+    backend: 'faiss'
+  };
+  let backend = process.env.VECTOR_STORE_BACKEND || 'faiss';
+  // Settings a --domain re-seed takes from the current snapshot instead
+  const snapshotFlags: string[] = [];
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--reducer=')) {
+      const reducer = arg.split('=')[1];
+      if (reducer !== 'none' && reducer !== 'pca') {
+        console.error('❌ Invalid reducer. Must be one of: none, pca.');
+        process.exit(1);
+      }
+      options.reducer = reducer;
+      snapshotFlags.push('--reducer');
+    } else if (arg.startsWith('--backend=')) {
+      backend = arg.split('=')[1];
+    } else if (arg.startsWith('--domain=')) {
+      options.domain = arg.split('=')[1];
+    } else if (arg.startsWith('--quantization=')) {
+      const quantization = arg.split('=')[1];
+      if (!['none', 'sq8', 'pq'].includes(quantization)) {
+        console.error('❌ Invalid quantization. Must be one of: none, sq8, pq.');
+        process.exit(1);
+      }
+      options.quantization = quantization as SeedOptions['quantization'];
+      snapshotFlags.push('--quantization');
+    } else if (arg.startsWith('--dimensions=') || arg.startsWith('--pq-m=') || arg.startsWith('--rescore=')) {
+      const [flag, raw] = arg.split('=');
+      const value = parseInt(raw, 10);
+      if (isNaN(value) || value <= 0) {
+        console.error(`❌ Invalid value for ${flag}. Must be a positive number.`);
+        process.exit(1);
+      }
+      options[flag === '--dimensions' ? 'dimensions' : flag === '--pq-m' ? 'pqM' : 'rescore'] = value;
+      snapshotFlags.push(flag);
+    }
+  }
+
+  // The API serves VECTOR_STORE_BACKEND, so an unset --backend follows it too
+  if (backend !== 'faiss' && backend !== 'sharded') {
+    console.error(`❌ Invalid backend ${backend} (from --backend or VECTOR_STORE_BACKEND). Must be one of: faiss, sharded.`);
+    process.exit(1);
+  }
+  options.backend = backend;
+
+  if (options.domain !== undefined) {
+    if (!options.domain || options.backend !== 'sharded') {
+      console.error('❌ --domain=<domain> rebuilds one shard and needs --backend=sharded (or VECTOR_STORE_BACKEND=sharded).');
+      process.exit(1);
+    }
+    if (snapshotFlags.length > 0) {
+      console.error(`❌ --domain keeps the current snapshot's index settings; drop ${snapshotFlags.join(', ')}.`);
+      process.exit(1);
+    }
+  }
+
+  if (options.reducer === 'pca' && !options.dimensions) {
+    console.error('❌ --reducer=pca needs --dimensions=<n> for the reduced index.');
+    process.exit(1);
+  }
+
+  return options;
+}
+
 // Run the seeding process
-const seedService = new SeedService();
+const seedService = new SeedService(parseArgs());
 seedService.run();
@@ -68,6 +68,10 @@ class CorpusSeedService {
    */
   private async generateEmbeddings(chunks: Chunk[]): Promise<EmbeddedChunk[]> {
     console.log('🔮 Generating embeddings...');
+
+    // Share the API's chunk nullness heuristic (using file:// URL for Windows compatibility)
+    const chunkNullnessPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/nullness/chunk.js').replace(/\\/g, '/'));
+    const { estimateChunkNullness } = await import(chunkNullnessPath.href);
     
     const embeddedChunks: EmbeddedChunk[] = [];
     const batchSize = 100; // OpenAI API batch limit
@@ -85,7 +89,7 @@ class CorpusSeedService {
         // Combine chunks with their embeddings
         batch.forEach((chunk, index) => {
           const embedding = response.data[index].embedding;
-          const nullness = this.calculateInitialNullness(chunk);
+          const nullness: number = estimateChunkNullness(chunk);
           
           embeddedChunks.push({
             ...chunk,
@@ -107,34 +111,6 @@ class CorpusSeedService {
     return embeddedChunks;
   }
 
-  /**
-   * Calculate initial nullness value for a chunk
-   */
-  private calculateInitialNullness(chunk: Chunk): number {
-    // Simple heuristic: shorter chunks and chunks with more questions have higher nullness
-    const questionMarks = (chunk.content.match(/\?/g) || []).length;
-    const uncertaintyWords = (chunk.content.match(/\b(maybe|perhaps|possibly|might|could|uncertain|unclear)\b/gi) || []).length;
-    
-    // Base nullness on content characteristics
-    let nullness = 0.1; // Base nullness
-    
-    // Increase nullness for shorter chunks (less information)
-    if (chunk.tokens < 150) {
-      nullness += 0.1;
-    }
-    
-    // Increase nullness for content with uncertainty indicators
-    nullness += (questionMarks * 0.05);
-    nullness += (uncertaintyWords * 0.03);
-    
-    // Domain-specific adjustments
-    if (chunk.domain === 'null-not-null') {
-      nullness += 0.05; // Theoretical content has inherent uncertainty
-    }
-    
-    return Math.min(nullness, 0.8); // Cap at 0.8
-  }
-
   /**
    * Save embedded chunks to vector store
    */
@@ -0,0 +1,215 @@
+#!/usr/bin/env tsx
+
+/**
+ * Verify index script: Check that the vector index and its document metadata agree
+ * Usage: npm run verify:index [--backend=faiss|sqlite|memory|sharded] [--index=<path>] [--dimensions=<n>] [--repair] [--drop]
+ *
+ * Without --index the index of the current snapshot is checked, with the backend
+ * it was seeded with unless --backend is given.
+ * For --backend=sharded, --index is the shard root (default data/embeddings/shards)
+ * and every shard is checked.
+ * --repair rebuilds the index from the stored documents and re-embeds documents
+ * whose embeddings have the wrong dimensions; add --drop to delete them instead.
+ */
+
+import { config } from 'dotenv';
+import path from 'path';
+
+// Load environment variables from .env file
+config();
+
+interface VerifyOptions {
+  /** Defaults to the current snapshot's backend, then faiss */
+  backend?: 'faiss' | 'sqlite' | 'memory' | 'sharded';
+  indexPath?: string;
+  /** Defaults to the current snapshot's manifest, then 1536 */
+  dimensions?: number;
+  repair: boolean;
+  drop: boolean;
+}
+
+// API shapes this script reads; the scripts build cannot import api/ types (its rootDir is scripts/)
+interface SnapshotInfo {
+  dir: string;
+  manifest: {
+    backend?: VerifyOptions['backend'];
+    dimensions: number;
+    files: { index: string; reducer?: string };
+  };
+}
+
+interface IntegrityReport {
+  ok: boolean;
+  documentCount: number;
+  vectorCount: number;
+  issues: Array<{ type: string; message: string; ids?: string[] }>;
+}
+
+interface EmbeddingFailure {
+  error: string;
+}
+
+interface BatchEmbedder {
+  embedBatch(texts: string[]): Promise<Array<{ embedding: number[] } | EmbeddingFailure>>;
+}
+
+class IndexVerifier {
+  // Set when verifying the current snapshot
+  private snapshot: SnapshotInfo | null = null;
+
+  constructor(private options: VerifyOptions) {}
+
+  async run(): Promise<void> {
+    try {
+      const indexPath = this.options.indexPath || (this.options.backend === 'sharded'
+        ? path.join(process.cwd(), 'data', 'embeddings', 'shards')
+        : await this.resolveCurrentIndex());
+      const backend = this.options.backend ?? this.snapshot?.manifest.backend ?? 'faiss';
+      console.log(`🔎 Verifying ${backend} vector store at ${indexPath}...`);
+
+      // Import vector store (using file:// URL for Windows compatibility)
+      const vectorStorePath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore.js').replace(/\\/g, '/'));
+      const { VectorStoreFactory } = await import(vectorStorePath.href);
+
+      const vectorStore = await VectorStoreFactory.create({
+        backend,
+        dimensions: this.getDimensions(),
+        indexPath,
+        connectionString: indexPath
+      });
+
+      let report: IntegrityReport = await vectorStore.verify();
+      this.printReport(report);
+
+      if (!report.ok && this.options.repair) {
+        console.log(this.options.drop ? '🧹 Repairing (dropping damaged documents)...' : '🔧 Repairing (re-embedding damaged documents)...');
+        report = await vectorStore.repair(this.options.drop ? undefined : await this.createReembedder());
+        await vectorStore.save();
+        this.printReport(report);
+      }
+
+      // Closing saves; only do it when nothing was wrong or after a repair
+      if (report.ok) {
+        await vectorStore.close();
+        console.log('✅ Vector store is consistent');
+      } else {
+        console.error(this.options.repair
+          ? '❌ Vector store is still inconsistent after repair. Re-run make seed.'
+          : '❌ Vector store is inconsistent. Run with --repair, or re-run make seed.');
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Verification failed:', error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * The index of the current snapshot, or the pre-snapshot FAISS location
+   */
+  private async resolveCurrentIndex(): Promise<string> {
+    const snapshotsPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/vectorStore/snapshots.js').replace(/\\/g, '/'));
+    const { SnapshotManager } = await import(snapshotsPath.href);
+
+    this.snapshot = await new SnapshotManager().getCurrent();
+    return this.snapshot
+      ? path.join(this.snapshot.dir, this.snapshot.manifest.files.index)
+      : path.join(process.cwd(), 'data', 'embeddings', 'faiss.index');
+  }
+
+  private getDimensions(): number {
+    return this.options.dimensions ?? this.snapshot?.manifest.dimensions ?? 1536;
+  }
+
+  private printReport(report: IntegrityReport): void {
+    console.log('📊 Integrity report:');
+    console.log(`  Documents: ${report.documentCount}`);
+    console.log(`  Vectors: ${report.vectorCount}`);
+
+    if (report.issues.length === 0) {
+      console.log('  No issues found');
+      return;
+    }
+
+    for (const issue of report.issues) {
+      console.log(`  ⚠️  [${issue.type}] ${issue.message}`);
+      if (issue.ids?.length) {
+        const shown = issue.ids.slice(0, 10).join(', ');
+        console.log(`     ${shown}${issue.ids.length > 10 ? `, ... (${issue.ids.length - 10} more)` : ''}`);
+      }
+    }
+  }
+
+  private async createReembedder(): Promise<(contents: string[]) => Promise<number[][]>> {
+    // Import embedding service (using file:// URL for Windows compatibility)
+    const embeddingPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding.js').replace(/\\/g, '/'));
+    const { EmbeddingService } = await import(embeddingPath.href);
+
+    // Re-embed the way the snapshot was built, through its PCA reducer if it has one
+    const reducerFile = this.snapshot?.manifest.files.reducer;
+    let embeddingService: BatchEmbedder;
+    if (this.snapshot && reducerFile) {
+      const pcaPath = new URL('file://' + path.join(process.cwd(), 'api/src/services/embedding/pca.js').replace(/\\/g, '/'));
+      const { PcaReducer } = await import(pcaPath.href);
+      const reducer = await PcaReducer.load(path.join(this.snapshot.dir, reducerFile));
+      embeddingService = new EmbeddingService({ dimensions: reducer.inputDimensions, reducer });
+    } else {
+      embeddingService = new EmbeddingService({
+        dimensions: this.getDimensions()
+      });
+    }
+
+    return async (contents: string[]) => {
+      console.log(`🔢 Re-embedding ${contents.length} documents...`);
+      const results = await embeddingService.embedBatch(contents);
+      const failed = results.find((result): result is EmbeddingFailure => 'error' in result);
+      if (failed) {
+        throw new Error(`Re-embedding failed: ${failed.error}`);
+      }
+      return results.flatMap(result => ('error' in result ? [] : [result.embedding]));
+    };
+  }
+}
+
+// Parse command line arguments
+function parseArgs(): VerifyOptions {
+  const options: VerifyOptions = {
+    repair: false,
+    drop: false
+  };
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg === '--repair') {
+      options.repair = true;
+    } else if (arg === '--drop') {
+      options.drop = true;
+    } else if (arg.startsWith('--backend=')) {
+      const backend = arg.split('=')[1];
+      if (!['faiss', 'sqlite', 'memory', 'sharded'].includes(backend)) {
+        console.error('❌ Invalid backend. Must be one of: faiss, sqlite, memory, sharded.');
+        process.exit(1);
+      }
+      options.backend = backend as VerifyOptions['backend'];
+    } else if (arg.startsWith('--index=')) {
+      options.indexPath = path.resolve(arg.split('=')[1]);
+    } else if (arg.startsWith('--dimensions=')) {
+      const dimensions = parseInt(arg.split('=')[1], 10);
+      if (isNaN(dimensions) || dimensions <= 0) {
+        console.error('❌ Invalid dimensions value. Must be a positive number.');
+        process.exit(1);
+      }
+      options.dimensions = dimensions;
+    }
+  }
+
+  if (options.drop && !options.repair) {
+    console.error('❌ --drop only applies together with --repair.');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// Run the verification
+const verifier = new IndexVerifier(parseArgs());
+verifier.run();
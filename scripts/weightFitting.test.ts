@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+
+import { CoordinateAscentFitter, FoldResult, QuestionExamples, roundWeights, toFittedPreset } from './weightFitting.js';
+
+// Features: [cosine, certainty]
+const question = (id: string, domain: string, examples: Array<[number, number, boolean]>): QuestionExamples => ({
+  question: { id, domain, query: id, sources: [] },
+  examples: examples.map(([cosine, certainty, relevant], i) => ({
+    chunkId: `${id}-${i}`,
+    features: [cosine, certainty],
+    cosine,
+    relevant
+  }))
+});
+
+// The cited chunk is never the closest match but always the most certain one
+const data = [
+  question('q1', 'hotel', [[0.9, 0.2, false], [0.8, 0.9, true], [0.5, 0.5, false]]),
+  question('q2', 'hotel', [[0.7, 0.1, false], [0.6, 0.8, true]]),
+  question('q3', 'web-dev', [[0.95, 0.3, false], [0.9, 0.9, true]]),
+  question('q4', 'web-dev', [[0.8, 0.4, false], [0.75, 0.7, true], [0.2, 0.1, false]])
+];
+
+describe('CoordinateAscentFitter', () => {
+  const fitter = new CoordinateAscentFitter(['cosine', 'certainty'], 0.1);
+  const cosineOnly = { cosine: 1, certainty: 0 };
+
+  it('should score the rank of the first relevant candidate, breaking ties by cosine', () => {
+    expect(fitter.mrr(data, cosineOnly)).toBe(0.5);
+    expect(fitter.mrr(data, { cosine: 0, certainty: 1 })).toBe(1);
+    expect(fitter.mrr([question('tie', 'hotel', [[0.4, 0.6, false], [0.6, 0.4, true]])], { cosine: 0.5, certainty: 0.5 })).toBe(1);
+    expect(fitter.mrr([], cosineOnly)).toBe(0);
+  });
+
+  it('should move weight to the feature that ranks cited chunks first', () => {
+    const weights = fitter.fit(data, cosineOnly);
+
+    expect(fitter.mrr(data, weights)).toBe(1);
+    expect(weights.certainty).toBeGreaterThan(weights.cosine);
+    expect(weights.cosine + weights.certainty).toBeCloseTo(1);
+  });
+
+  it('should keep the starting weights when nothing improves on them', () => {
+    const perfect = { cosine: 0.2, certainty: 0.8 };
+
+    expect(fitter.fit(data, perfect)).toBe(perfect);
+  });
+
+  it('should rescale the other weights to keep the sum at 1', () => {
+    const three = new CoordinateAscentFitter(['cosine', 'certainty', 'empathy'], 0.1);
+
+    const scaled = three.withWeight({ cosine: 0.6, certainty: 0.3, empathy: 0.1 }, 'cosine', 0.2);
+    expect(scaled.cosine).toBe(0.2);
+    expect(scaled.certainty).toBeCloseTo(0.6);
+    expect(scaled.empathy).toBeCloseTo(0.2);
+
+    expect(three.withWeight({ cosine: 1, certainty: 0, empathy: 0 }, 'cosine', 0.4)).toEqual({ cosine: 0.4, certainty: 0.3, empathy: 0.3 });
+  });
+
+  it('should hold out each domain in turn', () => {
+    const folds = fitter.crossValidate(data, cosineOnly);
+
+    expect(folds.map(({ domain, questions }) => [domain, questions])).toEqual([['hotel', 2], ['web-dev', 2]]);
+    for (const fold of folds) {
+      expect(fold.defaultMrr).toBe(0.5);
+      expect(fold.fittedMrr).toBe(1);
+    }
+    expect(fitter.crossValidate(data.slice(0, 2), cosineOnly)).toEqual([]);
+  });
+
+  it('should start from a preset\'s weights for the fitted features, scaled to sum to 1', () => {
+    const preset = { name: 'Default', alpha: 0.6, beta: 0.3, gamma: 0.1, weights: { recency: 0.2 } };
+
+    const weights = new CoordinateAscentFitter(['cosine', 'recency', 'rerank'], 0.1).fromPreset(preset);
+    expect(weights.cosine).toBeCloseTo(0.75);
+    expect(weights.recency).toBeCloseTo(0.25);
+    expect(weights.rerank).toBe(0);
+
+    expect(new CoordinateAscentFitter(['rerank', 'recency'], 0.1).fromPreset({ ...preset, weights: undefined }))
+      .toEqual({ rerank: 0.5, recency: 0.5 });
+  });
+});
+
+describe('roundWeights', () => {
+  it('should give the rounding remainder to the largest weight', () => {
+    expect(roundWeights({ cosine: 1 / 3, certainty: 1 / 3, empathy: 1 / 3 })).toEqual({ cosine: 0.34, certainty: 0.33, empathy: 0.33 });
+    expect(roundWeights({ cosine: 0.604, certainty: 0.298, empathy: 0.098 })).toEqual({ cosine: 0.6, certainty: 0.3, empathy: 0.1 });
+  });
+});
+
+describe('toFittedPreset', () => {
+  const folds: FoldResult[] = [
+    { domain: 'hotel', questions: 3, defaultMrr: 0.5, fittedMrr: 0.8, weights: {} },
+    { domain: 'web-dev', questions: 1, defaultMrr: 0.3, fittedMrr: 0.4, weights: {} }
+  ];
+
+  it('should map cosine, certainty and empathy to α, β and γ and keep other weighted features', () => {
+    const preset = toFittedPreset({ cosine: 0.5, certainty: 0.3, empathy: 0, recency: 0.2, rerank: 0 }, 4, 0.75, folds);
+
+    expect(preset).toEqual({
+      name: 'Fitted',
+      description: 'Fitted on 4 Q/A citations (MRR 0.750); held-out-domain MRR 0.700 vs 0.450 for the previous default',
+      alpha: 0.5,
+      beta: 0.3,
+      gamma: 0,
+      weights: { recency: 0.2 }
+    });
+  });
+
+  it('should leave out extra weights and fold results when there are none', () => {
+    const preset = toFittedPreset({ cosine: 0.7, certainty: 0.3 }, 2, 1, []);
+
+    expect(preset).toEqual({ name: 'Fitted', description: 'Fitted on 2 Q/A citations (MRR 1.000)', alpha: 0.7, beta: 0.3, gamma: 0 });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Weight fitting math for fit-weights.ts: coordinate ascent on MRR over
+ * labeled candidates, leave-one-domain-out folds, and conversion between
+ * feature weights and VOLaM presets
+ */
+
+// Coordinate ascent stops after this many passes even if it is still improving
+const MAX_ROUNDS = 20;
+
+// Preset weights are written with this many decimals
+export const WEIGHT_DECIMALS = 2;
+
+// Scores closer than this count as tied and are ordered by cosine, as the ranker does
+const SCORE_TIE = 0.001;
+
+// Smallest MRR gain that counts as an improvement
+const EPSILON = 1e-9;
+
+export type Weights = Record<string, number>;
+
+export interface EvalQuestion {
+  id: string;
+  domain: string;
+  query: string;
+  /** `<domain>/<source>` of each cited file present in the corpus */
+  sources: string[];
+}
+
+export interface Example {
+  chunkId: string;
+  /** Feature values in the fitter's feature order */
+  features: number[];
+  cosine: number;
+  relevant: boolean;
+}
+
+export interface QuestionExamples {
+  question: EvalQuestion;
+  examples: Example[];
+}
+
+export interface FoldResult {
+  domain: string;
+  questions: number;
+  defaultMrr: number;
+  fittedMrr: number;
+  weights: Weights;
+}
+
+/**
+ * The preset fields read and written here. Mirrors ParameterPreset in
+ * api/src/services/presets.ts, which the scripts build cannot import: its
+ * rootDir is scripts/.
+ */
+export interface FittedPreset {
+  name: string;
+  description?: string;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  weights?: Weights;
+}
+
+export class CoordinateAscentFitter {
+  /**
+   * @param features Scoring components whose weights are fitted, in Example.features order
+   * @param step Grid step each weight is searched on
+   */
+  constructor(private features: string[], private step: number) {}
+
+  /**
+   * Coordinate ascent on the simplex: try each feature's weight on a grid,
+   * rescaling the others to keep the sum at 1, and keep any change that
+   * raises MRR, until a full pass changes nothing
+   */
+  fit(data: QuestionExamples[], initial: Weights): Weights {
+    let weights = initial;
+    let best = this.mrr(data, weights);
+
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      let improved = false;
+
+      for (const feature of this.features) {
+        for (let step = 0; step * this.step <= 1 + EPSILON; step++) {
+          const candidate = this.withWeight(weights, feature, Math.min(1, step * this.step));
+          const score = this.mrr(data, candidate);
+          if (score > best + EPSILON) {
+            best = score;
+            weights = candidate;
+            improved = true;
+          }
+        }
+      }
+
+      if (!improved) {
+        break;
+      }
+    }
+
+    return weights;
+  }
+
+  /**
+   * Set one feature's weight and scale the others to fill the rest of 1,
+   * keeping their proportions (or splitting it evenly when they are all 0)
+   */
+  withWeight(weights: Weights, feature: string, value: number): Weights {
+    const others = this.features.filter(name => name !== feature);
+    const rest = others.reduce((sum, name) => sum + weights[name], 0);
+    const result: Weights = { [feature]: value };
+    for (const name of others) {
+      result[name] = rest > 0 ? (weights[name] / rest) * (1 - value) : (1 - value) / others.length;
+    }
+    return result;
+  }
+
+  /**
+   * Mean reciprocal rank of each question's first relevant candidate when
+   * ranked by the weighted features, ties broken by cosine as the ranker does
+   */
+  mrr(data: QuestionExamples[], weights: Weights): number {
+    if (data.length === 0) {
+      return 0;
+    }
+    const vector = this.features.map(feature => weights[feature]);
+
+    const total = data.reduce((sum, { examples }) => {
+      const ranked = examples
+        .map(example => ({ example, score: example.features.reduce((s, value, i) => s + value * vector[i], 0) }))
+        .sort((a, b) => (Math.abs(b.score - a.score) < SCORE_TIE ? b.example.cosine - a.example.cosine : b.score - a.score));
+      const rank = ranked.findIndex(({ example }) => example.relevant);
+      return sum + (rank >= 0 ? 1 / (rank + 1) : 0);
+    }, 0);
+
+    return total / data.length;
+  }
+
+  /**
+   * Leave one domain out: fit on the others, compare with the starting
+   * weights on it. Empty with fewer than two domains.
+   */
+  crossValidate(data: QuestionExamples[], initial: Weights): FoldResult[] {
+    const domains = [...new Set(data.map(({ question }) => question.domain))].sort();
+    if (domains.length < 2) {
+      return [];
+    }
+
+    return domains.map(domain => {
+      const heldOut = data.filter(({ question }) => question.domain === domain);
+      const weights = this.fit(data.filter(({ question }) => question.domain !== domain), initial);
+      return {
+        domain,
+        questions: heldOut.length,
+        defaultMrr: this.mrr(heldOut, initial),
+        fittedMrr: this.mrr(heldOut, weights),
+        weights
+      };
+    });
+  }
+
+  /**
+   * Feature weights from a preset's α/β/γ and extra weights, scaled to sum
+   * to 1; features it leaves out start at 0
+   */
+  fromPreset(preset: FittedPreset): Weights {
+    const presetWeights: Weights = { cosine: preset.alpha, certainty: preset.beta, empathy: preset.gamma, ...preset.weights };
+    const weights = this.features.map(feature => presetWeights[feature] ?? 0);
+    const sum = weights.reduce((total, weight) => total + weight, 0);
+    return Object.fromEntries(this.features.map((feature, i) =>
+      [feature, sum > 0 ? weights[i] / sum : 1 / this.features.length]
+    ));
+  }
+}
+
+/**
+ * Round to WEIGHT_DECIMALS, giving the rounding remainder to the largest weight so the sum stays 1
+ */
+export function roundWeights(weights: Weights): Weights {
+  const factor = Math.pow(10, WEIGHT_DECIMALS);
+  const rounded: Weights = Object.fromEntries(Object.entries(weights).map(([feature, weight]) => [feature, Math.round(weight * factor) / factor]));
+  const largest = Object.keys(rounded).reduce((a, b) => (rounded[a] >= rounded[b] ? a : b));
+  const remainder = 1 - Object.values(rounded).reduce((total, weight) => total + weight, 0);
+  rounded[largest] = Math.round((rounded[largest] + remainder) * factor) / factor;
+  return rounded;
+}
+
+/**
+ * Mean MRR over folds, weighted by questions per domain
+ */
+export function meanFoldMrr(folds: FoldResult[], key: 'fittedMrr' | 'defaultMrr'): number {
+  const questions = folds.reduce((sum, fold) => sum + fold.questions, 0);
+  return folds.reduce((sum, fold) => sum + fold[key] * fold.questions, 0) / Math.max(questions, 1);
+}
+
+/**
+ * A preset from fitted weights: cosine, certainty and empathy become α, β
+ * and γ; other features with a weight become extra component weights
+ */
+export function toFittedPreset(weights: Weights, questionCount: number, fittedMrr: number, folds: FoldResult[]): FittedPreset {
+  const { cosine = 0, certainty = 0, empathy = 0, ...extra } = roundWeights(weights);
+  const heldOut = folds.length > 0
+    ? `; held-out-domain MRR ${meanFoldMrr(folds, 'fittedMrr').toFixed(3)} vs ${meanFoldMrr(folds, 'defaultMrr').toFixed(3)} for the previous default`
+    : '';
+  const extraWeights = Object.fromEntries(Object.entries(extra).filter(([, weight]) => weight > 0));
+
+  return {
+    name: 'Fitted',
+    description: `Fitted on ${questionCount} Q/A citations (MRR ${fittedMrr.toFixed(3)})${heldOut}`,
+    alpha: cosine,
+    beta: certainty,
+    gamma: empathy,
+    ...(Object.keys(extraWeights).length > 0 ? { weights: extraWeights } : {})
+  };
+}